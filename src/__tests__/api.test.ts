@@ -4,18 +4,33 @@ import {
   getProfile,
   getFollows,
   getAllFollows,
+  getFollowers,
+  getAllFollowers,
   getUserBlocks,
+  getUserBlocksSince,
+  getUserListBlocks,
+  getListMembers,
   resolvePds,
+  resolvePdsOrDefault,
+  getDidDocumentUrl,
   fetchWithRetry,
   sleep,
   chunk,
   clearPdsCache,
+  cachePds,
+  getCachedPds,
+  populatePdsCache,
+  getPdsCacheEntries,
+  invalidatePds,
+  createXrpcClient,
 } from '../api.js';
+import { clearRateLimits } from '../ratelimit.js';
 
 describe('API Module', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     clearPdsCache(); // Clear PDS cache between tests
+    clearRateLimits();
 
     const store: Record<string, string> = {};
     const localStorageMock = {
@@ -303,6 +318,87 @@ describe('API Module', () => {
       expect(allFollows).toHaveLength(2);
       expect(allFollows[0].handle).toBe('user1.bsky.social');
     });
+
+    it('should start from a cursor and report progress per page', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({
+              follows: [{ did: 'did:2', handle: 'user2.bsky.social' }],
+              cursor: 'page3',
+            }),
+            { status: 200 }
+          )
+        )
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({ follows: [{ did: 'did:3', handle: 'user3.bsky.social' }] }),
+            { status: 200 }
+          )
+        );
+      const onPage = vi.fn().mockResolvedValue(undefined);
+
+      const follows = await getAllFollows('did:source', { cursor: 'page2', onPage });
+
+      expect(vi.mocked(fetch).mock.calls[0][0]).toContain('cursor=page2');
+      expect(follows.map((f) => f.did)).toEqual(['did:2', 'did:3']);
+      // Only called while more pages remain
+      expect(onPage).toHaveBeenCalledTimes(1);
+      expect(onPage).toHaveBeenCalledWith([expect.objectContaining({ did: 'did:2' })], 'page3');
+    });
+  });
+
+  describe('getFollowers', () => {
+    it('should fetch a page of followers', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            subject: { did: 'did:source', handle: 'source.bsky.social' },
+            followers: [{ did: 'did:fan1', handle: 'fan1.bsky.social' }],
+            cursor: 'next-cursor',
+          }),
+          { status: 200 }
+        )
+      );
+
+      const result = await getFollowers('did:source');
+
+      expect(vi.mocked(fetch).mock.calls[0][0]).toContain('app.bsky.graph.getFollowers');
+      expect(result.followers).toEqual([{ did: 'did:fan1', handle: 'fan1.bsky.social' }]);
+      expect(result.cursor).toBe('next-cursor');
+    });
+
+    it('should throw on API error', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(new Response('', { status: 500 }));
+
+      await expect(getFollowers('did:source')).rejects.toThrow('Failed to get followers');
+    });
+  });
+
+  describe('getAllFollowers', () => {
+    it('should fetch all followers with pagination', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({
+              followers: [{ did: 'did:fan1', handle: 'fan1.bsky.social' }],
+              cursor: 'page2',
+            }),
+            { status: 200 }
+          )
+        )
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({ followers: [{ did: 'did:fan2', handle: 'fan2.bsky.social' }] }),
+            { status: 200 }
+          )
+        );
+
+      const followers = await getAllFollowers('did:source');
+
+      expect(vi.mocked(fetch).mock.calls[1][0]).toContain('cursor=page2');
+      expect(followers.map((f) => f.did)).toEqual(['did:fan1', 'did:fan2']);
+    });
   });
 
   describe('getUserBlocks', () => {
@@ -410,6 +506,369 @@ describe('API Module', () => {
     });
   });
 
+  describe('getUserBlocksSince', () => {
+    const blockRecord = (rkey: string, subject: string) => ({
+      uri: `at://did:user/app.bsky.graph.block/${rkey}`,
+      cid: `cid-${rkey}`,
+      value: { $type: 'app.bsky.graph.block', subject, createdAt: '2024-01-01T00:00:00Z' },
+    });
+
+    it('should report the newest rkey on a full fetch', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            records: [blockRecord('3kccc', 'did:c'), blockRecord('3kbbb', 'did:b')],
+          }),
+          { status: 200 }
+        )
+      );
+
+      const result = await getUserBlocksSince('did:user', undefined, 'https://pds.test.com');
+      expect(result).toEqual({
+        blocks: ['did:c', 'did:b'],
+        newestRkey: '3kccc',
+        state: 'complete',
+        httpStatus: 200,
+      });
+    });
+
+    it('should reject instead of returning a partial list when aborted', async () => {
+      const controller = new AbortController();
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({ records: [blockRecord('3kccc', 'did:c')], cursor: 'page2' }),
+            { status: 200 }
+          )
+        )
+        .mockImplementationOnce(async () => {
+          controller.abort();
+          throw new DOMException('Aborted', 'AbortError');
+        });
+
+      await expect(
+        getUserBlocksSince('did:user', undefined, 'https://pds.test.com', controller.signal)
+      ).rejects.toThrow('Aborted');
+      expect(fetch).toHaveBeenLastCalledWith(
+        expect.stringContaining('cursor=page2'),
+        expect.objectContaining({ signal: controller.signal })
+      );
+    });
+
+    it('should stop paging at the known rkey', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            records: [blockRecord('3kccc', 'did:c'), blockRecord('3kbbb', 'did:b')],
+            cursor: 'page2',
+          }),
+          { status: 200 }
+        )
+      );
+
+      const result = await getUserBlocksSince('did:user', '3kbbb', 'https://pds.test.com');
+      expect(result).toEqual({
+        blocks: ['did:c'],
+        newestRkey: '3kccc',
+        state: 'complete',
+        httpStatus: 200,
+      });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return no blocks when nothing is newer', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response(JSON.stringify({ records: [blockRecord('3kbbb', 'did:b')] }), {
+          status: 200,
+        })
+      );
+
+      const result = await getUserBlocksSince('did:user', '3kbbb', 'https://pds.test.com');
+      expect(result).toEqual({
+        blocks: [],
+        newestRkey: undefined,
+        state: 'complete',
+        httpStatus: 200,
+      });
+    });
+
+    it('should flag a non-OK response partway through paging', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({ records: [blockRecord('3kccc', 'did:c')], cursor: 'page2' }),
+          { status: 200 }
+        )
+      );
+      vi.mocked(fetch).mockResolvedValueOnce(new Response('', { status: 500 }));
+
+      const result = await getUserBlocksSince('did:user', '3kaaa', 'https://pds.test.com');
+      expect(result).toEqual({
+        blocks: ['did:c'],
+        newestRkey: '3kccc',
+        state: 'partial',
+        httpStatus: 500,
+      });
+    });
+
+    it('should re-resolve and refetch when the repo has moved', async () => {
+      cachePds('did:plc:moved', 'https://old.pds.test');
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ error: 'RepoNotFound' }), { status: 400 })
+        )
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({
+              service: [{ id: '#atproto_pds', type: 'x', serviceEndpoint: 'https://new.pds.test' }],
+            }),
+            { status: 200 }
+          )
+        )
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ records: [blockRecord('3kccc', 'did:c')] }), {
+            status: 200,
+          })
+        );
+
+      const result = await getUserBlocksSince('did:plc:moved');
+
+      expect(result).toEqual({
+        blocks: ['did:c'],
+        newestRkey: '3kccc',
+        state: 'complete',
+        httpStatus: 200,
+      });
+      expect(vi.mocked(fetch).mock.calls[2][0]).toContain('https://new.pds.test/xrpc/');
+      expect(getCachedPds('did:plc:moved')).toBe('https://new.pds.test');
+    });
+
+    it('should drop the cached PDS after a redirect', async () => {
+      cachePds('did:plc:moved', 'https://old.pds.test');
+      const redirected = new Response(JSON.stringify({ records: [] }), { status: 200 });
+      Object.defineProperty(redirected, 'redirected', { value: true });
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(redirected)
+        .mockResolvedValueOnce(new Response('', { status: 500 }));
+
+      const result = await getUserBlocksSince('did:plc:moved');
+
+      // Resolution failed, so the redirected data is kept and nothing is cached
+      expect(result).toEqual({
+        blocks: [],
+        newestRkey: undefined,
+        state: 'complete',
+        httpStatus: 200,
+      });
+      expect(getCachedPds('did:plc:moved')).toBeUndefined();
+    });
+
+    it('should keep the cached PDS on other errors', async () => {
+      cachePds('did:plc:user', 'https://pds.test.com');
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response(JSON.stringify({ error: 'InternalServerError' }), { status: 500 })
+      );
+
+      const result = await getUserBlocksSince('did:plc:user');
+
+      expect(result.state).toBe('error');
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(getCachedPds('did:plc:user')).toBe('https://pds.test.com');
+    });
+
+    it('should report repos that are not found', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response(JSON.stringify({ error: 'RepoNotFound' }), { status: 400 })
+      );
+
+      const result = await getUserBlocksSince('did:user', undefined, 'https://pds.test.com');
+      expect(result).toEqual({
+        blocks: [],
+        newestRkey: undefined,
+        state: 'not-found',
+        httpStatus: 400,
+      });
+    });
+
+    it('should report taken-down repos as deactivated', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response(JSON.stringify({ error: 'RepoTakendown' }), { status: 400 })
+      );
+
+      const result = await getUserBlocksSince('did:user', undefined, 'https://pds.test.com');
+      expect(result.state).toBe('deactivated');
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report network failures as errors', async () => {
+      vi.useFakeTimers();
+      vi.mocked(fetch).mockRejectedValue(new Error('Network error'));
+
+      const pending = getUserBlocksSince('did:user', undefined, 'https://pds.test.com');
+      await vi.runAllTimersAsync();
+      const result = await pending;
+      vi.useRealTimers();
+
+      expect(result).toEqual({ blocks: [], newestRkey: undefined, state: 'error' });
+    });
+  });
+
+  describe('getUserListBlocks', () => {
+    it('should list the URIs of the lists a user blocks through', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            records: [
+              {
+                uri: 'at://did:user/app.bsky.graph.listblock/3kaaa',
+                cid: 'cid-3kaaa',
+                value: {
+                  $type: 'app.bsky.graph.listblock',
+                  subject: 'at://did:owner/app.bsky.graph.list/3klist',
+                  createdAt: '2024-01-01T00:00:00Z',
+                },
+              },
+            ],
+          }),
+          { status: 200 }
+        )
+      );
+
+      const result = await getUserListBlocks('did:user', 'https://pds.test.com');
+
+      expect(vi.mocked(fetch).mock.calls[0][0]).toContain('collection=app.bsky.graph.listblock');
+      expect(result.blocks).toEqual(['at://did:owner/app.bsky.graph.list/3klist']);
+      expect(result.state).toBe('complete');
+    });
+  });
+
+  describe('getListMembers', () => {
+    const listUri = 'at://did:owner/app.bsky.graph.list/3klist';
+    const listItem = (rkey: string, subject: string, list: string) => ({
+      uri: `at://did:owner/app.bsky.graph.listitem/${rkey}`,
+      cid: `cid-${rkey}`,
+      value: { $type: 'app.bsky.graph.listitem', subject, list, createdAt: '2024-01-01T00:00:00Z' },
+    });
+
+    it("should read the members of one list from its owner's listitem records", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({
+              records: [
+                listItem('3kccc', 'did:spammer', listUri),
+                listItem('3kbbb', 'did:friend', 'at://did:owner/app.bsky.graph.list/3kother'),
+                listItem('3kaaa', 'did:troll', listUri),
+              ],
+            }),
+            { status: 200 }
+          )
+        )
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({
+              uri: listUri,
+              value: { $type: 'app.bsky.graph.list', name: 'Spam', purpose: 'modlist' },
+            }),
+            { status: 200 }
+          )
+        );
+
+      const results = await getListMembers('did:owner', [listUri], 'https://pds.test.com');
+
+      expect(vi.mocked(fetch).mock.calls[0][0]).toContain('repo=did%3Aowner');
+      expect(vi.mocked(fetch).mock.calls[1][0]).toContain('rkey=3klist');
+      expect(results.get(listUri)).toEqual({
+        name: 'Spam',
+        members: ['did:spammer', 'did:troll'],
+        state: 'complete',
+        httpStatus: 200,
+      });
+    });
+
+    it("should read several of an owner's lists from one listing", async () => {
+      const otherUri = 'at://did:owner/app.bsky.graph.list/3kother';
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({
+              records: [
+                listItem('3kccc', 'did:spammer', listUri),
+                listItem('3kbbb', 'did:friend', otherUri),
+              ],
+            }),
+            { status: 200 }
+          )
+        )
+        .mockResolvedValue(new Response('', { status: 400 }));
+
+      const results = await getListMembers(
+        'did:owner',
+        [listUri, otherUri],
+        'https://pds.test.com'
+      );
+
+      const listings = vi
+        .mocked(fetch)
+        .mock.calls.filter(([url]) => String(url).includes('listRecords'));
+      expect(listings).toHaveLength(1);
+      expect(results.get(listUri)?.members).toEqual(['did:spammer']);
+      expect(results.get(otherUri)?.members).toEqual(['did:friend']);
+    });
+
+    it("should leave the name out when the list record can't be read", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ records: [listItem('3kaaa', 'did:troll', listUri)] }), {
+            status: 200,
+          })
+        )
+        .mockResolvedValueOnce(new Response('', { status: 400 }));
+
+      const results = await getListMembers('did:owner', [listUri], 'https://pds.test.com');
+
+      expect(results.get(listUri)?.name).toBeUndefined();
+      expect(results.get(listUri)?.members).toEqual(['did:troll']);
+    });
+  });
+
+  describe('PDS cache', () => {
+    it('should ignore expired entries', () => {
+      const now = Date.now();
+      populatePdsCache([
+        { did: 'did:plc:fresh', pdsUrl: 'https://fresh.test', resolvedAt: now - 1000 },
+        { did: 'did:plc:old', pdsUrl: 'https://old.test', resolvedAt: now - 8 * 86400000 },
+      ]);
+
+      expect(getCachedPds('did:plc:fresh')).toBe('https://fresh.test');
+      expect(getCachedPds('did:plc:old')).toBeUndefined();
+      expect(getPdsCacheEntries().map((e) => e.did)).toEqual(['did:plc:fresh']);
+    });
+
+    it('should not replace newer in-memory entries with stored ones', () => {
+      cachePds('did:plc:user', 'https://current.test');
+      populatePdsCache([
+        { did: 'did:plc:user', pdsUrl: 'https://stale.test', resolvedAt: Date.now() - 60000 },
+      ]);
+
+      expect(getCachedPds('did:plc:user')).toBe('https://current.test');
+    });
+
+    it('should expire entries after the TTL', () => {
+      cachePds('did:plc:user', 'https://pds.test');
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 8 * 86400000);
+
+      expect(getCachedPds('did:plc:user')).toBeUndefined();
+      vi.mocked(Date.now).mockRestore();
+    });
+
+    it('should forget invalidated entries', () => {
+      cachePds('did:plc:user', 'https://pds.test');
+      invalidatePds('did:plc:user');
+
+      expect(getCachedPds('did:plc:user')).toBeUndefined();
+    });
+  });
+
   describe('resolvePds', () => {
     it('should resolve PDS from DID', async () => {
       const mockDoc = {
@@ -430,6 +889,43 @@ describe('API Module', () => {
       expect(pds).toBe('https://pds.bsky.social');
     });
 
+    it('should resolve did:web from the domain well-known document', async () => {
+      const mockDoc = {
+        service: [
+          {
+            id: 'did:web:example.com#atproto_pds',
+            type: 'AtprotoPersonalDataServer',
+            serviceEndpoint: 'https://pds.example.com',
+          },
+        ],
+      };
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response(JSON.stringify(mockDoc), { status: 200 })
+      );
+
+      const pds = await resolvePds('did:web:example.com');
+
+      expect(fetch).toHaveBeenCalledWith('https://example.com/.well-known/did.json', {
+        signal: undefined,
+      });
+      expect(pds).toBe('https://pds.example.com');
+    });
+
+    it('should cache did:web resolutions', async () => {
+      const mockDoc = {
+        service: [{ id: '#atproto_pds', type: 'x', serviceEndpoint: 'https://pds.example.com' }],
+      };
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response(JSON.stringify(mockDoc), { status: 200 })
+      );
+
+      await resolvePds('did:web:example.com');
+      const pds = await resolvePds('did:web:example.com');
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(pds).toBe('https://pds.example.com');
+    });
+
     it('should return null for non-plc DIDs', async () => {
       const pds = await resolvePds('did:key:test');
       expect(pds).toBeNull();
@@ -442,11 +938,34 @@ describe('API Module', () => {
       expect(pds).toBeNull();
     });
 
-    it('should return null on network error', async () => {
-      vi.mocked(fetch).mockRejectedValueOnce(new Error('Network error'));
+    it('should throw on network errors once retries run out', async () => {
+      vi.useFakeTimers();
+      vi.mocked(fetch).mockRejectedValue(new Error('Network error'));
 
-      const pds = await resolvePds('did:plc:test123');
-      expect(pds).toBeNull();
+      const pending = expect(resolvePds('did:plc:test123')).rejects.toThrow('Network error');
+      await vi.runAllTimersAsync();
+      await pending;
+      vi.useRealTimers();
+      expect(fetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should throw on server errors, so the lookup is retried', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(new Response('', { status: 503 }));
+
+      await expect(resolvePds('did:plc:test123')).rejects.toThrow(
+        'Could not read the DID document of did:plc:test123 (HTTP 503)'
+      );
+    });
+
+    it('should look the DID up through the rate limiter with the signal', async () => {
+      const controller = new AbortController();
+      vi.mocked(fetch).mockResolvedValueOnce(new Response('', { status: 404 }));
+
+      await resolvePds('did:plc:test123', controller.signal);
+
+      expect(fetch).toHaveBeenCalledWith('https://plc.directory/did:plc:test123', {
+        signal: controller.signal,
+      });
     });
 
     it('should return null when no PDS service in document', async () => {
@@ -463,6 +982,53 @@ describe('API Module', () => {
     });
   });
 
+  describe('getDidDocumentUrl', () => {
+    it('should map did:plc to the PLC directory', () => {
+      expect(getDidDocumentUrl('did:plc:abc')).toBe('https://plc.directory/did:plc:abc');
+    });
+
+    it('should map path-style and port-encoded did:web DIDs', () => {
+      expect(getDidDocumentUrl('did:web:example.com:users:alice')).toBe(
+        'https://example.com/users/alice/did.json'
+      );
+      expect(getDidDocumentUrl('did:web:localhost%3A8080')).toBe(
+        'https://localhost:8080/.well-known/did.json'
+      );
+    });
+
+    it('should return null for unsupported methods', () => {
+      expect(getDidDocumentUrl('did:key:test')).toBeNull();
+      expect(getDidDocumentUrl('did:web:')).toBeNull();
+    });
+  });
+
+  describe('resolvePdsOrDefault', () => {
+    it('should return the resolved PDS without a trailing slash', async () => {
+      const mockDoc = {
+        service: [{ id: '#atproto_pds', serviceEndpoint: 'https://pds.example.com/' }],
+      };
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response(JSON.stringify(mockDoc), { status: 200 })
+      );
+
+      const pds = await resolvePdsOrDefault('did:plc:test123');
+      expect(pds).toBe('https://pds.example.com');
+    });
+
+    it('should fall back to the default PDS', async () => {
+      const pds = await resolvePdsOrDefault('did:key:test');
+      expect(pds).toBe('https://bsky.social');
+    });
+
+    it("should throw instead of falling back when a did:web document can't be read", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(new Response('', { status: 404 }));
+
+      await expect(resolvePdsOrDefault('did:web:alice.example.com')).rejects.toThrow(
+        'Could not resolve the PDS of did:web:alice.example.com from https://alice.example.com/.well-known/did.json'
+      );
+    });
+  });
+
   describe('fetchWithRetry', () => {
     it('should retry on 429 status', async () => {
       vi.mocked(fetch)
@@ -474,6 +1040,25 @@ describe('API Module', () => {
       expect(fetch).toHaveBeenCalledTimes(2);
     });
 
+    it('should wait as long as Retry-After asks on 429', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'retry-after': '0.2' } }))
+        .mockResolvedValueOnce(new Response('success', { status: 200 }));
+
+      const start = Date.now();
+      const response = await fetchWithRetry('https://test.api', {}, 3, 10);
+      expect(response.status).toBe(200);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(190);
+    });
+
+    it('should return the 429 response once retries run out', async () => {
+      vi.mocked(fetch).mockResolvedValue(new Response('', { status: 429 }));
+
+      const response = await fetchWithRetry('https://test.api', {}, 1, 10);
+      expect(response.status).toBe(429);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
     it('should retry on network error', async () => {
       vi.mocked(fetch)
         .mockRejectedValueOnce(new Error('Network error'))
@@ -488,6 +1073,212 @@ describe('API Module', () => {
 
       await expect(fetchWithRetry('https://test.api', {}, 1, 10)).rejects.toThrow();
     });
+
+    it('should not retry once the signal is aborted', async () => {
+      const controller = new AbortController();
+      vi.mocked(fetch).mockImplementationOnce(async () => {
+        controller.abort();
+        throw new DOMException('Aborted', 'AbortError');
+      });
+
+      await expect(
+        fetchWithRetry('https://test.api', { signal: controller.signal }, 3, 10)
+      ).rejects.toThrow('Aborted');
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting out a rate limit when the signal aborts', async () => {
+      const controller = new AbortController();
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response('', { status: 429, headers: { 'retry-after': '60' } })
+      );
+      setTimeout(() => controller.abort(), 50);
+
+      const start = Date.now();
+      await expect(
+        fetchWithRetry('https://test.api', { signal: controller.signal }, 3, 10)
+      ).rejects.toThrow();
+      expect(Date.now() - start).toBeLessThan(1000);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop backing off when the signal aborts', async () => {
+      const controller = new AbortController();
+      vi.mocked(fetch).mockRejectedValueOnce(new Error('Network error'));
+      setTimeout(() => controller.abort(), 50);
+
+      const start = Date.now();
+      await expect(
+        fetchWithRetry('https://test.api', { signal: controller.signal }, 3, 60_000)
+      ).rejects.toThrow();
+      expect(Date.now() - start).toBeLessThan(1000);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('createXrpcClient', () => {
+    const session = {
+      accessJwt: 'access-1',
+      refreshJwt: 'refresh-1',
+      did: 'did:me',
+      handle: 'me.bsky.social',
+      pdsUrl: 'https://pds.test',
+      ownedByExtension: true,
+    };
+    const expired = () =>
+      new Response(JSON.stringify({ error: 'ExpiredToken', message: 'Token has expired' }), {
+        status: 400,
+      });
+
+    // A PDS whose access tokens expire once refreshed tokens exist
+    const mockPds = () => {
+      let valid = 'access-1';
+      vi.mocked(fetch).mockImplementation(async (input, init) => {
+        const url = String(input);
+        const token = (init?.headers as Record<string, string>).Authorization;
+        if (url.endsWith('com.atproto.server.refreshSession')) {
+          valid = 'access-2';
+          return new Response(
+            JSON.stringify({ accessJwt: 'access-2', refreshJwt: 'refresh-2', did: 'did:me' })
+          );
+        }
+        // Calls without a token read public records
+        return !token || token === `Bearer ${valid}`
+          ? new Response(JSON.stringify({ url }))
+          : expired();
+      });
+    };
+
+    const createStore = (initial = session) => {
+      let stored = initial;
+      return {
+        load: vi.fn(async () => stored),
+        save: vi.fn(async (updated: typeof session) => {
+          stored = updated;
+        }),
+      };
+    };
+
+    it('should call the PDS with the access token', async () => {
+      mockPds();
+      const client = createXrpcClient(createStore());
+
+      const result = await client.query('app.bsky.actor.getPreferences', { limit: '1' });
+
+      expect(result).toEqual({
+        url: 'https://pds.test/xrpc/app.bsky.actor.getPreferences?limit=1',
+      });
+      expect(fetch).toHaveBeenCalledWith(
+        'https://pds.test/xrpc/app.bsky.actor.getPreferences?limit=1',
+        expect.objectContaining({
+          method: 'GET',
+          headers: { Authorization: 'Bearer access-1' },
+        })
+      );
+    });
+
+    it('should refresh an expired session, save it and retry', async () => {
+      mockPds();
+      // The stored access token has since been replaced by the PDS
+      vi.mocked(fetch).mockResolvedValueOnce(expired());
+      const store = createStore();
+      const client = createXrpcClient(store);
+
+      await client.procedure('app.bsky.actor.putPreferences', { preferences: [] });
+
+      expect(store.save).toHaveBeenCalledWith({
+        ...session,
+        accessJwt: 'access-2',
+        refreshJwt: 'refresh-2',
+      });
+      expect(fetch).toHaveBeenCalledWith(
+        'https://pds.test/xrpc/com.atproto.server.refreshSession',
+        expect.objectContaining({ headers: { Authorization: 'Bearer refresh-1' } })
+      );
+      expect(fetch).toHaveBeenLastCalledWith(
+        'https://pds.test/xrpc/app.bsky.actor.putPreferences',
+        expect.objectContaining({
+          method: 'POST',
+          body: '{"preferences":[]}',
+          headers: { Authorization: 'Bearer access-2', 'Content-Type': 'application/json' },
+        })
+      );
+    });
+
+    it('should share one refresh between concurrent calls', async () => {
+      mockPds();
+      vi.mocked(fetch).mockResolvedValueOnce(expired()).mockResolvedValueOnce(expired());
+      const client = createXrpcClient(createStore());
+
+      await Promise.all([client.query('a.b.c'), client.query('a.b.d')]);
+
+      const refreshes = vi
+        .mocked(fetch)
+        .mock.calls.filter(([url]) => String(url).endsWith('refreshSession'));
+      expect(refreshes).toHaveLength(1);
+    });
+
+    it('should fail when the session cannot be refreshed', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(expired())
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ error: 'ExpiredToken' }), { status: 400 })
+        );
+      const store = createStore();
+
+      await expect(createXrpcClient(store).procedure('a.b.c')).rejects.toThrow(
+        'Session refresh failed: ExpiredToken'
+      );
+      expect(store.save).not.toHaveBeenCalled();
+    });
+
+    it('should fail without a refresh token or session', async () => {
+      vi.mocked(fetch).mockResolvedValue(expired());
+
+      await expect(
+        createXrpcClient(createStore({ ...session, refreshJwt: undefined })).procedure('a.b.c')
+      ).rejects.toThrow('no refresh token');
+      await expect(
+        createXrpcClient({ load: async () => null, save: vi.fn() }).query('a.b.c')
+      ).rejects.toThrow('Not logged in');
+    });
+
+    it('should use tokens pushed since the call started instead of refreshing', async () => {
+      mockPds();
+      const store = createStore();
+      vi.mocked(fetch).mockResolvedValueOnce(expired());
+      store.load
+        .mockResolvedValueOnce(session)
+        .mockResolvedValueOnce({ ...session, accessJwt: 'access-1b' });
+      vi.mocked(fetch).mockResolvedValueOnce(new Response('{}'));
+
+      await createXrpcClient(store).query('a.b.c');
+
+      expect(fetch).toHaveBeenLastCalledWith(
+        'https://pds.test/xrpc/a.b.c',
+        expect.objectContaining({ headers: { Authorization: 'Bearer access-1b' } })
+      );
+      expect(store.save).not.toHaveBeenCalled();
+    });
+
+    it("should not rotate bsky.app's session, reading public records instead", async () => {
+      mockPds();
+      vi.mocked(fetch).mockResolvedValueOnce(expired());
+      const store = createStore({ ...session, ownedByExtension: false });
+      const client = createXrpcClient(store);
+
+      await client.query('app.bsky.actor.getProfile', { actor: 'did:profile' });
+      vi.mocked(fetch).mockResolvedValueOnce(expired());
+      await expect(client.procedure('a.b.c')).rejects.toThrow('shared with bsky.app');
+
+      const urls = vi.mocked(fetch).mock.calls.map(([url]) => String(url));
+      expect(urls.some((url) => url.endsWith('refreshSession'))).toBe(false);
+      expect(fetch).toHaveBeenCalledWith(
+        'https://public.api.bsky.app/xrpc/app.bsky.actor.getProfile?actor=did%3Aprofile',
+        expect.objectContaining({ headers: {} })
+      );
+      expect(store.save).not.toHaveBeenCalled();
+    });
   });
 
   describe('sleep', () => {
@@ -497,6 +1288,13 @@ describe('API Module', () => {
       const elapsed = Date.now() - start;
       expect(elapsed).toBeGreaterThanOrEqual(40);
     });
+
+    it('should reject when the signal aborts', async () => {
+      const controller = new AbortController();
+      const sleeping = sleep(60_000, controller.signal);
+      controller.abort();
+      await expect(sleeping).rejects.toThrow();
+    });
   });
 
   describe('chunk', () => {
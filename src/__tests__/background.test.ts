@@ -3,7 +3,18 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 // Mock all dependencies before importing background.ts
 vi.mock('../api.js', () => ({
   getAllFollows: vi.fn(),
+  getAllFollowers: vi.fn(),
   getUserBlocks: vi.fn(),
+  getUserBlocksSince: vi.fn(),
+  getUserListBlocks: vi.fn().mockResolvedValue({ blocks: [], state: 'complete' }),
+  getListMembers: vi.fn(),
+  getRepo: vi.fn((uri: string) => uri.replace('at://', '').split('/')[0]),
+  getCachedPds: vi.fn(),
+  getDidDocumentUrl: vi.fn(),
+  resolvePdsOrDefault: vi.fn().mockResolvedValue('https://bsky.social'),
+  populatePdsCache: vi.fn(),
+  getPdsCacheEntries: vi.fn().mockReturnValue([]),
+  clearPdsCache: vi.fn(),
   getSession: vi.fn(),
   chunk: vi.fn((arr: unknown[], size: number) => {
     const result = [];
@@ -19,6 +30,9 @@ vi.mock('../api.js', () => ({
 vi.mock('../storage.js', () => ({
   getBlockCache: vi.fn(),
   saveBlockCache: vi.fn(),
+  saveFollowList: vi.fn(),
+  clearBlockCache: vi.fn(),
+  clearListBlockCache: vi.fn(),
   createEmptyCache: vi.fn(),
   getStoredAuth: vi.fn(),
   storeAuth: vi.fn(),
@@ -26,6 +40,45 @@ vi.mock('../storage.js', () => ({
   updateSyncStatus: vi.fn(),
   getSyncStatus: vi.fn(),
   updateUserBlockCache: vi.fn(),
+  getSettings: vi
+    .fn()
+    .mockResolvedValue({ displayMode: 'compact', realtimeEnabled: false, graphScope: 'follows' }),
+  getSyncCheckpoint: vi.fn().mockResolvedValue(null),
+  saveSyncCheckpoint: vi.fn(),
+  clearSyncCheckpoint: vi.fn(),
+  getPdsCache: vi.fn().mockResolvedValue([]),
+  savePdsCache: vi.fn(),
+  getSyncLedger: vi.fn(async () => ({})),
+  saveSyncLedger: vi.fn(),
+  getListBlockCache: vi.fn(async () => ({ subscriptions: {}, lists: {} })),
+  saveListBlockCache: vi.fn(),
+  saveGraphListingPage: vi.fn(),
+  getGraphListing: vi.fn().mockResolvedValue(null),
+  clearGraphListing: vi.fn(),
+  isBlockCacheSizeLimited: vi.fn().mockResolvedValue(false),
+  acquireSyncLease: vi.fn().mockResolvedValue(true),
+  renewSyncLease: vi.fn().mockResolvedValue(true),
+  releaseSyncLease: vi.fn(),
+  getSyncLease: vi.fn().mockResolvedValue(null),
+  getActiveAccount: vi.fn().mockResolvedValue(null),
+  setActiveAccount: vi.fn(),
+  getAccounts: vi.fn().mockResolvedValue([]),
+  getSyncCoverage: vi.fn().mockReturnValue({
+    totalFollows: 0,
+    checked: 0,
+    failed: 0,
+    pruned: 0,
+    unsynced: 0,
+  }),
+}));
+
+vi.mock('../jetstream.js', () => ({
+  startJetstream: vi.fn(),
+  stopJetstream: vi.fn(),
+}));
+
+vi.mock('../migrations.js', () => ({
+  runMigrations: vi.fn().mockResolvedValue(undefined),
 }));
 
 describe('Background Service Worker', () => {
@@ -40,6 +93,9 @@ describe('Background Service Worker', () => {
           set: vi.fn(),
           clear: vi.fn(),
         },
+        onChanged: {
+          addListener: vi.fn(),
+        },
       },
       alarms: {
         create: vi.fn(),
@@ -80,6 +136,75 @@ describe('Background Service Worker', () => {
       expect(chrome.alarms.onAlarm.addListener).toHaveBeenCalled();
     });
 
+    it('should migrate storage once, before resuming a sync or handling messages', async () => {
+      const { runMigrations } = await import('../migrations.js');
+      const { getSyncCheckpoint, getAccounts } = await import('../storage.js');
+      let finishMigrations = () => {};
+      vi.mocked(runMigrations).mockImplementationOnce(
+        () => new Promise<void>((resolve) => (finishMigrations = resolve))
+      );
+
+      await import('../background.js');
+      const onInstalled = vi.mocked(chrome.runtime.onInstalled.addListener).mock.calls[0][0];
+      const onStartup = vi.mocked(chrome.runtime.onStartup.addListener).mock.calls[0][0];
+      onInstalled({ reason: 'update' } as chrome.runtime.InstalledDetails);
+      onStartup();
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      const sendResponse = vi.fn();
+      messageListener({ type: 'GET_ACCOUNTS' }, {} as chrome.runtime.MessageSender, sendResponse);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(getSyncCheckpoint).not.toHaveBeenCalled();
+      expect(getAccounts).not.toHaveBeenCalled();
+
+      finishMigrations();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(runMigrations).toHaveBeenCalledTimes(1);
+      expect(getSyncCheckpoint).toHaveBeenCalled();
+      expect(sendResponse).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+      expect(chrome.runtime.onMessage.addListener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start real-time updates when enabled in settings', async () => {
+      const { getSettings, getBlockCache } = await import('../storage.js');
+      const { startJetstream } = await import('../jetstream.js');
+
+      vi.mocked(getSettings).mockResolvedValueOnce({
+        displayMode: 'compact',
+        realtimeEnabled: true,
+        jetstreamUrl: 'ws://localhost:6008/subscribe',
+      });
+      vi.mocked(getBlockCache).mockResolvedValueOnce({
+        followedUsers: [{ did: 'did:user1', handle: 'user1.bsky.social' }],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      });
+
+      await import('../background.js');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(startJetstream).toHaveBeenCalledWith('ws://localhost:6008/subscribe', ['did:user1']);
+    });
+
+    it('should refresh real-time updates when settings change', async () => {
+      const { getSettings } = await import('../storage.js');
+      const { stopJetstream } = await import('../jetstream.js');
+
+      await import('../background.js');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      vi.mocked(stopJetstream).mockClear();
+      vi.mocked(getSettings).mockClear();
+
+      const changeListener = vi.mocked(chrome.storage.onChanged.addListener).mock.calls[0][0];
+      changeListener({ settings: { newValue: { realtimeEnabled: false } } }, 'sync');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(getSettings).toHaveBeenCalled();
+      expect(stopJetstream).toHaveBeenCalled();
+    });
+
     it('should setup alarm on initialization', async () => {
       await import('../background.js');
 
@@ -97,15 +222,11 @@ describe('Background Service Worker', () => {
     });
 
     it('should handle SET_AUTH message', async () => {
-      const { storeAuth, getStoredAuth, getBlockCache } = await import('../storage.js');
+      const { storeAuth, getActiveAccount, setActiveAccount, getBlockCache } =
+        await import('../storage.js');
 
-      // Mock existing auth to match new auth (so sync is not triggered)
-      vi.mocked(getStoredAuth).mockResolvedValueOnce({
-        accessJwt: 'jwt-123',
-        did: 'did:user',
-        handle: 'user.bsky.social',
-        pdsUrl: 'https://pds.test.com',
-      });
+      // Already the active account (so there's no switch)
+      vi.mocked(getActiveAccount).mockResolvedValueOnce('did:user');
 
       // Mock cache with some follows (so sync is not triggered)
       vi.mocked(getBlockCache).mockResolvedValueOnce({
@@ -139,15 +260,15 @@ describe('Background Service Worker', () => {
       await new Promise((resolve) => setTimeout(resolve, 50));
 
       expect(storeAuth).toHaveBeenCalledWith(mockAuth);
+      expect(setActiveAccount).not.toHaveBeenCalled();
       expect(sendResponse).toHaveBeenCalledWith({ success: true });
     });
 
     it('should trigger sync on first auth', async () => {
-      const { storeAuth, getStoredAuth, getSyncStatus, getBlockCache } =
+      const { storeAuth, getStoredAuth, setActiveAccount, getSyncStatus, getBlockCache } =
         await import('../storage.js');
 
-      // No existing auth - should trigger sync
-      vi.mocked(getStoredAuth).mockResolvedValueOnce(null);
+      // No active account yet - the new one becomes active
       // Empty cache - should trigger sync
       vi.mocked(getBlockCache).mockResolvedValueOnce(null);
       vi.mocked(getSyncStatus).mockResolvedValue({
@@ -184,22 +305,146 @@ describe('Background Service Worker', () => {
       await new Promise((resolve) => setTimeout(resolve, 100));
 
       expect(storeAuth).toHaveBeenCalledWith(mockAuth);
+      expect(setActiveAccount).toHaveBeenCalledWith('did:newuser');
       expect(sendResponse).toHaveBeenCalledWith({ success: true });
     });
 
-    it('should handle GET_BLOCKING_INFO message', async () => {
-      const { lookupBlockingInfo, getBlockCache } = await import('../storage.js');
-      const { getUserBlocks } = await import('../api.js');
+    it("should switch to another account's cache without discarding it", async () => {
+      const { getActiveAccount, setActiveAccount, getBlockCache, saveBlockCache } =
+        await import('../storage.js');
+      const { getAllFollows } = await import('../api.js');
 
+      vi.mocked(getActiveAccount).mockResolvedValueOnce('did:personal');
+      // The work account's own cache, complete from an earlier sync
       vi.mocked(getBlockCache).mockResolvedValueOnce({
-        followedUsers: [],
+        followedUsers: [{ did: 'did:1', handle: 'user1.bsky.social' }],
         userBlockCaches: {},
-        lastFullSync: 0,
-        currentUserDid: 'did:me',
+        lastFullSync: Date.now(),
+        currentUserDid: 'did:work',
+      });
+
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      const sendResponse = vi.fn();
+      messageListener(
+        {
+          type: 'SET_AUTH',
+          auth: {
+            accessJwt: 'jwt-123',
+            did: 'did:work',
+            handle: 'work.bsky.social',
+            pdsUrl: 'https://pds.test.com',
+          },
+        },
+        {} as chrome.runtime.MessageSender,
+        sendResponse
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(setActiveAccount).toHaveBeenCalledWith('did:work');
+      expect(saveBlockCache).not.toHaveBeenCalled();
+      expect(getAllFollows).not.toHaveBeenCalled();
+      expect(sendResponse).toHaveBeenCalledWith({ success: true });
+    });
+
+    it('should list accounts and switch between them', async () => {
+      const { getAccounts, getActiveAccount, setActiveAccount } = await import('../storage.js');
+      const accounts = [
+        { did: 'did:personal', handle: 'me.bsky.social' },
+        { did: 'did:work', handle: 'me.work.example' },
+      ];
+      vi.mocked(getAccounts).mockResolvedValue(accounts);
+      vi.mocked(getActiveAccount).mockResolvedValue('did:personal');
+
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      const send = async (message: object) => {
+        const sendResponse = vi.fn();
+        messageListener(message, {} as chrome.runtime.MessageSender, sendResponse);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return sendResponse.mock.calls[0][0];
+      };
+
+      try {
+        expect(await send({ type: 'GET_ACCOUNTS' })).toEqual({
+          success: true,
+          accounts,
+          activeAccount: 'did:personal',
+        });
+        expect(await send({ type: 'SWITCH_ACCOUNT', accountDid: 'did:other' })).toEqual({
+          success: false,
+          error: 'Unknown account',
+        });
+        expect(setActiveAccount).not.toHaveBeenCalled();
+        expect(await send({ type: 'SWITCH_ACCOUNT', accountDid: 'did:work' })).toEqual({
+          success: true,
+        });
+        expect(setActiveAccount).toHaveBeenCalledWith('did:work');
+      } finally {
+        vi.mocked(getAccounts).mockResolvedValue([]);
+        vi.mocked(getActiveAccount).mockResolvedValue(null);
+      }
+    });
+
+    it('should trigger sync when some follows were never synced', async () => {
+      const { getActiveAccount, getBlockCache, getSyncCoverage, getSyncStatus } =
+        await import('../storage.js');
+
+      vi.mocked(getActiveAccount).mockResolvedValueOnce('did:user');
+      vi.mocked(getBlockCache).mockResolvedValueOnce({
+        followedUsers: [
+          { did: 'did:1', handle: 'user1.bsky.social' },
+          { did: 'did:2', handle: 'user2.bsky.social' },
+        ],
+        userBlockCaches: {},
+        lastFullSync: Date.now(),
+        currentUserDid: 'did:user',
+      });
+      vi.mocked(getSyncCoverage).mockReturnValueOnce({
+        totalFollows: 2,
+        checked: 1,
+        failed: 0,
+        pruned: 0,
+        unsynced: 1,
+      });
+      vi.mocked(getSyncStatus).mockResolvedValue({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
       });
 
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      messageListener(
+        {
+          type: 'SET_AUTH',
+          auth: {
+            accessJwt: 'jwt-123',
+            did: 'did:user',
+            handle: 'user.bsky.social',
+            pdsUrl: 'https://pds.test.com',
+          },
+        },
+        {} as chrome.runtime.MessageSender,
+        vi.fn()
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      // performFullSync starts by checking the sync lock
+      expect(getSyncStatus).toHaveBeenCalled();
+    });
+
+    it('should handle GET_BLOCKING_INFO message', async () => {
+      const { lookupBlockingInfo } = await import('../storage.js');
+      const { getUserBlocksSince } = await import('../api.js');
+
       // Profile blocks fetched on-demand
-      vi.mocked(getUserBlocks).mockResolvedValueOnce(['did:blocked1']);
+      vi.mocked(getUserBlocksSince).mockResolvedValueOnce({
+        blocks: ['did:blocked1'],
+        state: 'complete',
+      });
 
       vi.mocked(lookupBlockingInfo).mockResolvedValueOnce({
         blockedBy: [],
@@ -221,7 +466,7 @@ describe('Background Service Worker', () => {
       // Wait for async handler
       await new Promise((resolve) => setTimeout(resolve, 50));
 
-      expect(getUserBlocks).toHaveBeenCalledWith('did:profile');
+      expect(getUserBlocksSince).toHaveBeenCalledWith('did:profile');
       // New signature: lookupBlockingInfo(profileDid, profileBlocks)
       expect(lookupBlockingInfo).toHaveBeenCalledWith('did:profile', ['did:blocked1']);
       expect(sendResponse).toHaveBeenCalledWith({
@@ -230,6 +475,90 @@ describe('Background Service Worker', () => {
       });
     });
 
+    it("should include the viewer's own block relationship", async () => {
+      const { lookupBlockingInfo, getStoredAuth } = await import('../storage.js');
+      const { getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getStoredAuth).mockResolvedValue({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test',
+      });
+      vi.mocked(lookupBlockingInfo).mockImplementation(async () => ({
+        blockedBy: [],
+        blocking: [],
+      }));
+      const viewerResults = [
+        { blocks: ['did:other'], newestRkey: 'rkey1', state: 'complete' as const },
+        { blocks: ['did:profile'], newestRkey: 'rkey2', state: 'complete' as const },
+      ];
+      vi.mocked(getUserBlocksSince).mockImplementation(async (did) =>
+        did === 'did:profile' ? { blocks: ['did:me'], state: 'complete' } : viewerResults.shift()!
+      );
+
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      const lookUp = async () => {
+        const sendResponse = vi.fn();
+        messageListener(
+          { type: 'GET_BLOCKING_INFO', profileDid: 'did:profile' },
+          {} as chrome.runtime.MessageSender,
+          sendResponse
+        );
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return sendResponse.mock.calls[0][0].blockingInfo;
+      };
+
+      try {
+        expect(await lookUp()).toMatchObject({ blocksViewer: true, blockedByViewer: false });
+        expect(getUserBlocksSince).toHaveBeenLastCalledWith('did:me', undefined);
+
+        // Blocked since: only newer records are fetched
+        expect(await lookUp()).toMatchObject({ blocksViewer: true, blockedByViewer: true });
+        expect(getUserBlocksSince).toHaveBeenLastCalledWith('did:me', 'rkey1');
+      } finally {
+        vi.mocked(getStoredAuth).mockReset();
+        vi.mocked(getUserBlocksSince).mockReset();
+        vi.mocked(lookupBlockingInfo).mockReset();
+      }
+    });
+
+    it("should leave the viewer's blocks unknown when they can't be read", async () => {
+      const { lookupBlockingInfo, getStoredAuth } = await import('../storage.js');
+      const { getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test',
+      });
+      vi.mocked(lookupBlockingInfo).mockResolvedValueOnce({ blockedBy: [], blocking: [] });
+      // The profile's records stop partway through, without an error being thrown
+      vi.mocked(getUserBlocksSince)
+        .mockResolvedValueOnce({ blocks: [], state: 'partial' })
+        .mockResolvedValueOnce({ blocks: [], state: 'error' });
+
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      const sendResponse = vi.fn();
+      messageListener(
+        { type: 'GET_BLOCKING_INFO', profileDid: 'did:profile' },
+        {} as chrome.runtime.MessageSender,
+        sendResponse
+      );
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(sendResponse).toHaveBeenCalledWith({
+        success: true,
+        blockingInfo: {
+          blockedBy: [],
+          blocking: [],
+          blocksViewer: undefined,
+          blockedByViewer: undefined,
+        },
+      });
+    });
+
     it('should return error for GET_BLOCKING_INFO without profileDid', async () => {
       const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
       const sendResponse = vi.fn();
@@ -282,7 +611,42 @@ describe('Background Service Worker', () => {
       expect(sendResponse).toHaveBeenCalledWith({
         success: true,
         syncStatus: mockStatus,
+        coverage: expect.objectContaining({ totalFollows: 0 }),
+      });
+    });
+
+    it('should not report a sync whose lease has expired as running', async () => {
+      const { getSyncStatus, getSyncLease } = await import('../storage.js');
+
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 100,
+        syncedFollows: 50,
+        lastSync: 0,
+        isRunning: true,
+        lastUpdated: Date.now(),
+        errors: [],
+      });
+      vi.mocked(getSyncLease).mockResolvedValueOnce({
+        owner: 'old-worker:1',
+        expiresAt: Date.now() - 1000,
       });
+
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      const sendResponse = vi.fn();
+
+      messageListener(
+        {
+          type: 'GET_SYNC_STATUS',
+        },
+        {} as chrome.runtime.MessageSender,
+        sendResponse
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(sendResponse).toHaveBeenCalledWith(
+        expect.objectContaining({ syncStatus: expect.objectContaining({ isRunning: false }) })
+      );
     });
 
     it('should handle TRIGGER_SYNC message asynchronously', async () => {
@@ -350,17 +714,71 @@ describe('Background Service Worker', () => {
   });
 
   describe('Sync functionality', () => {
-    it('should skip sync if already running', async () => {
-      const { getSyncStatus } = await import('../storage.js');
+    it('should refuse to sync while another sync holds the lease', async () => {
+      const { acquireSyncLease, getStoredAuth } = await import('../storage.js');
+
+      vi.mocked(acquireSyncLease).mockResolvedValueOnce(false);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+
+      const sendResponse = vi.fn();
+      messageListener(
+        {
+          type: 'TRIGGER_SYNC',
+        },
+        {} as chrome.runtime.MessageSender,
+        sendResponse
+      );
+
+      // Wait for async operation
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(sendResponse).toHaveBeenCalledWith({
+        success: false,
+        error: 'A sync is already running',
+        alreadyRunning: true,
+      });
+      expect(getStoredAuth).not.toHaveBeenCalled();
+    });
+
+    it('should stop without saving once its lease is lost', async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        createEmptyCache,
+        saveBlockCache,
+        updateSyncStatus,
+        renewSyncLease,
+        releaseSyncLease,
+      } = await import('../storage.js');
+      const { getAllFollows } = await import('../api.js');
 
       vi.mocked(getSyncStatus).mockResolvedValueOnce({
-        totalFollows: 100,
-        syncedFollows: 50,
-        lastSync: Date.now(),
-        isRunning: true,
-        lastUpdated: Date.now(), // Recent update - not stale
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
         errors: [],
       });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+      ]);
+      vi.mocked(createEmptyCache).mockReturnValueOnce({
+        followedUsers: [],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      });
+      // Revoked (e.g. by CLEAR_CACHE) while the follows were being listed
+      vi.mocked(renewSyncLease).mockResolvedValueOnce(false);
 
       await import('../background.js');
       const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
@@ -374,8 +792,13 @@ describe('Background Service Worker', () => {
         sendResponse
       );
 
-      // Wait for async operation
       await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(saveBlockCache).not.toHaveBeenCalled();
+      expect(updateSyncStatus).not.toHaveBeenCalledWith(
+        expect.objectContaining({ isRunning: false })
+      );
+      expect(releaseSyncLease).toHaveBeenCalled();
     });
 
     it('should skip sync if no auth available', async () => {
@@ -408,9 +831,15 @@ describe('Background Service Worker', () => {
     });
 
     it('should handle sync with follows', async () => {
-      const { getSyncStatus, getStoredAuth, createEmptyCache, saveBlockCache, updateSyncStatus } =
-        await import('../storage.js');
-      const { getAllFollows, getUserBlocks } = await import('../api.js');
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        createEmptyCache,
+        saveBlockCache,
+        updateSyncStatus,
+        clearListBlockCache,
+      } = await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
 
       const mockAuth = {
         accessJwt: 'jwt',
@@ -444,7 +873,7 @@ describe('Background Service Worker', () => {
       };
 
       vi.mocked(createEmptyCache).mockReturnValueOnce(mockCache);
-      vi.mocked(getUserBlocks).mockResolvedValue([]);
+      vi.mocked(getUserBlocksSince).mockResolvedValue({ blocks: [], state: 'complete' });
       vi.mocked(saveBlockCache).mockResolvedValueOnce(undefined);
       vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
 
@@ -462,14 +891,22 @@ describe('Background Service Worker', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 200));
 
-      expect(getAllFollows).toHaveBeenCalledWith('did:me');
+      expect(getAllFollows).toHaveBeenCalledWith('did:me', expect.any(Object));
       expect(saveBlockCache).toHaveBeenCalled();
+      // A new cache starts without list blocks left from before
+      expect(clearListBlockCache).toHaveBeenCalled();
     });
 
     it('should use existing cache if currentUserDid matches', async () => {
-      const { getSyncStatus, getStoredAuth, getBlockCache, saveBlockCache, updateSyncStatus } =
-        await import('../storage.js');
-      const { getAllFollows, getUserBlocks } = await import('../api.js');
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        getBlockCache,
+        saveBlockCache,
+        updateSyncStatus,
+        clearListBlockCache,
+      } = await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
 
       const mockAuth = {
         accessJwt: 'jwt',
@@ -495,7 +932,7 @@ describe('Background Service Worker', () => {
         currentUserDid: 'did:me',
       });
       vi.mocked(getAllFollows).mockResolvedValueOnce([{ did: 'did:user1', handle: 'user1.bsky.social' }]);
-      vi.mocked(getUserBlocks).mockResolvedValue([]);
+      vi.mocked(getUserBlocksSince).mockResolvedValue({ blocks: [], state: 'complete' });
       vi.mocked(saveBlockCache).mockResolvedValue(undefined);
       vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
 
@@ -508,12 +945,13 @@ describe('Background Service Worker', () => {
       await new Promise((resolve) => setTimeout(resolve, 200));
 
       expect(saveBlockCache).toHaveBeenCalled();
+      expect(clearListBlockCache).not.toHaveBeenCalled();
     });
 
-    it('should handle getUserBlocks errors during sync', async () => {
+    it('should handle getUserBlocksSince errors during sync', async () => {
       const { getSyncStatus, getStoredAuth, createEmptyCache, saveBlockCache, updateSyncStatus } =
         await import('../storage.js');
-      const { getAllFollows, getUserBlocks } = await import('../api.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
 
       vi.mocked(getSyncStatus).mockResolvedValueOnce({
         totalFollows: 0,
@@ -542,7 +980,7 @@ describe('Background Service Worker', () => {
         currentUserDid: 'did:me',
       });
 
-      vi.mocked(getUserBlocks).mockRejectedValueOnce(new Error('Block fetch failed'));
+      vi.mocked(getUserBlocksSince).mockRejectedValueOnce(new Error('Block fetch failed'));
       vi.mocked(saveBlockCache).mockResolvedValue(undefined);
       vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
 
@@ -557,10 +995,10 @@ describe('Background Service Worker', () => {
       expect(saveBlockCache).toHaveBeenCalled();
     });
 
-    it('should handle non-array getUserBlocks response', async () => {
+    it('should handle non-array getUserBlocksSince response', async () => {
       const { getSyncStatus, getStoredAuth, createEmptyCache, saveBlockCache, updateSyncStatus } =
         await import('../storage.js');
-      const { getAllFollows, getUserBlocks } = await import('../api.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
 
       vi.mocked(getSyncStatus).mockResolvedValueOnce({
         totalFollows: 0,
@@ -589,7 +1027,10 @@ describe('Background Service Worker', () => {
         currentUserDid: 'did:me',
       });
 
-      vi.mocked(getUserBlocks).mockResolvedValueOnce(null as unknown as string[]);
+      vi.mocked(getUserBlocksSince).mockResolvedValueOnce({
+        blocks: null as unknown as string[],
+        state: 'complete',
+      });
       vi.mocked(saveBlockCache).mockResolvedValue(undefined);
       vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
 
@@ -604,29 +1045,1509 @@ describe('Background Service Worker', () => {
       expect(saveBlockCache).toHaveBeenCalled();
     });
 
-    it('should handle FETCH_PROFILE_BLOCKS message', async () => {
-      const { getUserBlocks } = await import('../api.js');
-
-      vi.mocked(getUserBlocks).mockResolvedValueOnce(['did:blocked1', 'did:blocked2']);
-
-      await import('../background.js');
-      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
-
-      const sendResponse = vi.fn();
-      messageListener(
-        { type: 'FETCH_PROFILE_BLOCKS', profileDid: 'did:profile' },
-        {} as chrome.runtime.MessageSender,
-        sendResponse
-      );
-
-      await new Promise((resolve) => setTimeout(resolve, 50));
-
-      expect(getUserBlocks).toHaveBeenCalledWith('did:profile');
-      expect(sendResponse).toHaveBeenCalledWith({
-        success: true,
-        blocks: ['did:blocked1', 'did:blocked2'],
-      });
-    });
+    it('should record follows whose block lists could not be read', async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        createEmptyCache,
+        saveBlockCache,
+        saveFollowList,
+        saveSyncLedger,
+        updateSyncStatus,
+      } = await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+        { did: 'did:user2', handle: 'user2.bsky.social' },
+      ]);
+      const cache = {
+        followedUsers: [],
+        userBlockCaches: {} as Record<string, unknown>,
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      };
+      vi.mocked(createEmptyCache).mockReturnValueOnce(cache as never);
+      vi.mocked(getUserBlocksSince).mockImplementation(async (did) =>
+        did === 'did:user1'
+          ? { blocks: [], state: 'deactivated', httpStatus: 400 }
+          : { blocks: [], state: 'complete', httpStatus: 200 }
+      );
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, vi.fn());
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(cache.userBlockCaches['did:user1']).toEqual(
+        expect.objectContaining({ blocks: [], fetchState: 'deactivated', httpStatus: 400 })
+      );
+      // Users with no blocks and a clean fetch still take no space
+      expect(cache.userBlockCaches['did:user2']).toBeUndefined();
+      // The follow list is saved once listed, then only the block lists fetched since
+      expect(saveFollowList).toHaveBeenCalledWith(cache, []);
+      expect(saveBlockCache).toHaveBeenCalledTimes(1);
+      expect(saveBlockCache).toHaveBeenCalledWith(cache, ['did:user1', 'did:user2']);
+      // ...but the ledger still records that they were checked
+      expect(saveSyncLedger).toHaveBeenCalledWith(
+        {
+          'did:user1': { lastSynced: expect.any(Number), state: 'deactivated', blockCount: 0 },
+          'did:user2': {
+            lastSynced: expect.any(Number),
+            state: 'complete',
+            blockCount: 0,
+            listBlocksSynced: expect.any(Number),
+          },
+        },
+        ['did:user1', 'did:user2']
+      );
+
+      vi.mocked(getUserBlocksSince).mockReset();
+    });
+
+    it('should record structured errors and schedule retries for retryable ones', async () => {
+      const { getSyncStatus, getStoredAuth, createEmptyCache, saveBlockCache, updateSyncStatus } =
+        await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+        { did: 'did:user2', handle: 'user2.bsky.social' },
+      ]);
+      vi.mocked(createEmptyCache).mockReturnValueOnce({
+        followedUsers: [],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      });
+      vi.mocked(getUserBlocksSince).mockImplementation(async (did) =>
+        did === 'did:user1'
+          ? { blocks: [], state: 'error', httpStatus: 503 }
+          : { blocks: [], state: 'not-found', httpStatus: 404 }
+      );
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, vi.fn());
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(updateSyncStatus).toHaveBeenCalledWith(
+        expect.objectContaining({
+          isRunning: false,
+          errors: [
+            expect.objectContaining({
+              did: 'did:user1',
+              handle: 'user1.bsky.social',
+              kind: 'error',
+              httpStatus: 503,
+              retryable: true,
+              attempts: 1,
+              nextRetryAt: expect.any(Number),
+            }),
+            expect.objectContaining({
+              did: 'did:user2',
+              kind: 'not-found',
+              retryable: false,
+              nextRetryAt: undefined,
+            }),
+          ],
+        })
+      );
+      expect(chrome.alarms.create).toHaveBeenCalledWith('retryFailedSyncs', {
+        when: expect.any(Number),
+      });
+
+      vi.mocked(getUserBlocksSince).mockReset();
+    });
+
+    it('should not keep the marker of a first fetch that failed partway', async () => {
+      const { getSyncStatus, getStoredAuth, createEmptyCache, saveBlockCache, updateSyncStatus } =
+        await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+      ]);
+      const cache = {
+        followedUsers: [],
+        userBlockCaches: {} as Record<string, unknown>,
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      };
+      vi.mocked(createEmptyCache).mockReturnValueOnce(cache as never);
+      vi.mocked(getUserBlocksSince).mockResolvedValueOnce({
+        blocks: ['did:blocked2'],
+        newestRkey: '3kaaaaaaaaaa2',
+        state: 'partial',
+        httpStatus: 500,
+      });
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, vi.fn());
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      // Its blocks are kept, but the next fetch reads the whole list again
+      expect(cache.userBlockCaches['did:user1']).toEqual(
+        expect.objectContaining({
+          blocks: ['did:blocked2'],
+          newestRkey: undefined,
+          fetchState: 'partial',
+        })
+      );
+    });
+
+    it('should retry due failures when the retry alarm fires', async () => {
+      const {
+        getSyncStatus,
+        getBlockCache,
+        saveBlockCache,
+        updateSyncStatus,
+        saveListBlockCache,
+        savePdsCache,
+      } = await import('../storage.js');
+      const { getUserBlocksSince, getUserListBlocks, getListMembers } = await import('../api.js');
+      const listUri = 'at://did:owner/app.bsky.graph.list/3kspam';
+
+      const failure = {
+        did: 'did:user1',
+        handle: 'user1.bsky.social',
+        kind: 'partial' as const,
+        message: 'Only part of the block list could be read',
+        retryable: true,
+        attempts: 1,
+        timestamp: Date.now() - 5 * 60 * 1000,
+        nextRetryAt: Date.now() - 1000,
+      };
+      const notDue = { ...failure, did: 'did:user2', nextRetryAt: Date.now() + 60 * 60 * 1000 };
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 2,
+        syncedFollows: 2,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [failure, notDue],
+      });
+      const cache = {
+        followedUsers: [
+          { did: 'did:user1', handle: 'user1.bsky.social' },
+          { did: 'did:user2', handle: 'user2.bsky.social' },
+        ],
+        userBlockCaches: {
+          'did:user1': {
+            did: 'did:user1',
+            handle: 'user1.bsky.social',
+            blocks: ['did:blocked1'],
+            lastSynced: 0,
+            // A first fetch that failed partway leaves no marker
+            fetchState: 'partial' as const,
+          },
+        },
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      };
+      vi.mocked(getBlockCache).mockResolvedValueOnce(cache);
+      vi.mocked(getUserBlocksSince).mockResolvedValueOnce({
+        blocks: ['did:blocked2', 'did:blocked1'],
+        newestRkey: '3kaaaaaaaaaa2',
+        state: 'complete',
+        httpStatus: 200,
+      });
+      vi.mocked(getUserListBlocks).mockResolvedValueOnce({ blocks: [listUri], state: 'complete' });
+      vi.mocked(getListMembers).mockResolvedValueOnce(
+        new Map([[listUri, { members: ['did:spammer'], state: 'complete' }]])
+      );
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      const alarmListener = vi.mocked(chrome.alarms.onAlarm.addListener).mock.calls[0][0];
+      alarmListener({ name: 'retryFailedSyncs', scheduledTime: Date.now() });
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(getUserBlocksSince).toHaveBeenCalledTimes(1);
+      // So the retry reads the whole list
+      expect(getUserBlocksSince).toHaveBeenCalledWith(
+        'did:user1',
+        undefined,
+        'https://bsky.social',
+        expect.any(AbortSignal)
+      );
+      expect(cache.userBlockCaches['did:user1']).toEqual(
+        expect.objectContaining({
+          blocks: ['did:blocked2', 'did:blocked1'],
+          newestRkey: '3kaaaaaaaaaa2',
+          fetchState: undefined,
+        })
+      );
+      // The retried follow's list blocks are read too
+      expect(saveListBlockCache).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subscriptions: { 'did:user1': [listUri] },
+          lists: { [listUri]: expect.objectContaining({ members: ['did:spammer'] }) },
+        }),
+        [listUri],
+        ['did:user1']
+      );
+      // PDSes resolved for the retries are kept, as after a sync
+      expect(savePdsCache).toHaveBeenCalled();
+      expect(updateSyncStatus).toHaveBeenCalledWith({ errors: [notDue] });
+      expect(chrome.alarms.create).toHaveBeenCalledWith('retryFailedSyncs', {
+        when: notDue.nextRetryAt,
+      });
+    });
+
+    it('should try the retries again later while another sync holds the lease', async () => {
+      const { acquireSyncLease, getSyncStatus } = await import('../storage.js');
+      vi.mocked(acquireSyncLease).mockResolvedValueOnce(false);
+
+      await import('../background.js');
+      const alarmListener = vi.mocked(chrome.alarms.onAlarm.addListener).mock.calls[0][0];
+      alarmListener({ name: 'retryFailedSyncs', scheduledTime: Date.now() });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(getSyncStatus).not.toHaveBeenCalled();
+      expect(chrome.alarms.create).toHaveBeenCalledWith('retryFailedSyncs', {
+        when: expect.any(Number),
+      });
+    });
+
+    it('should only fetch new block records between full reconciles', async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        getBlockCache,
+        saveBlockCache,
+        updateSyncStatus,
+        getSyncLedger,
+      } = await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince, getUserListBlocks } = await import('../api.js');
+
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+
+      const cache = {
+        followedUsers: [{ did: 'did:user1', handle: 'user1.bsky.social' }],
+        userBlockCaches: {
+          'did:user1': {
+            did: 'did:user1',
+            handle: 'user1.bsky.social',
+            blocks: ['did:old'],
+            lastSynced: 0,
+            newestRkey: '3kaaaaaaaaaaa',
+          },
+        },
+        lastFullSync: Date.now(),
+        lastFullReconcile: Date.now(),
+        currentUserDid: 'did:me',
+      };
+      vi.mocked(getBlockCache).mockResolvedValueOnce(cache);
+      vi.mocked(getSyncLedger).mockResolvedValueOnce({
+        'did:user1': {
+          lastSynced: 0,
+          state: 'complete',
+          blockCount: 1,
+          listBlocksSynced: Date.now() - 60 * 60 * 1000,
+        },
+      });
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+      ]);
+      vi.mocked(getUserBlocksSince).mockResolvedValueOnce({
+        blocks: ['did:new', 'did:old'],
+        newestRkey: '3kbbbbbbbbbbb',
+        state: 'complete',
+      });
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, vi.fn());
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(getUserBlocksSince).toHaveBeenCalledWith(
+        'did:user1',
+        '3kaaaaaaaaaaa',
+        'https://bsky.social',
+        expect.any(AbortSignal)
+      );
+      expect(cache.userBlockCaches['did:user1'].blocks).toEqual(['did:new', 'did:old']);
+      expect(cache.userBlockCaches['did:user1'].newestRkey).toBe('3kbbbbbbbbbbb');
+      // List blocks already read wait for the next full reconcile
+      expect(getUserListBlocks).not.toHaveBeenCalled();
+    });
+
+    it('should refetch full block lists when a reconcile is due', async () => {
+      const { getSyncStatus, getStoredAuth, getBlockCache, saveBlockCache, updateSyncStatus } =
+        await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+
+      const cache = {
+        followedUsers: [{ did: 'did:user1', handle: 'user1.bsky.social' }],
+        userBlockCaches: {
+          'did:user1': {
+            did: 'did:user1',
+            handle: 'user1.bsky.social',
+            blocks: ['did:unblocked'],
+            lastSynced: 0,
+            newestRkey: '3kaaaaaaaaaaa',
+          },
+        } as Record<string, { blocks: string[]; newestRkey?: string }>,
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      };
+      vi.mocked(getBlockCache).mockResolvedValueOnce(cache as never);
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+      ]);
+      vi.mocked(getUserBlocksSince).mockResolvedValueOnce({ blocks: [], state: 'complete' });
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, vi.fn());
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(getUserBlocksSince).toHaveBeenCalledWith(
+        'did:user1',
+        undefined,
+        'https://bsky.social',
+        expect.any(AbortSignal)
+      );
+      // Deleted blocks are dropped by the reconcile
+      expect(cache.userBlockCaches['did:user1']).toBeUndefined();
+      expect((cache as { lastFullReconcile?: number }).lastFullReconcile).toBeGreaterThan(0);
+    });
+
+    it('should checkpoint follow pages while listing follows', async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        createEmptyCache,
+        saveBlockCache,
+        updateSyncStatus,
+        saveSyncCheckpoint,
+        clearSyncCheckpoint,
+        saveGraphListingPage,
+      } = await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      vi.mocked(createEmptyCache).mockReturnValueOnce({
+        followedUsers: [],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      });
+      vi.mocked(getAllFollows).mockImplementationOnce(async (_did, options) => {
+        const page = [{ did: 'did:user1', handle: 'user1.bsky.social' }];
+        await options?.onPage?.(page, 'cursor-2');
+        return [...page, { did: 'did:user2', handle: 'user2.bsky.social' }];
+      });
+      vi.mocked(getUserBlocksSince).mockResolvedValue({ blocks: [], state: 'complete' });
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, vi.fn());
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      // Pages go to the block store, the checkpoint only counts them
+      expect(saveGraphListingPage).toHaveBeenCalledWith('follows', 0, [
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+      ]);
+      expect(saveGraphListingPage).toHaveBeenCalledWith('follows', 1, [
+        { did: 'did:user2', handle: 'user2.bsky.social' },
+      ]);
+      expect(saveSyncCheckpoint).toHaveBeenCalledWith(
+        expect.objectContaining({ userDid: 'did:me', followsCursor: 'cursor-2', followsListed: 1 })
+      );
+      expect(saveSyncCheckpoint).not.toHaveBeenCalledWith(
+        expect.objectContaining({ follows: expect.anything() })
+      );
+      // Only the fetched accounts are taken off the pending list
+      expect(saveSyncCheckpoint).toHaveBeenCalledWith(
+        expect.objectContaining({ lastCompletedChunk: 0, pendingDids: [] }),
+        ['did:user1', 'did:user2']
+      );
+      expect(clearSyncCheckpoint).toHaveBeenCalled();
+    });
+
+    it('should index follows and followers by relationship in the union scope', async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        getSettings,
+        createEmptyCache,
+        saveBlockCache,
+        updateSyncStatus,
+      } = await import('../storage.js');
+      const { getAllFollows, getAllFollowers, getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getSettings).mockResolvedValue({
+        displayMode: 'compact',
+        realtimeEnabled: false,
+        jetstreamUrl: 'wss://jetstream.test/subscribe',
+        graphScope: 'union',
+      });
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      const cache = {
+        followedUsers: [],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      };
+      vi.mocked(createEmptyCache).mockReturnValueOnce(cache);
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:friend', handle: 'friend.bsky.social' },
+        { did: 'did:idol', handle: 'idol.bsky.social' },
+      ]);
+      vi.mocked(getAllFollowers).mockResolvedValueOnce([
+        { did: 'did:fan', handle: 'fan.bsky.social' },
+        { did: 'did:friend', handle: 'friend.bsky.social' },
+      ]);
+      vi.mocked(getUserBlocksSince).mockResolvedValue({ blocks: [], state: 'complete' });
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      try {
+        await import('../background.js');
+        const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+        messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, vi.fn());
+
+        await new Promise((resolve) => setTimeout(resolve, 200));
+
+        expect(getAllFollowers).toHaveBeenCalledWith('did:me', expect.anything());
+        expect(cache.followedUsers).toEqual([
+          { did: 'did:friend', handle: 'friend.bsky.social', relation: 'mutual' },
+          { did: 'did:idol', handle: 'idol.bsky.social', relation: 'follow' },
+          { did: 'did:fan', handle: 'fan.bsky.social', relation: 'follower' },
+        ]);
+        expect((cache as { graphScope?: string }).graphScope).toBe('union');
+        expect(getUserBlocksSince).toHaveBeenCalledTimes(3);
+      } finally {
+        vi.mocked(getSettings).mockResolvedValue({
+          displayMode: 'compact',
+          realtimeEnabled: false,
+          graphScope: 'follows',
+        });
+      }
+    });
+
+    it("should sync follows' list blocks and the members of those lists", async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        createEmptyCache,
+        saveBlockCache,
+        updateSyncStatus,
+        saveListBlockCache,
+        saveSyncLedger,
+      } = await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince, getUserListBlocks, getListMembers } =
+        await import('../api.js');
+      const listUri = 'at://did:owner/app.bsky.graph.list/3kspam';
+      const otherListUri = 'at://did:owner/app.bsky.graph.list/3ktrolls';
+
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      vi.mocked(createEmptyCache).mockReturnValueOnce({
+        followedUsers: [],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      });
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+      ]);
+      vi.mocked(getUserBlocksSince).mockResolvedValue({ blocks: [], state: 'complete' });
+      vi.mocked(getUserListBlocks).mockResolvedValueOnce({
+        blocks: [listUri, otherListUri],
+        state: 'complete',
+      });
+      vi.mocked(getListMembers).mockResolvedValueOnce(
+        new Map([
+          [listUri, { name: 'Spam', members: ['did:spammer'], state: 'complete' }],
+          [otherListUri, { members: ['did:troll'], state: 'partial' }],
+        ])
+      );
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, vi.fn());
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(getUserListBlocks).toHaveBeenCalledWith(
+        'did:user1',
+        'https://bsky.social',
+        expect.any(AbortSignal)
+      );
+      // Both lists come from one read of their owner's list items
+      expect(getListMembers).toHaveBeenCalledTimes(1);
+      expect(getListMembers).toHaveBeenCalledWith(
+        'did:owner',
+        [listUri, otherListUri],
+        'https://bsky.social',
+        expect.any(AbortSignal)
+      );
+      expect(vi.mocked(saveListBlockCache).mock.lastCall).toEqual([
+        {
+          subscriptions: { 'did:user1': [listUri, otherListUri] },
+          lists: {
+            [listUri]: {
+              uri: listUri,
+              name: 'Spam',
+              members: ['did:spammer'],
+              lastSynced: expect.any(Number),
+              fetchState: undefined,
+            },
+            [otherListUri]: {
+              uri: otherListUri,
+              name: undefined,
+              members: ['did:troll'],
+              lastSynced: expect.any(Number),
+              fetchState: 'partial',
+            },
+          },
+        },
+        [listUri, otherListUri],
+        [],
+      ]);
+      // Who subscribes to which lists is saved with the follow's ledger entry
+      expect(saveSyncLedger).toHaveBeenCalledWith(expect.any(Object), ['did:user1']);
+      expect(saveListBlockCache).toHaveBeenCalledWith(expect.any(Object), [], ['did:user1']);
+    });
+
+    it("should finish the sync when list members don't fit the storage quota", async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        createEmptyCache,
+        saveBlockCache,
+        updateSyncStatus,
+        saveListBlockCache,
+        clearSyncCheckpoint,
+      } = await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince, getUserListBlocks, getListMembers } =
+        await import('../api.js');
+      const listUri = 'at://did:owner/app.bsky.graph.list/3kspam';
+      const otherListUri = 'at://did:owner/app.bsky.graph.list/3ktrolls';
+
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      vi.mocked(createEmptyCache).mockReturnValueOnce({
+        followedUsers: [],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      });
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+      ]);
+      vi.mocked(getUserBlocksSince).mockResolvedValue({ blocks: [], state: 'complete' });
+      vi.mocked(getUserListBlocks).mockResolvedValueOnce({
+        blocks: [listUri, otherListUri],
+        state: 'complete',
+      });
+      vi.mocked(getListMembers).mockResolvedValueOnce(
+        new Map([
+          [listUri, { name: 'Spam', members: ['did:spammer'], state: 'complete' }],
+          [otherListUri, { members: ['did:troll'], state: 'partial' }],
+        ])
+      );
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(saveListBlockCache).mockImplementation(async (cache) => {
+        if (Object.keys(cache.lists).length > 0) throw new Error('QUOTA_BYTES quota exceeded');
+      });
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, vi.fn());
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      try {
+        // Subscriptions are kept so the lists are fetched again next time
+        expect(saveListBlockCache).toHaveBeenLastCalledWith({
+          subscriptions: { 'did:user1': [listUri, otherListUri] },
+          lists: {},
+        });
+        expect(clearSyncCheckpoint).toHaveBeenCalled();
+      } finally {
+        vi.mocked(saveListBlockCache).mockReset();
+      }
+    });
+
+    it('should resume an interrupted sync on startup', async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        getBlockCache,
+        saveBlockCache,
+        updateSyncStatus,
+        getSyncCheckpoint,
+        clearSyncCheckpoint,
+        acquireSyncLease,
+      } = await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getSyncCheckpoint).mockResolvedValue({
+        userDid: 'did:me',
+        startedAt: Date.now() - 60000,
+        isFullReconcile: true,
+        lastCompletedChunk: 0,
+        pendingDids: ['did:user2'],
+      });
+      // Lease left behind by the terminated worker, which is taken over
+      vi.mocked(acquireSyncLease).mockImplementationOnce(async (_owner, _duration, takeOver) =>
+        Boolean(takeOver?.({ owner: 'old-worker:1', expiresAt: Date.now() + 60000 }))
+      );
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 2,
+        syncedFollows: 1,
+        lastSync: 0,
+        isRunning: true,
+        lastUpdated: Date.now(),
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      vi.mocked(getBlockCache).mockResolvedValueOnce({
+        followedUsers: [
+          { did: 'did:user1', handle: 'user1.bsky.social' },
+          { did: 'did:user2', handle: 'user2.bsky.social' },
+        ],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      });
+      vi.mocked(getUserBlocksSince).mockResolvedValue({ blocks: [], state: 'complete' });
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(getAllFollows).not.toHaveBeenCalled();
+      expect(getUserBlocksSince).toHaveBeenCalledTimes(1);
+      expect(getUserBlocksSince).toHaveBeenCalledWith(
+        'did:user2',
+        undefined,
+        'https://bsky.social',
+        expect.any(AbortSignal)
+      );
+      expect(updateSyncStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ isRunning: false, syncedFollows: 2, totalFollows: 2 })
+      );
+      expect(clearSyncCheckpoint).toHaveBeenCalled();
+
+      vi.mocked(getSyncCheckpoint).mockResolvedValue(null);
+    });
+
+    it('should fetch one slice of block lists per wake-up', async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        createEmptyCache,
+        saveBlockCache,
+        updateSyncStatus,
+        saveSyncCheckpoint,
+        clearSyncCheckpoint,
+      } = await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
+
+      const follows = Array.from({ length: 600 }, (_, i) => ({
+        did: `did:user${i}`,
+        handle: `user${i}.bsky.social`,
+      }));
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      vi.mocked(getAllFollows).mockResolvedValueOnce(follows);
+      vi.mocked(createEmptyCache).mockReturnValueOnce({
+        followedUsers: [],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      });
+      vi.mocked(getUserBlocksSince).mockResolvedValue({ blocks: [], state: 'complete' });
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, vi.fn());
+
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      expect(getUserBlocksSince).toHaveBeenCalledTimes(500);
+      expect(saveSyncCheckpoint).toHaveBeenLastCalledWith(
+        expect.objectContaining({ pendingDids: follows.slice(500).map((f) => f.did) }),
+        expect.any(Array)
+      );
+      expect(chrome.alarms.create).toHaveBeenCalledWith('syncSlice', {
+        when: expect.any(Number),
+      });
+      expect(clearSyncCheckpoint).not.toHaveBeenCalled();
+      expect(updateSyncStatus).not.toHaveBeenCalledWith(
+        expect.objectContaining({ isRunning: false })
+      );
+    });
+
+    it('should continue an unfinished sync when the slice alarm fires', async () => {
+      const { getSyncCheckpoint, getStoredAuth } = await import('../storage.js');
+
+      await import('../background.js');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      vi.mocked(getStoredAuth).mockClear();
+
+      const alarmListener = vi.mocked(chrome.alarms.onAlarm.addListener).mock.calls[0][0];
+      // Finished before the alarm fired: nothing to continue
+      alarmListener({ name: 'syncSlice', scheduledTime: Date.now() });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(getStoredAuth).not.toHaveBeenCalled();
+
+      vi.mocked(getSyncCheckpoint).mockResolvedValueOnce({
+        userDid: 'did:me',
+        startedAt: Date.now(),
+        isFullReconcile: false,
+        lastCompletedChunk: 4,
+        pendingDids: ['did:user2'],
+      });
+      alarmListener({ name: 'syncSlice', scheduledTime: Date.now() });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(getStoredAuth).toHaveBeenCalled();
+    });
+
+    it('should leave retries to a sync that is between slices', async () => {
+      const { getSyncCheckpoint, getSyncStatus } = await import('../storage.js');
+
+      await import('../background.js');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      vi.mocked(getSyncCheckpoint).mockResolvedValueOnce({
+        userDid: 'did:me',
+        startedAt: Date.now(),
+        isFullReconcile: false,
+        lastCompletedChunk: 4,
+        pendingDids: ['did:user2'],
+      });
+      const alarmListener = vi.mocked(chrome.alarms.onAlarm.addListener).mock.calls[0][0];
+      alarmListener({ name: 'retryFailedSyncs', scheduledTime: Date.now() });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(getSyncStatus).not.toHaveBeenCalled();
+    });
+
+    it('should fetch new follows first and drop unfollowed users', async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        getBlockCache,
+        saveBlockCache,
+        saveFollowList,
+        updateSyncStatus,
+      } = await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 2,
+        syncedFollows: 2,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      const cache = {
+        followedUsers: [
+          { did: 'did:user1', handle: 'user1.bsky.social' },
+          { did: 'did:user2', handle: 'user2.bsky.social' },
+        ],
+        userBlockCaches: {
+          'did:user2': {
+            did: 'did:user2',
+            handle: 'user2.bsky.social',
+            blocks: ['did:blocked1'],
+            lastSynced: 0,
+          },
+        },
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      };
+      vi.mocked(getBlockCache).mockResolvedValueOnce(cache);
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+        { did: 'did:user3', handle: 'user3.bsky.social' },
+      ]);
+      vi.mocked(getUserBlocksSince).mockResolvedValue({ blocks: [], state: 'complete' });
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, vi.fn());
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(vi.mocked(getUserBlocksSince).mock.calls.map((call) => call[0])).toEqual([
+        'did:user3',
+        'did:user1',
+      ]);
+      // The unfollowed user's block list is deleted with the new follow list
+      expect(saveFollowList).toHaveBeenCalledWith(cache, ['did:user2']);
+      expect(cache.userBlockCaches).not.toHaveProperty('did:user2');
+      expect(updateSyncStatus).toHaveBeenCalledWith({
+        followDiff: { added: ['did:user3'], removed: ['did:user2'] },
+      });
+    });
+
+    it('should not report a change of graph scope as follows added and removed', async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        getBlockCache,
+        getSettings,
+        saveBlockCache,
+        saveFollowList,
+        updateSyncStatus,
+      } = await import('../storage.js');
+      const { getAllFollowers, getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getSettings).mockResolvedValue({
+        displayMode: 'compact',
+        realtimeEnabled: false,
+        graphScope: 'followers',
+      });
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 2,
+        syncedFollows: 2,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      // Listed for follows
+      const cache = {
+        followedUsers: [
+          { did: 'did:user1', handle: 'user1.bsky.social' },
+          { did: 'did:user2', handle: 'user2.bsky.social' },
+        ],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      };
+      vi.mocked(getBlockCache).mockResolvedValueOnce(cache);
+      vi.mocked(getAllFollowers).mockResolvedValueOnce([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+        { did: 'did:fan', handle: 'fan.bsky.social' },
+      ]);
+      vi.mocked(getUserBlocksSince).mockResolvedValue({ blocks: [], state: 'complete' });
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      try {
+        await import('../background.js');
+        const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+        messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, vi.fn());
+
+        await new Promise((resolve) => setTimeout(resolve, 200));
+
+        // Accounts out of the new scope still go
+        expect(saveFollowList).toHaveBeenCalledWith(cache, ['did:user2']);
+        expect(updateSyncStatus).toHaveBeenCalledWith({ followDiff: undefined });
+      } finally {
+        vi.mocked(getSettings).mockResolvedValue({
+          displayMode: 'compact',
+          realtimeEnabled: false,
+          graphScope: 'follows',
+        });
+      }
+    });
+
+    it('should stop a running sync on STOP_SYNC and not resume it', async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        createEmptyCache,
+        saveBlockCache,
+        updateSyncStatus,
+        clearSyncCheckpoint,
+        releaseSyncLease,
+      } = await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+      ]);
+      vi.mocked(createEmptyCache).mockReturnValueOnce({
+        followedUsers: [],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      });
+      // Hangs until the sync is stopped
+      vi.mocked(getUserBlocksSince).mockImplementationOnce(
+        (_did, _sinceRkey, _pdsUrl, signal) =>
+          new Promise((_resolve, reject) => {
+            signal?.addEventListener('abort', () => reject(signal.reason));
+          })
+      );
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      const syncResponse = vi.fn();
+      messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, syncResponse);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const stopResponse = vi.fn();
+      messageListener({ type: 'STOP_SYNC' }, {} as chrome.runtime.MessageSender, stopResponse);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(stopResponse).toHaveBeenCalledWith({ success: true });
+      expect(syncResponse).toHaveBeenCalledWith({ success: true });
+      expect(chrome.alarms.clear).toHaveBeenCalledWith('syncSlice');
+      expect(clearSyncCheckpoint).toHaveBeenCalled();
+      expect(releaseSyncLease).toHaveBeenCalledWith();
+      expect(updateSyncStatus).toHaveBeenLastCalledWith({ isRunning: false });
+      // The aborted fetch isn't recorded as a failure
+      expect(updateSyncStatus).not.toHaveBeenCalledWith(
+        expect.objectContaining({ errors: expect.anything() })
+      );
+    });
+
+    it('should stop a running sync before CLEAR_CACHE clears its cache', async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        createEmptyCache,
+        saveBlockCache,
+        updateSyncStatus,
+        clearBlockCache,
+      } = await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+      ]);
+      vi.mocked(createEmptyCache).mockReturnValueOnce({
+        followedUsers: [],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      });
+      let fetchSignal: AbortSignal | undefined;
+      vi.mocked(getUserBlocksSince).mockImplementationOnce(
+        (_did, _sinceRkey, _pdsUrl, signal) =>
+          new Promise((_resolve, reject) => {
+            fetchSignal = signal;
+            signal?.addEventListener('abort', () => reject(signal.reason));
+          })
+      );
+      let stoppedBeforeClear: boolean | undefined;
+      vi.mocked(clearBlockCache).mockImplementationOnce(async () => {
+        stoppedBeforeClear = fetchSignal?.aborted;
+      });
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      const syncResponse = vi.fn();
+      messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, syncResponse);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const clearResponse = vi.fn();
+      messageListener({ type: 'CLEAR_CACHE' }, {} as chrome.runtime.MessageSender, clearResponse);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(clearResponse).toHaveBeenCalledWith({ success: true });
+      expect(syncResponse).toHaveBeenCalledWith({ success: true });
+      expect(stoppedBeforeClear).toBe(true);
+      vi.mocked(clearBlockCache).mockReset();
+    });
+
+    it('should say so when STOP_SYNC finds no sync to stop', async () => {
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+
+      const sendResponse = vi.fn();
+      messageListener({ type: 'STOP_SYNC' }, {} as chrome.runtime.MessageSender, sendResponse);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(sendResponse).toHaveBeenCalledWith({ success: false, error: 'No sync is running' });
+    });
+
+    it('should continue listing follows from the checkpointed cursor', async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        createEmptyCache,
+        saveBlockCache,
+        updateSyncStatus,
+        getSyncCheckpoint,
+        getGraphListing,
+      } = await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getSyncCheckpoint).mockResolvedValue({
+        userDid: 'did:me',
+        startedAt: Date.now(),
+        isFullReconcile: true,
+        followsCursor: 'cursor-2',
+        followsListed: 1,
+        lastCompletedChunk: -1,
+      });
+      vi.mocked(getGraphListing).mockResolvedValueOnce([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+      ]);
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      const cache = {
+        followedUsers: [],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      };
+      vi.mocked(createEmptyCache).mockReturnValueOnce(cache);
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:user2', handle: 'user2.bsky.social' },
+      ]);
+      vi.mocked(getUserBlocksSince).mockResolvedValue({ blocks: [], state: 'complete' });
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(getGraphListing).toHaveBeenCalledWith('follows', 1);
+      expect(getAllFollows).toHaveBeenCalledWith(
+        'did:me',
+        expect.objectContaining({ cursor: 'cursor-2' })
+      );
+      expect(cache.followedUsers).toEqual([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+        { did: 'did:user2', handle: 'user2.bsky.social' },
+      ]);
+      expect(getUserBlocksSince).toHaveBeenCalledTimes(2);
+
+      vi.mocked(getSyncCheckpoint).mockResolvedValue(null);
+    });
+
+    it("should list follows from the start if the listed pages weren't saved", async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        createEmptyCache,
+        saveBlockCache,
+        updateSyncStatus,
+        getSyncCheckpoint,
+        getGraphListing,
+      } = await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince } = await import('../api.js');
+
+      vi.mocked(getSyncCheckpoint).mockResolvedValue({
+        userDid: 'did:me',
+        startedAt: Date.now(),
+        isFullReconcile: true,
+        followsCursor: 'cursor-2',
+        followsListed: 1,
+        lastCompletedChunk: -1,
+      });
+      // No IndexedDB, or the pages were lost
+      vi.mocked(getGraphListing).mockResolvedValueOnce(null);
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      const cache = {
+        followedUsers: [],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      };
+      vi.mocked(createEmptyCache).mockReturnValueOnce(cache);
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+        { did: 'did:user2', handle: 'user2.bsky.social' },
+      ]);
+      vi.mocked(getUserBlocksSince).mockResolvedValue({ blocks: [], state: 'complete' });
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(getAllFollows).toHaveBeenCalledWith(
+        'did:me',
+        expect.objectContaining({ cursor: undefined })
+      );
+      expect(cache.followedUsers).toEqual([
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+        { did: 'did:user2', handle: 'user2.bsky.social' },
+      ]);
+      expect(getUserBlocksSince).toHaveBeenCalledTimes(2);
+
+      vi.mocked(getSyncCheckpoint).mockResolvedValue(null);
+    });
+
+    it("should discard another account's checkpoint", async () => {
+      const {
+        getSyncStatus,
+        getStoredAuth,
+        createEmptyCache,
+        saveBlockCache,
+        updateSyncStatus,
+        getSyncCheckpoint,
+        clearSyncCheckpoint,
+      } = await import('../storage.js');
+      const { getAllFollows } = await import('../api.js');
+
+      vi.mocked(getSyncCheckpoint).mockResolvedValue({
+        userDid: 'did:someone-else',
+        startedAt: Date.now(),
+        isFullReconcile: true,
+        lastCompletedChunk: 3,
+        pendingDids: ['did:user9'],
+      });
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      vi.mocked(createEmptyCache).mockReturnValueOnce({
+        followedUsers: [],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      });
+      vi.mocked(getAllFollows).mockResolvedValueOnce([]);
+      vi.mocked(saveBlockCache).mockResolvedValue(undefined);
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(clearSyncCheckpoint).toHaveBeenCalled();
+      expect(getAllFollows).toHaveBeenCalledWith(
+        'did:me',
+        expect.objectContaining({ cursor: undefined })
+      );
+
+      vi.mocked(getSyncCheckpoint).mockResolvedValue(null);
+    });
+
+    it('should fetch from each PDS without waiting on a stalled one', async () => {
+      const { getSyncStatus, getStoredAuth, createEmptyCache, updateSyncStatus } =
+        await import('../storage.js');
+      const { getAllFollows, getUserBlocksSince, getCachedPds, resolvePdsOrDefault } =
+        await import('../api.js');
+
+      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+        totalFollows: 0,
+        syncedFollows: 0,
+        lastSync: 0,
+        isRunning: false,
+        lastUpdated: 0,
+        errors: [],
+      });
+      vi.mocked(getStoredAuth).mockResolvedValueOnce({
+        accessJwt: 'jwt',
+        did: 'did:me',
+        handle: 'me.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      });
+      vi.mocked(createEmptyCache).mockReturnValueOnce({
+        followedUsers: [],
+        userBlockCaches: {},
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      });
+      vi.mocked(getAllFollows).mockResolvedValueOnce([
+        { did: 'did:slow', handle: 'slow.example' },
+        { did: 'did:user1', handle: 'user1.bsky.social' },
+      ]);
+      vi.mocked(getCachedPds).mockImplementation((did) =>
+        did === 'did:slow' ? 'https://pds.slow.example' : undefined
+      );
+      vi.mocked(resolvePdsOrDefault).mockResolvedValueOnce('https://shard.host.bsky.network');
+      vi.mocked(getUserBlocksSince).mockImplementation((did) =>
+        did === 'did:slow'
+          ? new Promise(() => {}) // Never answers
+          : Promise.resolve({ blocks: ['did:blocked'], state: 'complete' })
+      );
+      vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+      messageListener({ type: 'TRIGGER_SYNC' }, {} as chrome.runtime.MessageSender, vi.fn());
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(resolvePdsOrDefault).toHaveBeenCalledTimes(1);
+      expect(resolvePdsOrDefault).toHaveBeenCalledWith('did:user1', expect.any(AbortSignal));
+      expect(getUserBlocksSince).toHaveBeenCalledWith(
+        'did:user1',
+        undefined,
+        'https://shard.host.bsky.network',
+        expect.any(AbortSignal)
+      );
+      expect(updateSyncStatus).toHaveBeenCalledWith({ syncedFollows: 1, totalFollows: 2 });
+
+      vi.mocked(getCachedPds).mockReset();
+      vi.mocked(getUserBlocksSince).mockReset();
+    });
+
+    it('should handle FETCH_PROFILE_BLOCKS message', async () => {
+      const { getUserBlocks } = await import('../api.js');
+
+      vi.mocked(getUserBlocks).mockResolvedValueOnce(['did:blocked1', 'did:blocked2']);
+
+      await import('../background.js');
+      const messageListener = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls[0][0];
+
+      const sendResponse = vi.fn();
+      messageListener(
+        { type: 'FETCH_PROFILE_BLOCKS', profileDid: 'did:profile' },
+        {} as chrome.runtime.MessageSender,
+        sendResponse
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(getUserBlocks).toHaveBeenCalledWith('did:profile');
+      expect(sendResponse).toHaveBeenCalledWith({
+        success: true,
+        blocks: ['did:blocked1', 'did:blocked2'],
+      });
+    });
 
     it('should handle FETCH_PROFILE_BLOCKS without profileDid', async () => {
       await import('../background.js');
@@ -706,10 +2627,10 @@ describe('Background Service Worker', () => {
   describe('Error handling', () => {
     it('should handle message processing errors gracefully', async () => {
       const { lookupBlockingInfo, getBlockCache } = await import('../storage.js');
-      const { getUserBlocks } = await import('../api.js');
+      const { getUserBlocksSince } = await import('../api.js');
 
       vi.mocked(getBlockCache).mockResolvedValueOnce(null);
-      vi.mocked(getUserBlocks).mockResolvedValueOnce([]);
+      vi.mocked(getUserBlocksSince).mockResolvedValueOnce({ blocks: [], state: 'complete' });
       vi.mocked(lookupBlockingInfo).mockRejectedValueOnce(new Error('Storage error'));
 
       await import('../background.js');
@@ -736,10 +2657,11 @@ describe('Background Service Worker', () => {
     });
 
     it('should handle sync errors and update status', async () => {
-      const { getSyncStatus, getStoredAuth, updateSyncStatus } = await import('../storage.js');
+      const { getSyncStatus, getStoredAuth, createEmptyCache, updateSyncStatus } =
+        await import('../storage.js');
       const { getAllFollows } = await import('../api.js');
 
-      vi.mocked(getSyncStatus).mockResolvedValueOnce({
+      vi.mocked(getSyncStatus).mockResolvedValue({
         totalFollows: 0,
         syncedFollows: 0,
         lastSync: 0,
@@ -755,6 +2677,12 @@ describe('Background Service Worker', () => {
         pdsUrl: 'https://pds.test.com',
       });
 
+      vi.mocked(createEmptyCache).mockReturnValueOnce({
+        userBlockCaches: {},
+        followedUsers: [],
+        lastFullSync: 0,
+        currentUserDid: 'did:me',
+      });
       vi.mocked(getAllFollows).mockRejectedValueOnce(new Error('API error'));
       vi.mocked(updateSyncStatus).mockResolvedValue(undefined);
 
@@ -775,7 +2703,7 @@ describe('Background Service Worker', () => {
       expect(updateSyncStatus).toHaveBeenCalledWith(
         expect.objectContaining({
           isRunning: false,
-          errors: expect.any(Array),
+          lastError: 'API error',
         })
       );
     });
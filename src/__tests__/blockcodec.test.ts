@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  packBlockCache,
+  unpackBlockCache,
+  findPackedBlockLists,
+  estimatePackedListSize,
+  encodeDidKey,
+  decodeDidKey,
+} from '../blockcodec.js';
+import { BlockCacheData } from '../types.js';
+
+const PLC_A = 'did:plc:ewvi7nxzyoun6zhxrhs64oiz';
+const PLC_B = 'did:plc:z72i7hdynmk6r22z27h6tvur';
+const BASE32 = 'abcdefghijklmnopqrstuvwxyz234567';
+const PLC_EDGES = ['did:plc:aaaaaaaaaaaaaaaaaaaaaaaa', 'did:plc:777777777777777777777777'];
+
+function makeCache(): BlockCacheData {
+  return {
+    followedUsers: [
+      { did: 'did:alice', handle: 'alice.bsky.social' },
+      { did: 'did:bob', handle: 'bob.bsky.social' },
+    ],
+    userBlockCaches: {
+      'did:alice': {
+        did: 'did:alice',
+        handle: 'alice.bsky.social',
+        displayName: 'Alice',
+        blocks: [PLC_B, 'did:web:example.com', PLC_A, ...PLC_EDGES],
+        lastSynced: 1000,
+        newestRkey: '3abc',
+      },
+      'did:bob': {
+        did: 'did:bob',
+        handle: 'bob.bsky.social',
+        blocks: [PLC_A],
+        lastSynced: 1000,
+        fetchState: 'partial',
+        httpStatus: 502,
+      },
+      'did:carol': {
+        did: 'did:carol',
+        handle: 'carol.bsky.social',
+        blocks: [],
+        lastSynced: 1000,
+      },
+    },
+    lastFullSync: 1000,
+    lastFullReconcile: 900,
+    currentUserDid: 'did:me',
+  };
+}
+
+// A valid did:plc with n spelled out in base32
+function plcDid(n: number): string {
+  const chars = Array.from({ length: 24 }, (_, k) => BASE32[Math.floor(n / 32 ** k) % 32]);
+  return `did:plc:${chars.join('')}`;
+}
+
+// Block lists come back grouped by blocked DID, so compare them as sets
+function sortBlocks(cache: BlockCacheData): BlockCacheData {
+  for (const list of Object.values(cache.userBlockCaches)) list.blocks.sort();
+  return cache;
+}
+
+describe('BlockCodec Module', () => {
+  describe('packBlockCache / unpackBlockCache', () => {
+    it('should round-trip a cache', () => {
+      const packed = packBlockCache(makeCache());
+
+      expect(sortBlocks(unpackBlockCache(packed))).toEqual(sortBlocks(makeCache()));
+    });
+
+    it('should survive a JSON round trip', () => {
+      const packed = JSON.parse(JSON.stringify(packBlockCache(makeCache())));
+
+      expect(sortBlocks(unpackBlockCache(packed))).toEqual(sortBlocks(makeCache()));
+    });
+
+    it('should store each blocked DID once, with non-PLC DIDs kept apart', () => {
+      const packed = packBlockCache(makeCache());
+
+      // PLC_A, PLC_B and the two edge cases, 20 base64 characters each
+      expect(packed.blocked.plc).toHaveLength(4 * 20);
+      expect(packed.blocked.other).toEqual(['did:web:example.com']);
+    });
+
+    it('should drop repeated subjects within a list', () => {
+      const cache = makeCache();
+      cache.userBlockCaches['did:bob'].blocks = [PLC_A, PLC_A];
+
+      const unpacked = unpackBlockCache(packBlockCache(cache));
+
+      expect(unpacked.userBlockCaches['did:bob'].blocks).toEqual([PLC_A]);
+    });
+
+    it('should be much smaller than the plain cache', () => {
+      const cache = makeCache();
+      const blocked = Array.from({ length: 200 }, (_, i) => plcDid(i));
+      for (let i = 0; i < 50; i++) {
+        cache.userBlockCaches[`did:user${i}`] = {
+          did: `did:user${i}`,
+          handle: `user${i}.bsky.social`,
+          blocks: blocked.slice(i, i + 100),
+          lastSynced: 1000,
+        };
+      }
+
+      const plainSize = JSON.stringify(cache).length;
+      const packedSize = JSON.stringify(packBlockCache(cache)).length;
+      expect(packedSize * 5).toBeLessThan(plainSize);
+    });
+  });
+
+  describe('findPackedBlockLists', () => {
+    it('should find the lists containing a DID', () => {
+      const packed = packBlockCache(makeCache());
+
+      expect(findPackedBlockLists(packed, PLC_A).map((list) => list.did)).toEqual([
+        'did:alice',
+        'did:bob',
+      ]);
+      expect(findPackedBlockLists(packed, 'did:web:example.com')).toEqual([
+        {
+          did: 'did:alice',
+          handle: 'alice.bsky.social',
+          displayName: 'Alice',
+          lastSynced: 1000,
+          newestRkey: '3abc',
+        },
+      ]);
+      for (const did of PLC_EDGES) {
+        expect(findPackedBlockLists(packed, did)).toHaveLength(1);
+      }
+    });
+
+    it('should return nothing for DIDs no list contains', () => {
+      const packed = packBlockCache(makeCache());
+
+      expect(findPackedBlockLists(packed, 'did:plc:bbbbbbbbbbbbbbbbbbbbbbbb')).toEqual([]);
+      expect(findPackedBlockLists(packed, 'did:web:nobody.example')).toEqual([]);
+      expect(
+        findPackedBlockLists(packBlockCache({ ...makeCache(), userBlockCaches: {} }), PLC_A)
+      ).toEqual([]);
+    });
+  });
+
+  describe('estimatePackedListSize', () => {
+    it('should count four characters per distinct block', () => {
+      const list = { did: 'did:bob', handle: 'bob.bsky.social', lastSynced: 1000 };
+
+      expect(estimatePackedListSize({ ...list, blocks: [PLC_A, PLC_A, PLC_B] })).toBe(
+        JSON.stringify(list).length + 8
+      );
+    });
+  });
+
+  describe('encodeDidKey / decodeDidKey', () => {
+    it('should store did:plc identifiers in 8 characters and other DIDs as they are', () => {
+      expect(encodeDidKey(PLC_A)).toHaveLength(8);
+      expect(encodeDidKey('did:web:example.com')).toBe('did:web:example.com');
+
+      for (const did of [PLC_A, PLC_B, ...PLC_EDGES, 'did:web:example.com']) {
+        expect(decodeDidKey(encodeDidKey(did))).toBe(did);
+      }
+    });
+  });
+});
@@ -0,0 +1,379 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import {
+  openBlockDb,
+  readBlockCache,
+  writeBlockCache,
+  writeBlockLists,
+  writeFollowList,
+  deleteBlockCache,
+  readUserBlockCache,
+  updateUserBlockRecord,
+  findBlockers,
+  lookupBlockingInfoInDb,
+  readModerationLists,
+  writeModerationLists,
+  findListsWithMember,
+  putListingPage,
+  readListingPages,
+  clearListingPages,
+  writePendingSync,
+  readPendingSync,
+  readListSubscriptions,
+  writeListSubscriptions,
+  findListSubscribers,
+  clearBlockDb,
+} from '../blockdb.js';
+import { encodeDidKey } from '../blockcodec.js';
+import { BlockCacheData } from '../types.js';
+
+function makeCache(): BlockCacheData {
+  return {
+    followedUsers: [
+      { did: 'did:alice', handle: 'alice.bsky.social' },
+      { did: 'did:bob', handle: 'bob.bsky.social' },
+    ],
+    userBlockCaches: {
+      'did:alice': {
+        did: 'did:alice',
+        handle: 'alice.bsky.social',
+        displayName: 'Alice',
+        blocks: ['did:profile', 'did:bob'],
+        lastSynced: 1000,
+      },
+      'did:bob': {
+        did: 'did:bob',
+        handle: 'bob.bsky.social',
+        blocks: [],
+        lastSynced: 1000,
+        fetchState: 'partial',
+      },
+    },
+    lastFullSync: 1000,
+    currentUserDid: 'did:me',
+  };
+}
+
+describe('BlockDb Module', () => {
+  let db: IDBDatabase;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    globalThis.IDBKeyRange = IDBKeyRange;
+    db = await openBlockDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('readBlockCache / writeBlockCache / writeBlockLists / writeFollowList', () => {
+    it('should return null when nothing has been saved', async () => {
+      expect(await readBlockCache(db)).toBeNull();
+    });
+
+    it('should read back a fully written cache', async () => {
+      const cache = makeCache();
+      await writeBlockCache(db, cache);
+
+      expect(await readBlockCache(db)).toEqual(cache);
+    });
+
+    it('should only write the changed block lists', async () => {
+      await writeBlockCache(db, makeCache());
+
+      const cache = makeCache();
+      cache.followedUsers.push({ did: 'did:carol', handle: 'carol.bsky.social' });
+      cache.userBlockCaches['did:alice'].blocks = ['did:profile'];
+      delete cache.userBlockCaches['did:bob'];
+      cache.lastFullSync = 2000;
+      await writeBlockLists(db, cache, ['did:bob']);
+
+      const saved = await readBlockCache(db);
+      // Alice wasn't listed as changed, and the follow list is left as it was
+      expect(saved?.userBlockCaches['did:alice'].blocks).toEqual(['did:profile', 'did:bob']);
+      expect(saved?.userBlockCaches['did:bob']).toBeUndefined();
+      expect(saved?.followedUsers).toHaveLength(2);
+      expect(saved?.lastFullSync).toBe(2000);
+    });
+
+    it('should replace the follow list without touching unchanged block lists', async () => {
+      await writeBlockCache(db, makeCache());
+
+      const cache = makeCache();
+      cache.followedUsers = [cache.followedUsers[0]];
+      cache.userBlockCaches['did:alice'].blocks = [];
+      delete cache.userBlockCaches['did:bob'];
+      await writeFollowList(db, cache, ['did:bob']);
+
+      const saved = await readBlockCache(db);
+      expect(saved?.followedUsers).toEqual([{ did: 'did:alice', handle: 'alice.bsky.social' }]);
+      expect(Object.keys(saved!.userBlockCaches)).toEqual(['did:alice']);
+      expect(saved?.userBlockCaches['did:alice'].blocks).toEqual(['did:profile', 'did:bob']);
+    });
+
+    it('should never delete block lists left out of a whole write', async () => {
+      await writeBlockCache(db, makeCache());
+      await writeBlockCache(db, { ...makeCache(), userBlockCaches: {} });
+
+      expect(Object.keys((await readBlockCache(db))!.userBlockCaches)).toEqual([
+        'did:alice',
+        'did:bob',
+      ]);
+    });
+  });
+
+  describe('DID encoding', () => {
+    const plcDid = 'did:plc:ewvi7nxzyoun6zhxrhs64oiz';
+
+    function rawRecord(name: string, key: string): Promise<Record<string, unknown>> {
+      return new Promise((resolve, reject) => {
+        const request = db.transaction(name, 'readonly').objectStore(name).get(key);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+
+    it('should store did:plc identifiers encoded and still find them', async () => {
+      const cache = makeCache();
+      cache.userBlockCaches['did:alice'].blocks = [plcDid, 'did:profile'];
+      await writeBlockCache(db, cache);
+
+      const [encoded, other] = (await rawRecord('blockLists', 'did:alice')).blocks as string[];
+      expect(encoded).toHaveLength(8);
+      expect(other).toBe('did:profile');
+      expect((await readUserBlockCache(db, 'did:alice'))?.blocks).toEqual([plcDid, 'did:profile']);
+      expect(await findBlockers(db, plcDid)).toHaveLength(1);
+    });
+
+    it('should encode block lists saved by older versions when upgrading', async () => {
+      db.close();
+      globalThis.indexedDB = new IDBFactory();
+      // The first version's schema, with DIDs as plain strings
+      const old = await new Promise<IDBDatabase>((resolve, reject) => {
+        const open = indexedDB.open('askbeeves', 1);
+        open.onupgradeneeded = () => {
+          open.result.createObjectStore('follows', { keyPath: 'did' });
+          const blockLists = open.result.createObjectStore('blockLists', { keyPath: 'did' });
+          blockLists.createIndex('blockedDid', 'blocks', { multiEntry: true });
+          blockLists.createIndex('fetchState', 'fetchState');
+          open.result.createObjectStore('meta');
+          blockLists.put({ did: 'did:alice', handle: 'alice.bsky.social', blocks: [plcDid] });
+        };
+        open.onsuccess = () => resolve(open.result);
+        open.onerror = () => reject(open.error);
+      });
+      old.close();
+
+      db = await openBlockDb();
+      expect((await rawRecord('blockLists', 'did:alice')).blocks).toEqual([encodeDidKey(plcDid)]);
+      expect((await readUserBlockCache(db, 'did:alice'))?.blocks).toEqual([plcDid]);
+    });
+  });
+
+  describe('deleteBlockCache', () => {
+    it('should delete the cache but not the moderation lists', async () => {
+      const list = { uri: 'at://did:owner/app.bsky.graph.list/1', members: [], lastSynced: 1 };
+      await writeBlockCache(db, makeCache());
+      await writeModerationLists(db, { [list.uri]: list });
+
+      await deleteBlockCache(db);
+
+      expect(await readBlockCache(db)).toBeNull();
+      expect(await readModerationLists(db)).toEqual({ [list.uri]: list });
+    });
+  });
+
+  describe('updateUserBlockRecord', () => {
+    it('should write one block list', async () => {
+      await writeBlockCache(db, makeCache());
+      await updateUserBlockRecord(db, 'did:bob', () => ({
+        did: 'did:bob',
+        handle: 'bob.bsky.social',
+        blocks: ['did:profile'],
+        lastSynced: 2000,
+      }));
+
+      const saved = await readBlockCache(db);
+      expect(saved?.userBlockCaches['did:bob'].blocks).toEqual(['did:profile']);
+      expect(saved?.userBlockCaches['did:alice'].blocks).toEqual(['did:profile', 'did:bob']);
+    });
+
+    it('should pass the follow and its block list, and delete it on null', async () => {
+      await writeBlockCache(db, makeCache());
+      const update = vi.fn(() => null);
+
+      await updateUserBlockRecord(db, 'did:alice', update);
+
+      expect(update).toHaveBeenCalledWith(
+        makeCache().followedUsers.find((u) => u.did === 'did:alice'),
+        makeCache().userBlockCaches['did:alice']
+      );
+      expect(await readUserBlockCache(db, 'did:alice')).toBeUndefined();
+    });
+
+    it('should do nothing without a cache', async () => {
+      const update = vi.fn(() => ({
+        did: 'did:bob',
+        handle: 'bob.bsky.social',
+        blocks: ['did:profile'],
+        lastSynced: 2000,
+      }));
+      await updateUserBlockRecord(db, 'did:bob', update);
+
+      expect(update).not.toHaveBeenCalled();
+      expect(await readBlockCache(db)).toBeNull();
+    });
+  });
+
+  describe('findBlockers', () => {
+    it('should find follows whose block lists contain the profile', async () => {
+      await writeBlockCache(db, makeCache());
+
+      expect(await findBlockers(db, 'did:profile')).toEqual([
+        { did: 'did:alice', handle: 'alice.bsky.social', displayName: 'Alice' },
+      ]);
+      expect(await findBlockers(db, 'did:nobody')).toEqual([]);
+    });
+
+    it('should skip block lists of users no longer followed', async () => {
+      const cache = makeCache();
+      cache.followedUsers = [{ did: 'did:bob', handle: 'bob.bsky.social' }];
+      await writeBlockCache(db, cache);
+
+      expect(await findBlockers(db, 'did:profile')).toEqual([]);
+    });
+  });
+
+  describe('lookupBlockingInfoInDb', () => {
+    it('should look up both directions and count unchecked follows', async () => {
+      await writeBlockCache(db, makeCache());
+
+      const info = await lookupBlockingInfoInDb(db, 'did:profile', ['did:bob', 'did:stranger']);
+
+      expect(info).toEqual({
+        blockedBy: [{ did: 'did:alice', handle: 'alice.bsky.social', displayName: 'Alice' }],
+        blocking: [{ did: 'did:bob', handle: 'bob.bsky.social' }],
+        uncheckedCount: 1,
+        unindexedCount: 0,
+      });
+    });
+
+    it('should count evicted follows without block lists', async () => {
+      const cache = makeCache();
+      cache.followedUsers.push({ did: 'did:carol', handle: 'carol.bsky.social' });
+      // Bob's list was stored again since being evicted
+      cache.evictedDids = ['did:bob', 'did:carol'];
+      await writeBlockCache(db, cache);
+
+      const info = await lookupBlockingInfoInDb(db, 'did:profile', []);
+
+      expect(info?.unindexedCount).toBe(1);
+    });
+
+    it('should return null without a cache', async () => {
+      expect(await lookupBlockingInfoInDb(db, 'did:profile', [])).toBeNull();
+    });
+  });
+
+  describe('moderation lists', () => {
+    const spam = 'at://did:owner/app.bsky.graph.list/3kspam';
+    const trolls = 'at://did:owner/app.bsky.graph.list/3ktrolls';
+    const lists = {
+      [spam]: { uri: spam, name: 'Spam', members: ['did:spammer', 'did:both'], lastSynced: 1 },
+      [trolls]: { uri: trolls, members: ['did:troll', 'did:both'], lastSynced: 1 },
+    };
+
+    it('should read back written lists', async () => {
+      await writeModerationLists(db, lists);
+      expect(await readModerationLists(db)).toEqual(lists);
+    });
+
+    it('should find the lists with a member, without their members', async () => {
+      await writeModerationLists(db, lists);
+
+      expect(await findListsWithMember(db, 'did:spammer')).toEqual([
+        { uri: spam, name: 'Spam', lastSynced: 1 },
+      ]);
+      expect((await findListsWithMember(db, 'did:both')).map((l) => l.uri).sort()).toEqual(
+        [spam, trolls].sort()
+      );
+    });
+
+    it('should only write the changed lists', async () => {
+      await writeModerationLists(db, lists);
+      const rest = { [spam]: lists[spam] };
+
+      await writeModerationLists(db, rest, [trolls]);
+
+      expect(await readModerationLists(db)).toEqual(rest);
+      expect(await findListsWithMember(db, 'did:troll')).toEqual([]);
+    });
+  });
+
+  describe('listing pages', () => {
+    const page = (did: string) => [{ did, handle: `${did.slice(4)}.bsky.social` }];
+
+    it('should read back one listing in order', async () => {
+      await putListingPage(db, 'follows', 1, page('did:bob'));
+      await putListingPage(db, 'follows', 0, page('did:alice'));
+      await putListingPage(db, 'followers', 0, page('did:fan'));
+
+      const pages = await readListingPages(db, 'follows');
+      expect(pages.map((p) => p.offset)).toEqual([0, 1]);
+      expect(pages[1].users).toEqual(page('did:bob'));
+    });
+
+    it('should clear one listing or both', async () => {
+      await putListingPage(db, 'follows', 0, page('did:alice'));
+      await putListingPage(db, 'followers', 0, page('did:fan'));
+
+      await clearListingPages(db, 'follows');
+      expect(await readListingPages(db, 'follows')).toEqual([]);
+      expect(await readListingPages(db, 'followers')).toHaveLength(1);
+
+      await clearListingPages(db);
+      expect(await readListingPages(db, 'followers')).toEqual([]);
+    });
+  });
+
+  describe('pending sync', () => {
+    it('should read back the pending accounts in order, less the removed ones', async () => {
+      await writePendingSync(db, ['did:carol', 'did:alice', 'did:bob']);
+      await writePendingSync(db, [], ['did:alice']);
+
+      expect(await readPendingSync(db)).toEqual(['did:carol', 'did:bob']);
+    });
+  });
+
+  describe('list subscriptions', () => {
+    const spam = 'at://did:owner/app.bsky.graph.list/3kspam';
+    const trolls = 'at://did:owner/app.bsky.graph.list/3ktrolls';
+
+    it('should only write the changed accounts', async () => {
+      await writeListSubscriptions(db, { 'did:alice': [spam], 'did:bob': [trolls] });
+      await writeListSubscriptions(db, { 'did:alice': [spam, trolls] }, ['did:alice', 'did:bob']);
+
+      expect(await readListSubscriptions(db)).toEqual({ 'did:alice': [spam, trolls] });
+    });
+
+    it('should find the subscribers of the given lists', async () => {
+      await writeListSubscriptions(db, {
+        'did:alice': [spam, trolls],
+        'did:bob': [trolls],
+        'did:carol': [],
+      });
+
+      expect(await findListSubscribers(db, [spam])).toEqual({ 'did:alice': [spam] });
+    });
+  });
+
+  describe('clearBlockDb', () => {
+    it('should delete everything', async () => {
+      await writeBlockCache(db, makeCache());
+      await clearBlockDb(db);
+
+      expect(await readBlockCache(db)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { largestFirst, oldestFirst, evictionOrder } from '../eviction.js';
+import { BlockCacheData, UserBlockCache } from '../types.js';
+
+function makeList(did: string, blockCount: number, lastSynced: number): UserBlockCache {
+  return {
+    did,
+    handle: `${did.slice(4)}.bsky.social`,
+    blocks: Array.from({ length: blockCount }, (_, i) => `did:blocked${i}`),
+    lastSynced,
+  };
+}
+
+function makeCache(lists: UserBlockCache[], followed: string[]): BlockCacheData {
+  return {
+    followedUsers: followed.map((did) => ({ did, handle: `${did.slice(4)}.bsky.social` })),
+    userBlockCaches: Object.fromEntries(lists.map((list) => [list.did, list])),
+    lastFullSync: 0,
+    currentUserDid: 'did:me',
+  };
+}
+
+const lists = [
+  makeList('did:small', 1, 100),
+  makeList('did:big', 50, 300),
+  makeList('did:mid', 10, 200),
+];
+
+describe('Eviction Module', () => {
+  describe('largestFirst', () => {
+    it('should order the longest block lists first', () => {
+      const cache = makeCache(lists, []);
+
+      expect(largestFirst(lists, cache).map((list) => list.did)).toEqual([
+        'did:big',
+        'did:mid',
+        'did:small',
+      ]);
+    });
+
+    it('should break ties by sync age', () => {
+      const tied = [makeList('did:newer', 5, 200), makeList('did:older', 5, 100)];
+
+      expect(largestFirst(tied, makeCache(tied, [])).map((list) => list.did)).toEqual([
+        'did:older',
+        'did:newer',
+      ]);
+    });
+  });
+
+  describe('oldestFirst', () => {
+    it('should order the least recently synced lists first', () => {
+      const cache = makeCache(lists, []);
+
+      expect(oldestFirst(lists, cache).map((list) => list.did)).toEqual([
+        'did:small',
+        'did:mid',
+        'did:big',
+      ]);
+    });
+  });
+
+  describe('evictionOrder', () => {
+    it('should evict lists of users no longer followed before asking the policy', () => {
+      const cache = makeCache(lists, ['did:big', 'did:mid']);
+
+      expect(evictionOrder(cache, largestFirst).map((list) => list.did)).toEqual([
+        'did:small',
+        'did:big',
+        'did:mid',
+      ]);
+    });
+  });
+});
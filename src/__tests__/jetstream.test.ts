@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+
+vi.mock('../api.js', () => ({
+  getUserBlocksSince: vi.fn(),
+}));
+
+vi.mock('../storage.js', () => ({
+  getUserBlockCache: vi.fn(),
+  updateUserBlockCache: vi.fn(),
+}));
+
+import {
+  startJetstream,
+  stopJetstream,
+  isJetstreamConnected,
+  handleJetstreamEvent,
+} from '../jetstream.js';
+import { getUserBlocksSince } from '../api.js';
+import { getUserBlockCache, updateUserBlockCache } from '../storage.js';
+import { BlockCacheData, JetstreamEvent } from '../types.js';
+
+// Minimal stand-in for a Jetstream server connection
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((message: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    this.sent.push(data);
+  }
+
+  close(): void {
+    this.readyState = 3;
+  }
+
+  open(): void {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  drop(): void {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+}
+
+const blockEvent = (
+  operation: 'create' | 'delete',
+  did: string,
+  subject?: string
+): JetstreamEvent => ({
+  did,
+  time_us: 1700000000000000,
+  kind: 'commit',
+  commit: {
+    operation,
+    collection: 'app.bsky.graph.block',
+    rkey: '3kzzzzzzzzzzz',
+    record: subject ? { subject, createdAt: '2024-01-01T00:00:00Z' } : undefined,
+  },
+});
+
+const makeCache = (): BlockCacheData => ({
+  followedUsers: [{ did: 'did:alice', handle: 'alice.test' }],
+  userBlockCaches: {
+    'did:alice': {
+      did: 'did:alice',
+      handle: 'alice.test',
+      blocks: ['did:old'],
+      lastSynced: 1000,
+      newestRkey: '3kaaaaaaaaaaa',
+    },
+  },
+  lastFullSync: 0,
+  currentUserDid: 'did:me',
+});
+
+// Serve block lists from cache, applying updates to it as storage would
+const useCache = (cache: BlockCacheData | null) => {
+  vi.mocked(getUserBlockCache).mockImplementation(
+    async (did) => cache?.userBlockCaches[did] ?? null
+  );
+  vi.mocked(updateUserBlockCache).mockImplementation(async (did, update) => {
+    if (!cache) return;
+    const user = cache.followedUsers.find((u) => u.did === did);
+    const updated = update(user, cache.userBlockCaches[did]);
+    if (updated) {
+      cache.userBlockCaches[did] = updated;
+    } else if (updated === null) {
+      delete cache.userBlockCaches[did];
+    }
+  });
+};
+
+describe('Jetstream Module', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    stopJetstream();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('startJetstream', () => {
+    it('should subscribe to block records and send the DID filter on open', () => {
+      startJetstream('ws://localhost:6008/subscribe', ['did:alice', 'did:bob']);
+
+      const ws = FakeWebSocket.instances[0];
+      const url = new URL(ws.url);
+      expect(url.host).toBe('localhost:6008');
+      expect(url.searchParams.get('wantedCollections')).toBe('app.bsky.graph.block');
+      expect(url.searchParams.get('requireHello')).toBe('true');
+
+      ws.open();
+
+      expect(isJetstreamConnected()).toBe(true);
+      expect(JSON.parse(ws.sent[0])).toEqual({
+        type: 'options_update',
+        payload: {
+          wantedCollections: ['app.bsky.graph.block'],
+          wantedDids: ['did:alice', 'did:bob'],
+        },
+      });
+    });
+
+    it('should update the filter on the open socket when only DIDs change', () => {
+      startJetstream('ws://localhost:6008/subscribe', ['did:alice']);
+      FakeWebSocket.instances[0].open();
+
+      startJetstream('ws://localhost:6008/subscribe', ['did:alice', 'did:carol']);
+
+      expect(FakeWebSocket.instances).toHaveLength(1);
+      expect(JSON.parse(FakeWebSocket.instances[0].sent[1]).payload.wantedDids).toEqual([
+        'did:alice',
+        'did:carol',
+      ]);
+    });
+
+    it('should not connect without DIDs to watch', () => {
+      startJetstream('ws://localhost:6008/subscribe', []);
+
+      expect(FakeWebSocket.instances).toHaveLength(0);
+    });
+
+    it('should not connect to an invalid URL', () => {
+      startJetstream('not a url', ['did:alice']);
+
+      expect(FakeWebSocket.instances).toHaveLength(0);
+    });
+
+    it('should reconnect with a cursor after the connection drops', async () => {
+      useCache(null);
+      startJetstream('ws://localhost:6008/subscribe', ['did:alice']);
+      const first = FakeWebSocket.instances[0];
+      first.open();
+      first.onmessage?.({ data: JSON.stringify(blockEvent('create', 'did:alice', 'did:x')) });
+      await vi.advanceTimersByTimeAsync(0);
+
+      first.drop();
+      expect(isJetstreamConnected()).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const second = FakeWebSocket.instances[1];
+      expect(new URL(second.url).searchParams.get('cursor')).toBe('1700000000000000');
+    });
+
+    it('should ignore malformed messages', async () => {
+      startJetstream('ws://localhost:6008/subscribe', ['did:alice']);
+      FakeWebSocket.instances[0].open();
+      FakeWebSocket.instances[0].onmessage?.({ data: 'not json' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(updateUserBlockCache).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('stopJetstream', () => {
+    it('should close the socket without reconnecting', async () => {
+      startJetstream('ws://localhost:6008/subscribe', ['did:alice']);
+      FakeWebSocket.instances[0].open();
+
+      stopJetstream();
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(isJetstreamConnected()).toBe(false);
+      expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+  });
+
+  describe('handleJetstreamEvent', () => {
+    it('should add a new block for a followed user', async () => {
+      const cache = makeCache();
+      useCache(cache);
+
+      await handleJetstreamEvent(blockEvent('create', 'did:alice', 'did:new'));
+
+      expect(updateUserBlockCache).toHaveBeenCalledWith('did:alice', expect.any(Function));
+      expect(cache.userBlockCaches['did:alice'].blocks).toEqual(['did:new', 'did:old']);
+      // Delta marker is untouched so the next sync covers missed events
+      expect(cache.userBlockCaches['did:alice'].newestRkey).toBe('3kaaaaaaaaaaa');
+    });
+
+    it('should create a cache entry for a user with no known blocks', async () => {
+      const cache = makeCache();
+      cache.followedUsers.push({ did: 'did:bob', handle: 'bob.test' });
+      useCache(cache);
+
+      await handleJetstreamEvent(blockEvent('create', 'did:bob', 'did:new'));
+
+      expect(cache.userBlockCaches['did:bob']).toEqual(
+        expect.objectContaining({ did: 'did:bob', handle: 'bob.test', blocks: ['did:new'] })
+      );
+    });
+
+    it('should ignore events from users we do not follow', async () => {
+      const cache = makeCache();
+      useCache(cache);
+
+      await handleJetstreamEvent(blockEvent('create', 'did:stranger', 'did:new'));
+
+      expect(cache).toEqual(makeCache());
+    });
+
+    it('should ignore other collections', async () => {
+      const event = blockEvent('create', 'did:alice', 'did:new');
+      event.commit!.collection = 'app.bsky.graph.follow';
+
+      await handleJetstreamEvent(event);
+
+      expect(updateUserBlockCache).not.toHaveBeenCalled();
+    });
+
+    it('should refetch the block list on delete', async () => {
+      const cache = makeCache();
+      useCache(cache);
+      vi.mocked(getUserBlocksSince).mockResolvedValueOnce({
+        blocks: ['did:kept'],
+        newestRkey: '3kbbbbbbbbbbb',
+        state: 'complete',
+      });
+
+      await handleJetstreamEvent(blockEvent('delete', 'did:alice'));
+
+      expect(getUserBlocksSince).toHaveBeenCalledWith('did:alice');
+      expect(cache.userBlockCaches['did:alice'].blocks).toEqual(['did:kept']);
+      // The whole list was read, so the delta marker moves to its newest record
+      expect(cache.userBlockCaches['did:alice'].newestRkey).toBe('3kbbbbbbbbbbb');
+    });
+
+    it('should not refetch on delete for a user with no known blocks', async () => {
+      useCache(makeCache());
+
+      await handleJetstreamEvent(blockEvent('delete', 'did:bob'));
+
+      expect(getUserBlocksSince).not.toHaveBeenCalled();
+    });
+
+    it('should drop the cache entry when the last block is deleted', async () => {
+      const cache = makeCache();
+      useCache(cache);
+      vi.mocked(getUserBlocksSince).mockResolvedValueOnce({ blocks: [], state: 'complete' });
+
+      await handleJetstreamEvent(blockEvent('delete', 'did:alice'));
+
+      expect(cache.userBlockCaches['did:alice']).toBeUndefined();
+    });
+
+    it('should keep the cache when the refetch fails', async () => {
+      const cache = makeCache();
+      useCache(cache);
+      vi.mocked(getUserBlocksSince).mockResolvedValueOnce({ blocks: [], state: 'error' });
+
+      await handleJetstreamEvent(blockEvent('delete', 'did:alice'));
+
+      expect(cache.userBlockCaches['did:alice'].blocks).toEqual(['did:old']);
+      expect(updateUserBlockCache).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// In-memory storage.local
+let stored: Record<string, unknown> = {};
+const mockStorageLocalSet = vi.fn();
+
+vi.mock('../browser.js', () => ({
+  storage: {
+    local: {
+      get: async (key: string) => (key in stored ? { [key]: stored[key] } : {}),
+      set: async (items: Record<string, unknown>) => {
+        mockStorageLocalSet(items);
+        Object.assign(stored, items);
+      },
+      remove: async (keys: string | string[]) => {
+        for (const key of Array.isArray(keys) ? keys : [keys]) delete stored[key];
+      },
+    },
+  },
+}));
+
+import { runMigrations, SCHEMA_VERSION } from '../migrations.js';
+import { packBlockCache } from '../blockcodec.js';
+import { BlockCacheData } from '../types.js';
+
+const cache: BlockCacheData = {
+  followedUsers: [{ did: 'did:user1', handle: 'user1.bsky.social' }],
+  userBlockCaches: {
+    'did:user1': {
+      did: 'did:user1',
+      handle: 'user1.bsky.social',
+      blocks: ['did:plc:ewvi7nxzyoun6zhxrhs64oiz'],
+      lastSynced: 1000,
+    },
+  },
+  lastFullSync: 1000,
+  currentUserDid: 'did:me',
+};
+
+const auth = {
+  accessJwt: 'jwt',
+  did: 'did:me',
+  handle: 'me.bsky.social',
+  pdsUrl: 'https://pds.test',
+};
+
+describe('Migrations Module', () => {
+  beforeEach(() => {
+    stored = {};
+    vi.clearAllMocks();
+  });
+
+  describe('runMigrations', () => {
+    it('should bring empty storage to the current version', async () => {
+      await runMigrations();
+
+      expect(stored).toEqual({ schemaVersion: SCHEMA_VERSION });
+    });
+
+    it('should skip migrations at or below the saved version', async () => {
+      stored = { schemaVersion: SCHEMA_VERSION, blockIndex: { 'did:a': ['did:user1'] } };
+
+      await runMigrations();
+
+      expect(stored.blockIndex).toBeDefined();
+      expect(mockStorageLocalSet).not.toHaveBeenCalled();
+    });
+
+    it('should discard rebuildable data from a newer schema', async () => {
+      stored = {
+        schemaVersion: SCHEMA_VERSION + 1,
+        blockCache: { someFutureShape: true },
+        syncLedger: {},
+        authToken: auth,
+      };
+
+      await runMigrations();
+
+      expect(stored).toEqual({ schemaVersion: SCHEMA_VERSION, authToken: auth });
+    });
+
+    it('should resume from the last completed step after a failure', async () => {
+      stored = { blockCache: cache, blockIndex: {} };
+      mockStorageLocalSet
+        .mockImplementationOnce(() => {})
+        .mockImplementationOnce(() => {
+          throw new Error('quota');
+        });
+
+      await expect(runMigrations()).rejects.toThrow('quota');
+      expect(stored.schemaVersion).toBe(1);
+
+      await runMigrations();
+      expect(stored.schemaVersion).toBe(SCHEMA_VERSION);
+      expect(stored.blockIndex).toBeUndefined();
+    });
+  });
+
+  describe('version 1: caches without block lists', () => {
+    it('should discard a bloom filter cache and its checkpoint', async () => {
+      stored = {
+        blockCache: {
+          followedUsers: cache.followedUsers,
+          userBlockCaches: { 'did:user1': { did: 'did:user1', bloomFilter: 'AAEC' } },
+          lastFullSync: 1000,
+          currentUserDid: 'did:me',
+        },
+        syncCheckpoint: { userDid: 'did:me', startedAt: 0, lastCompletedChunk: 0 },
+        authToken: auth,
+      };
+
+      await runMigrations();
+
+      expect(Object.keys(stored).sort()).toEqual([
+        'accounts',
+        'activeAccount',
+        'authToken:did:me',
+        'schemaVersion',
+      ]);
+    });
+
+    it('should keep packed caches', async () => {
+      const packed = packBlockCache(cache);
+      stored = { blockCache: packed };
+
+      await runMigrations();
+
+      expect(stored['blockCache:did:me']).toEqual(packed);
+    });
+  });
+
+  describe('version 2: string sync errors', () => {
+    it('should drop errors saved as plain strings', async () => {
+      const error = {
+        did: 'did:user1',
+        handle: 'user1.bsky.social',
+        kind: 'error',
+        message: 'Block list could not be fetched',
+        retryable: true,
+        attempts: 1,
+        timestamp: 1000,
+      };
+      stored = {
+        schemaVersion: 1,
+        authToken: auth,
+        syncStatus: {
+          totalFollows: 2,
+          syncedFollows: 2,
+          lastSync: 0,
+          isRunning: false,
+          lastUpdated: 0,
+          errors: ['Failed to sync user2.bsky.social: timeout', error],
+        },
+      };
+
+      await runMigrations();
+
+      expect((stored['syncStatus:did:me'] as { errors: unknown[] }).errors).toEqual([error]);
+    });
+  });
+
+  describe('version 3: separate block index', () => {
+    it('should remove the index', async () => {
+      stored = { schemaVersion: 2, blockIndex: { 'did:a': ['did:user1'] } };
+
+      await runMigrations();
+
+      expect(stored).toEqual({ schemaVersion: SCHEMA_VERSION });
+    });
+  });
+
+  describe('version 4: packed block caches', () => {
+    it('should pack a plain cache', async () => {
+      stored = { schemaVersion: 3, blockCache: cache };
+
+      await runMigrations();
+
+      expect(stored['blockCache:did:me']).toEqual(packBlockCache(cache));
+    });
+  });
+
+  describe('version 5: data per account', () => {
+    it("should move the logged-in account's data under its DID", async () => {
+      const ledger = { 'did:user1': { lastSynced: 1000, state: 'complete', blockCount: 1 } };
+      stored = { schemaVersion: 4, authToken: auth, syncLedger: ledger, pdsCache: [] };
+
+      await runMigrations();
+
+      expect(stored).toEqual({
+        schemaVersion: SCHEMA_VERSION,
+        'authToken:did:me': auth,
+        'syncLedger:did:me': ledger,
+        activeAccount: 'did:me',
+        accounts: [{ did: 'did:me', handle: 'me.bsky.social' }],
+        pdsCache: [],
+      });
+    });
+
+    it('should give the cache to the account it was synced for', async () => {
+      const packed = packBlockCache(cache);
+      stored = {
+        schemaVersion: 4,
+        authToken: { ...auth, did: 'did:work', handle: 'work.example' },
+        blockCache: packed,
+      };
+
+      await runMigrations();
+
+      expect(stored['blockCache:did:me']).toEqual(packed);
+      expect(stored.activeAccount).toBe('did:work');
+    });
+
+    it("should drop sync data that isn't tied to an account", async () => {
+      stored = { schemaVersion: 4, syncLedger: {} };
+
+      await runMigrations();
+
+      expect(stored).toEqual({ schemaVersion: SCHEMA_VERSION });
+    });
+
+    it("should discard every account's rebuildable data from a newer schema", async () => {
+      stored = {
+        schemaVersion: SCHEMA_VERSION + 1,
+        accounts: [{ did: 'did:me', handle: 'me.bsky.social' }],
+        'authToken:did:me': auth,
+        'syncLedger:did:me': {},
+      };
+
+      await runMigrations();
+
+      expect(stored).not.toHaveProperty('syncLedger:did:me');
+      expect(stored['authToken:did:me']).toEqual(auth);
+    });
+  });
+});
@@ -27,8 +27,11 @@ describe('Options Page', () => {
       <input type="radio" id="display-detailed" name="display-mode" />
       <div id="sync-status"></div>
       <button id="refresh-sync-btn">Refresh</button>
+      <button id="stop-sync-btn">Stop Sync</button>
       <button id="clear-cache-btn">Clear Cache</button>
       <div id="saved-indicator" style="opacity: 0"></div>
+      <input type="checkbox" id="realtime-enabled" />
+      <input type="text" id="jetstream-url" />
     `;
 
     // Default mock implementations
@@ -100,6 +103,39 @@ describe('Options Page', () => {
 
       expect(mockSendMessageFn).toHaveBeenCalledWith({ type: 'TRIGGER_SYNC' });
     });
+
+    it('should populate real-time settings', async () => {
+      vi.mocked(getSettings).mockResolvedValue({
+        displayMode: 'compact',
+        realtimeEnabled: true,
+        jetstreamUrl: 'ws://localhost:6008/subscribe',
+      });
+      mockSendMessageFn.mockResolvedValue({ success: true, syncStatus: { lastSync: 0, totalFollows: 0, syncedFollows: 0, isRunning: false, errors: [] } });
+
+      const { init } = await import('../options.js');
+      await init();
+
+      const realtimeCheckbox = document.getElementById('realtime-enabled') as HTMLInputElement;
+      const jetstreamInput = document.getElementById('jetstream-url') as HTMLInputElement;
+      expect(realtimeCheckbox.checked).toBe(true);
+      expect(jetstreamInput.value).toBe('ws://localhost:6008/subscribe');
+    });
+
+    it('should check the radio of the saved graph scope', async () => {
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        `<input type="radio" id="scope-follows" name="graph-scope" value="follows" />
+        <input type="radio" id="scope-followers" name="graph-scope" value="followers" />`
+      );
+      vi.mocked(getSettings).mockResolvedValue({ displayMode: 'compact', graphScope: 'followers' });
+      mockSendMessageFn.mockResolvedValue({ success: true });
+
+      const { init } = await import('../options.js');
+      await init();
+
+      expect((document.getElementById('scope-followers') as HTMLInputElement).checked).toBe(true);
+      expect((document.getElementById('scope-follows') as HTMLInputElement).checked).toBe(false);
+    });
   });
 
   describe('loadSyncStatus', () => {
@@ -162,7 +198,29 @@ describe('Options Page', () => {
         totalFollows: 100,
         syncedFollows: 50,
         isRunning: false,
-        errors: ['error1', 'error2'],
+        errors: [
+          {
+            did: 'did:user1',
+            handle: 'user1.bsky.social',
+            kind: 'error',
+            message: 'Block list could not be fetched (HTTP 503)',
+            httpStatus: 503,
+            retryable: true,
+            attempts: 2,
+            timestamp: Date.now(),
+            nextRetryAt: Date.now() + 60000,
+          },
+          {
+            did: 'did:user2',
+            handle: 'user2.bsky.social',
+            kind: 'not-found',
+            message: 'Repository not found on its PDS (HTTP 404)',
+            httpStatus: 404,
+            retryable: false,
+            attempts: 1,
+            timestamp: Date.now(),
+          },
+        ],
       };
       mockSendMessageFn.mockResolvedValue({ success: true, syncStatus: mockStatus });
 
@@ -171,6 +229,146 @@ describe('Options Page', () => {
 
       const statusEl = document.getElementById('sync-status')!;
       expect(statusEl.textContent).toContain('Errors: 2');
+
+      const items = statusEl.querySelectorAll('.sync-errors li');
+      expect(items).toHaveLength(2);
+      expect(items[0].textContent).toContain('@user1.bsky.social: Block list could not be fetched');
+      expect(items[0].textContent).toContain('2 attempts, retrying at');
+      expect(items[1].textContent).toContain('1 attempt, not retried');
+    });
+
+    it('should cap the error list', async () => {
+      const errors = Array.from({ length: 25 }, (_, i) => ({
+        did: `did:user${i}`,
+        handle: `user${i}.bsky.social`,
+        kind: 'deactivated',
+        message: 'Account is deactivated or taken down',
+        retryable: false,
+        attempts: 1,
+        timestamp: Date.now(),
+      }));
+      mockSendMessageFn.mockResolvedValue({
+        success: true,
+        syncStatus: { lastSync: 0, totalFollows: 25, syncedFollows: 25, isRunning: false, errors },
+      });
+
+      const { loadSyncStatus } = await import('../options.js');
+      await loadSyncStatus();
+
+      const items = document.querySelectorAll('#sync-status .sync-errors li');
+      expect(items).toHaveLength(21);
+      expect(items[20].textContent).toBe('...and 5 more');
+    });
+
+    it('should show how many follows were checked', async () => {
+      mockSendMessageFn.mockResolvedValue({
+        success: true,
+        syncStatus: {
+          lastSync: 0,
+          totalFollows: 10,
+          syncedFollows: 10,
+          isRunning: false,
+          errors: [],
+        },
+        coverage: { totalFollows: 10, checked: 7, failed: 1, pruned: 0, unsynced: 2 },
+      });
+
+      const { loadSyncStatus } = await import('../options.js');
+      await loadSyncStatus();
+
+      const statusEl = document.getElementById('sync-status')!;
+      expect(statusEl.textContent).toContain(
+        'Checked: 7 of 10 follows (1 failed, 2 not synced yet)'
+      );
+    });
+
+    it('should show follows not indexed due to storage limits', async () => {
+      mockSendMessageFn.mockResolvedValue({
+        success: true,
+        syncStatus: {
+          lastSync: 0,
+          totalFollows: 10,
+          syncedFollows: 10,
+          isRunning: false,
+          errors: [],
+        },
+        coverage: { totalFollows: 10, checked: 7, failed: 0, pruned: 3, unsynced: 0 },
+      });
+
+      const { loadSyncStatus } = await import('../options.js');
+      await loadSyncStatus();
+
+      const statusEl = document.getElementById('sync-status')!;
+      expect(statusEl.textContent).toContain(
+        'Checked: 7 of 10 follows (3 not indexed due to storage limits)'
+      );
+    });
+
+    it('should name the checked accounts after the graph scope', async () => {
+      mockSendMessageFn.mockResolvedValue({
+        success: true,
+        syncStatus: {
+          lastSync: 0,
+          totalFollows: 10,
+          syncedFollows: 10,
+          isRunning: false,
+          errors: [],
+        },
+        coverage: {
+          totalFollows: 10,
+          checked: 10,
+          failed: 0,
+          pruned: 0,
+          unsynced: 0,
+          graphScope: 'union',
+        },
+      });
+
+      const { loadSyncStatus } = await import('../options.js');
+      await loadSyncStatus();
+
+      const statusEl = document.getElementById('sync-status')!;
+      expect(statusEl.textContent).toContain('Checked: 10 of 10 follows and followers');
+    });
+
+    it('should show how the follow list changed', async () => {
+      mockSendMessageFn.mockResolvedValue({
+        success: true,
+        syncStatus: {
+          lastSync: 0,
+          totalFollows: 10,
+          syncedFollows: 10,
+          isRunning: false,
+          errors: [],
+          followDiff: { added: ['did:a', 'did:b'], removed: ['did:c'] },
+        },
+      });
+
+      const { loadSyncStatus } = await import('../options.js');
+      await loadSyncStatus();
+
+      const statusEl = document.getElementById('sync-status')!;
+      expect(statusEl.textContent).toContain('Follow changes: 2 new, 1 unfollowed');
+    });
+
+    it('should show a failed sync', async () => {
+      mockSendMessageFn.mockResolvedValue({
+        success: true,
+        syncStatus: {
+          lastSync: 0,
+          totalFollows: 0,
+          syncedFollows: 0,
+          isRunning: false,
+          errors: [],
+          lastError: 'API error',
+        },
+      });
+
+      const { loadSyncStatus } = await import('../options.js');
+      await loadSyncStatus();
+
+      const statusEl = document.getElementById('sync-status')!;
+      expect(statusEl.textContent).toContain('Last sync failed: API error');
     });
 
     it('should show error message when response fails', async () => {
@@ -239,6 +437,20 @@ describe('Options Page', () => {
       expect(mockSendMessageFn).toHaveBeenCalledTimes(2);
     });
 
+    it('should say so when another sync is already running', async () => {
+      mockSendMessageFn.mockResolvedValue({
+        success: false,
+        error: 'A sync is already running',
+        alreadyRunning: true,
+      });
+
+      const { triggerSync } = await import('../options.js');
+      await triggerSync();
+
+      const statusEl = document.getElementById('sync-status')!;
+      expect(statusEl.textContent).toBe('A sync is already running');
+    });
+
     it('should show error message on failure', async () => {
       mockSendMessageFn.mockRejectedValue(new Error('Sync failed'));
 
@@ -250,6 +462,75 @@ describe('Options Page', () => {
     });
   });
 
+  describe('stopSync', () => {
+    it('should send STOP_SYNC and confirm the stop', async () => {
+      mockSendMessageFn.mockResolvedValue({ success: true });
+
+      const { stopSync } = await import('../options.js');
+      await stopSync();
+
+      expect(mockSendMessageFn).toHaveBeenCalledWith({ type: 'STOP_SYNC' });
+      expect(document.getElementById('sync-status')!.textContent).toBe('Sync stopped');
+    });
+
+    it('should say when there was no sync to stop', async () => {
+      mockSendMessageFn.mockResolvedValue({ success: false, error: 'No sync is running' });
+
+      const { stopSync } = await import('../options.js');
+      await stopSync();
+
+      expect(document.getElementById('sync-status')!.textContent).toBe('No sync is running');
+    });
+  });
+
+  describe('accounts', () => {
+    const accounts = [
+      { did: 'did:personal', handle: 'me.bsky.social' },
+      { did: 'did:work', handle: 'me.work.example' },
+    ];
+
+    beforeEach(() => {
+      document.body.insertAdjacentHTML('beforeend', '<select id="account-select"></select>');
+    });
+
+    it('should list the accounts with the active one selected', async () => {
+      mockSendMessageFn.mockResolvedValue({ success: true, accounts, activeAccount: 'did:work' });
+
+      const { loadAccounts } = await import('../options.js');
+      await loadAccounts();
+
+      const select = document.getElementById('account-select') as HTMLSelectElement;
+      expect(Array.from(select.options).map((o) => o.textContent)).toEqual([
+        '@me.bsky.social',
+        '@me.work.example',
+      ]);
+      expect(select.value).toBe('did:work');
+      expect(select.disabled).toBe(false);
+    });
+
+    it("should switch accounts and show the new account's settings", async () => {
+      mockSendMessageFn.mockImplementation(async (message: { type: string }) =>
+        message.type === 'GET_ACCOUNTS'
+          ? { success: true, accounts, activeAccount: 'did:work' }
+          : { success: true }
+      );
+      vi.mocked(getSettings).mockResolvedValue({ displayMode: 'detailed' });
+
+      const { handleAccountChange } = await import('../options.js');
+      await handleAccountChange('did:work');
+
+      expect(mockSendMessageFn).toHaveBeenCalledWith({
+        type: 'SWITCH_ACCOUNT',
+        accountDid: 'did:work',
+      });
+      expect((document.getElementById('display-detailed') as HTMLInputElement).checked).toBe(
+        true
+      );
+      expect(mockSendMessageFn).toHaveBeenCalledWith({ type: 'GET_SYNC_STATUS' });
+      mockSendMessageFn.mockReset();
+    });
+  });
+
   describe('clearCache', () => {
     it('should send CLEAR_CACHE message', async () => {
       mockSendMessageFn.mockResolvedValue({ success: true });
@@ -317,4 +598,68 @@ describe('Options Page', () => {
       expect(saveSettings).toHaveBeenCalled();
     });
   });
+
+  describe('handleGraphScopeChange', () => {
+    it('should save the graph scope and sync', async () => {
+      vi.mocked(getSettings).mockResolvedValue({ displayMode: 'compact', graphScope: 'follows' });
+      mockSendMessageFn.mockResolvedValue({ success: true });
+
+      const { handleGraphScopeChange } = await import('../options.js');
+      await handleGraphScopeChange('mutuals');
+
+      expect(saveSettings).toHaveBeenCalledWith({ displayMode: 'compact', graphScope: 'mutuals' });
+      expect(mockSendMessageFn).toHaveBeenCalledWith({ type: 'TRIGGER_SYNC' });
+    });
+  });
+
+  describe('handleRealtimeChange', () => {
+    it('should save the real-time toggle', async () => {
+      vi.mocked(getSettings).mockResolvedValue({ displayMode: 'compact', realtimeEnabled: false });
+
+      const { handleRealtimeChange } = await import('../options.js');
+      await handleRealtimeChange(true);
+
+      expect(saveSettings).toHaveBeenCalledWith({ displayMode: 'compact', realtimeEnabled: true });
+    });
+  });
+
+  describe('handleJetstreamUrlChange', () => {
+    it('should save a valid WebSocket URL', async () => {
+      vi.mocked(getSettings).mockResolvedValue({ displayMode: 'compact' });
+      const input = document.getElementById('jetstream-url') as HTMLInputElement;
+      input.value = ' ws://localhost:6008/subscribe ';
+
+      const { handleJetstreamUrlChange } = await import('../options.js');
+      await handleJetstreamUrlChange(input);
+
+      expect(input.value).toBe('ws://localhost:6008/subscribe');
+      expect(saveSettings).toHaveBeenCalledWith({
+        displayMode: 'compact',
+        jetstreamUrl: 'ws://localhost:6008/subscribe',
+      });
+    });
+
+    it('should restore the default endpoint when cleared', async () => {
+      vi.mocked(getSettings).mockResolvedValue({ displayMode: 'compact' });
+      const input = document.getElementById('jetstream-url') as HTMLInputElement;
+      input.value = '';
+
+      const { handleJetstreamUrlChange } = await import('../options.js');
+      await handleJetstreamUrlChange(input);
+
+      expect(input.value).toBe('wss://jetstream2.us-east.bsky.network/subscribe');
+      expect(saveSettings).toHaveBeenCalled();
+    });
+
+    it('should reject non-WebSocket URLs', async () => {
+      const input = document.getElementById('jetstream-url') as HTMLInputElement;
+      input.value = 'https://example.com';
+
+      const { handleJetstreamUrlChange } = await import('../options.js');
+      await handleJetstreamUrlChange(input);
+
+      expect(input.validationMessage).toBe('Must be a ws:// or wss:// URL');
+      expect(saveSettings).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+  acquireToken,
+  blockHost,
+  updateFromHeaders,
+  getRetryDelay,
+  clearRateLimits,
+} from '../ratelimit.js';
+
+describe('Rate Limit Module', () => {
+  beforeEach(() => {
+    clearRateLimits();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Start several acquireToken calls and return a live count of how many have resolved
+   */
+  function startAcquiring(host: string, attempts: number): () => number {
+    let acquired = 0;
+    for (let i = 0; i < attempts; i++) {
+      acquireToken(host).then(() => acquired++);
+    }
+    return () => acquired;
+  }
+
+  describe('acquireToken', () => {
+    it('should allow an initial burst without waiting', async () => {
+      const acquired = startAcquiring('pds.test', 10);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(acquired()).toBe(10);
+    });
+
+    it('should pace requests once the burst is used up', async () => {
+      const acquired = startAcquiring('pds.test', 16);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(acquired()).toBe(10);
+
+      // Default refill is 5 tokens per second
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(acquired()).toBe(15);
+    });
+
+    it('should reject as soon as the signal aborts', async () => {
+      blockHost('pds.test', 60_000);
+      const controller = new AbortController();
+      const acquiring = acquireToken('pds.test', controller.signal);
+      const rejected = expect(acquiring).rejects.toThrow();
+
+      await vi.advanceTimersByTimeAsync(100);
+      controller.abort();
+      await rejected;
+    });
+
+    it('should keep separate buckets per host', async () => {
+      startAcquiring('busy.test', 12);
+      const quiet = startAcquiring('quiet.test', 5);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(quiet()).toBe(5);
+    });
+  });
+
+  describe('blockHost', () => {
+    it('should hold requests until the block expires', async () => {
+      blockHost('pds.test', 2000);
+
+      const acquired = startAcquiring('pds.test', 1);
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(acquired()).toBe(0);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(acquired()).toBe(1);
+    });
+  });
+
+  describe('updateFromHeaders', () => {
+    it('should stop requests until reset when the window is used up', async () => {
+      const resetSeconds = Date.now() / 1000 + 30;
+      updateFromHeaders(
+        'pds.test',
+        new Headers({ 'ratelimit-remaining': '0', 'ratelimit-reset': String(resetSeconds) })
+      );
+
+      const acquired = startAcquiring('pds.test', 1);
+      await vi.advanceTimersByTimeAsync(29000);
+      expect(acquired()).toBe(0);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(acquired()).toBe(1);
+    });
+
+    it('should spread the remaining budget over the time until reset', async () => {
+      const resetSeconds = Date.now() / 1000 + 10;
+      updateFromHeaders(
+        'pds.test',
+        new Headers({ 'ratelimit-remaining': '3', 'ratelimit-reset': String(resetSeconds) })
+      );
+
+      // Burst capped at the remaining budget, then about one request per 3.3s
+      const acquired = startAcquiring('pds.test', 5);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(acquired()).toBe(3);
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(acquired()).toBe(3);
+      await vi.advanceTimersByTimeAsync(400);
+      expect(acquired()).toBe(4);
+    });
+
+    it('should use the sustained rate from ratelimit-policy', async () => {
+      updateFromHeaders(
+        'pds.test',
+        new Headers({ 'ratelimit-limit': '60', 'ratelimit-policy': '60;w=60' })
+      );
+      startAcquiring('pds.test', 10);
+      await vi.advanceTimersByTimeAsync(0);
+
+      // 60 per minute = 1 per second
+      const acquired = startAcquiring('pds.test', 2);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(acquired()).toBe(1);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(acquired()).toBe(2);
+    });
+
+    it('should ignore responses without rate-limit headers', async () => {
+      updateFromHeaders('pds.test', new Headers());
+
+      const acquired = startAcquiring('pds.test', 10);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(acquired()).toBe(10);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should read Retry-After in seconds', () => {
+      expect(getRetryDelay(new Headers({ 'retry-after': '5' }))).toBe(5000);
+    });
+
+    it('should read Retry-After as an HTTP date', () => {
+      const date = new Date(Date.now() + 7000).toUTCString();
+      expect(getRetryDelay(new Headers({ 'retry-after': date }))).toBe(7000);
+    });
+
+    it('should fall back to ratelimit-reset', () => {
+      const resetSeconds = Date.now() / 1000 + 12;
+      expect(getRetryDelay(new Headers({ 'ratelimit-reset': String(resetSeconds) }))).toBe(12000);
+    });
+
+    it('should return null without any hint', () => {
+      expect(getRetryDelay(new Headers())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { createHostScheduler } from '../scheduler.js';
+
+/**
+ * A task that stays running until release() is called
+ */
+function deferredTask(): { task: () => Promise<void>; release: () => void } {
+  let release = () => {};
+  const done = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  return { task: () => done, release };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Scheduler Module', () => {
+  describe('createHostScheduler', () => {
+    it('should limit concurrent tasks per host', async () => {
+      const scheduler = createHostScheduler(() => 2, 10);
+      const tasks = [deferredTask(), deferredTask(), deferredTask()];
+      let started = 0;
+
+      const runs = tasks.map(({ task }) =>
+        scheduler.run('pds.test', () => {
+          started++;
+          return task();
+        })
+      );
+      await flush();
+      expect(started).toBe(2);
+
+      tasks[0].release();
+      await flush();
+      expect(started).toBe(3);
+
+      tasks[1].release();
+      tasks[2].release();
+      await Promise.all(runs);
+    });
+
+    it('should not let a slow host hold up other hosts', async () => {
+      const scheduler = createHostScheduler(() => 1, 10);
+      const slow = deferredTask();
+      scheduler.run('slow.test', slow.task);
+      scheduler.run('slow.test', slow.task);
+
+      const results = await Promise.all([
+        scheduler.run('fast.test', async () => 'a'),
+        scheduler.run('fast.test', async () => 'b'),
+      ]);
+
+      expect(results).toEqual(['a', 'b']);
+      slow.release();
+    });
+
+    it('should respect the global limit and share it between hosts', async () => {
+      const scheduler = createHostScheduler(() => 5, 2);
+      const tasks = [deferredTask(), deferredTask(), deferredTask(), deferredTask()];
+      const started: string[] = [];
+
+      const runs = [
+        scheduler.run('a.test', () => (started.push('a1'), tasks[0].task())),
+        scheduler.run('a.test', () => (started.push('a2'), tasks[1].task())),
+        scheduler.run('a.test', () => (started.push('a3'), tasks[2].task())),
+        scheduler.run('b.test', () => (started.push('b1'), tasks[3].task())),
+      ];
+      await flush();
+      expect(started).toEqual(['a1', 'a2']);
+
+      // Freed slots go to the least busy host, so b.test isn't stuck behind a.test's backlog
+      tasks[0].release();
+      await flush();
+      expect(started).toEqual(['a1', 'a2', 'b1']);
+
+      tasks.forEach((t) => t.release());
+      await Promise.all(runs);
+      expect(started).toHaveLength(4);
+    });
+
+    it('should pass task errors through and keep going', async () => {
+      const scheduler = createHostScheduler(() => 1, 10);
+
+      await expect(
+        scheduler.run('pds.test', async () => {
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+      await expect(scheduler.run('pds.test', async () => 'ok')).resolves.toBe('ok');
+    });
+  });
+});
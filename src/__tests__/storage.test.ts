@@ -1,18 +1,28 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
 
 // Create mock storage functions
 const mockStorageLocalGet = vi.fn();
 const mockStorageLocalSet = vi.fn();
+const mockStorageLocalRemove = vi.fn();
 const mockStorageLocalClear = vi.fn();
 const mockStorageSyncGet = vi.fn();
 const mockStorageSyncSet = vi.fn();
 
+// The active account and account list, read on nearly every call, are answered separately so
+// tests only mock the reads they're about
+let accountData: Record<string, unknown> = {};
+
 // Mock the browser module before importing storage
 vi.mock('../browser.js', () => ({
   storage: {
     local: {
-      get: (keys: string | string[]) => mockStorageLocalGet(keys),
+      get: (keys: string | string[]) =>
+        keys === 'activeAccount' || keys === 'accounts'
+          ? Promise.resolve(keys in accountData ? { [keys]: accountData[keys] } : {})
+          : mockStorageLocalGet(keys),
       set: (items: Record<string, unknown>) => mockStorageLocalSet(items),
+      remove: (keys: string | string[]) => mockStorageLocalRemove(keys),
       clear: () => mockStorageLocalClear(),
     },
     sync: {
@@ -29,16 +39,38 @@ import {
   updateUserBlockCache,
   getSyncStatus,
   updateSyncStatus,
+  getSyncCheckpoint,
+  saveSyncCheckpoint,
+  clearSyncCheckpoint,
+  getPdsCache,
+  savePdsCache,
+  getSyncLedger,
+  saveSyncLedger,
+  getSyncCoverage,
   getStoredAuth,
   storeAuth,
   lookupBlockingInfo,
   getBlockers,
   clearAllData,
+  updateStorage,
+  acquireSyncLease,
+  renewSyncLease,
+  releaseSyncLease,
+  getSyncLease,
+  getActiveAccount,
+  setActiveAccount,
+  getAccounts,
+  getSettings,
+  saveSettings,
 } from '../storage.js';
+import { packBlockCache, unpackBlockCache } from '../blockcodec.js';
+import { openBlockDb, writeBlockCache } from '../blockdb.js';
+import { PackedBlockCache } from '../types.js';
 
 describe('Storage Module', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    accountData = {};
   });
 
   afterEach(() => {
@@ -82,10 +114,32 @@ describe('Storage Module', () => {
       };
 
       await saveBlockCache(mockCache);
+      expect(mockStorageLocalRemove).toHaveBeenCalledWith('blockIndex');
       expect(mockStorageLocalSet).toHaveBeenCalledWith({
-        blockCache: mockCache,
+        blockCache: packBlockCache(mockCache),
       });
     });
+
+    it('should read back a packed cache', async () => {
+      const mockCache = {
+        followedUsers: [{ did: 'did:user1', handle: 'user1.bsky.social' }],
+        userBlockCaches: {
+          'did:user1': {
+            did: 'did:user1',
+            handle: 'user1.bsky.social',
+            blocks: ['did:plc:ewvi7nxzyoun6zhxrhs64oiz', 'did:web:example.com'],
+            lastSynced: 1000,
+          },
+        },
+        lastFullSync: 1000,
+        currentUserDid: 'did:me',
+      };
+
+      await saveBlockCache(mockCache);
+      mockStorageLocalGet.mockResolvedValueOnce(mockStorageLocalSet.mock.calls[0][0]);
+
+      expect(await getBlockCache()).toEqual(mockCache);
+    });
   });
 
   describe('createEmptyCache', () => {
@@ -122,11 +176,13 @@ describe('Storage Module', () => {
         lastSynced: Date.now(),
       };
 
-      await updateUserBlockCache(userCache);
+      await updateUserBlockCache(userCache.did, () => userCache);
 
       expect(mockStorageLocalSet).toHaveBeenCalled();
       const callArg = mockStorageLocalSet.mock.calls[0][0] as Record<string, unknown>;
-      expect((callArg.blockCache as Record<string, unknown>).userBlockCaches).toBeDefined();
+      expect(unpackBlockCache(callArg.blockCache as PackedBlockCache).userBlockCaches).toEqual({
+        'did:user1': userCache,
+      });
     });
 
     it('should handle missing cache gracefully', async () => {
@@ -140,7 +196,7 @@ describe('Storage Module', () => {
         lastSynced: Date.now(),
       };
 
-      await updateUserBlockCache(userCache);
+      await updateUserBlockCache(userCache.did, () => userCache);
       expect(mockStorageLocalSet).not.toHaveBeenCalled();
     });
   });
@@ -175,6 +231,31 @@ describe('Storage Module', () => {
       const status = await getSyncStatus();
       expect(status).toEqual(mockStatus);
     });
+
+    it('should drop errors saved as plain strings by older versions', async () => {
+      const error = {
+        did: 'did:user1',
+        handle: 'user1.bsky.social',
+        kind: 'error',
+        message: 'Block list could not be fetched',
+        retryable: true,
+        attempts: 1,
+        timestamp: 1000,
+      };
+      mockStorageLocalGet.mockResolvedValueOnce({
+        syncStatus: {
+          totalFollows: 2,
+          syncedFollows: 2,
+          lastSync: 0,
+          isRunning: false,
+          lastUpdated: 0,
+          errors: ['Failed to sync user2.bsky.social: timeout', error],
+        },
+      });
+
+      const status = await getSyncStatus();
+      expect(status.errors).toEqual([error]);
+    });
   });
 
   describe('updateSyncStatus', () => {
@@ -210,6 +291,311 @@ describe('Storage Module', () => {
     });
   });
 
+  describe('concurrent writes', () => {
+    let stored: Record<string, unknown>;
+
+    beforeEach(() => {
+      // Storage that takes a tick to answer, so unserialized read-modify-writes interleave
+      stored = {};
+      const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+      mockStorageLocalGet.mockImplementation(async (keys: string | string[]) => {
+        await tick();
+        const list = Array.isArray(keys) ? keys : [keys];
+        return Object.fromEntries(list.filter((k) => k in stored).map((k) => [k, stored[k]]));
+      });
+      mockStorageLocalSet.mockImplementation(async (items: Record<string, unknown>) => {
+        await tick();
+        Object.assign(stored, structuredClone(items));
+      });
+    });
+
+    afterEach(() => {
+      mockStorageLocalGet.mockReset();
+      mockStorageLocalSet.mockReset();
+    });
+
+    it('should apply parallel status updates in call order', async () => {
+      await Promise.all([
+        ...[1, 2, 3, 4, 5].map((n) => updateSyncStatus({ syncedFollows: n })),
+        updateSyncStatus({ totalFollows: 5 }),
+      ]);
+
+      expect(stored.syncStatus).toMatchObject({ syncedFollows: 5, totalFollows: 5 });
+    });
+
+    it('should keep every parallel block list update', async () => {
+      stored.blockCache = packBlockCache(createEmptyCache('did:me'));
+
+      await Promise.all(
+        ['did:user1', 'did:user2', 'did:user3'].map((did) =>
+          updateUserBlockCache(did, () => ({
+            did,
+            handle: did,
+            blocks: ['did:x'],
+            lastSynced: 1000,
+          }))
+        )
+      );
+
+      const cache = unpackBlockCache(stored.blockCache as PackedBlockCache);
+      expect(Object.keys(cache.userBlockCaches).sort()).toEqual([
+        'did:user1',
+        'did:user2',
+        'did:user3',
+      ]);
+    });
+
+    it('should order whole-cache saves after pending updates', async () => {
+      stored.blockCache = packBlockCache(createEmptyCache('did:me'));
+
+      const update = updateUserBlockCache('did:user1', () => ({
+        did: 'did:user1',
+        handle: 'user1',
+        blocks: [],
+        lastSynced: 1000,
+      }));
+      const save = saveBlockCache(createEmptyCache('did:other'));
+      await Promise.all([update, save]);
+
+      expect(unpackBlockCache(stored.blockCache as PackedBlockCache).currentUserDid).toBe(
+        'did:other'
+      );
+    });
+
+    it('should write several keys in one batch', async () => {
+      stored.syncLedger = { 'did:user1': { lastSynced: 1, state: 'complete', blockCount: 0 } };
+
+      await updateStorage(['syncLedger', 'syncCheckpoint'], (current) => ({
+        syncLedger: { ...(current.syncLedger as object), 'did:user2': 'x' },
+        syncCheckpoint: { userDid: 'did:me' },
+      }));
+
+      expect(mockStorageLocalSet).toHaveBeenCalledTimes(1);
+      expect(Object.keys(stored.syncLedger as object)).toEqual(['did:user1', 'did:user2']);
+      expect(stored.syncCheckpoint).toEqual({ userDid: 'did:me' });
+    });
+
+    it('should carry on after a failed update', async () => {
+      const failed = updateStorage(['syncStatus'], () => {
+        throw new Error('boom');
+      });
+      const next = updateSyncStatus({ syncedFollows: 1 });
+
+      await expect(failed).rejects.toThrow('boom');
+      await next;
+      expect(stored.syncStatus).toMatchObject({ syncedFollows: 1 });
+    });
+
+    it('should skip the write when the update returns nothing to set', async () => {
+      await updateStorage(['syncStatus'], () => ({}));
+
+      expect(mockStorageLocalSet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sync lease', () => {
+    let stored: Record<string, unknown>;
+
+    beforeEach(() => {
+      stored = {};
+      const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+      mockStorageLocalGet.mockImplementation(async (keys: string | string[]) => {
+        await tick();
+        const list = Array.isArray(keys) ? keys : [keys];
+        return Object.fromEntries(list.filter((k) => k in stored).map((k) => [k, stored[k]]));
+      });
+      mockStorageLocalSet.mockImplementation(async (items: Record<string, unknown>) => {
+        await tick();
+        Object.assign(stored, structuredClone(items));
+      });
+      mockStorageLocalRemove.mockImplementation(async (key: string) => {
+        delete stored[key];
+      });
+    });
+
+    afterEach(() => {
+      mockStorageLocalGet.mockReset();
+      mockStorageLocalSet.mockReset();
+      mockStorageLocalRemove.mockReset();
+    });
+
+    it('should grant the lease to only one of several concurrent owners', async () => {
+      const granted = await Promise.all(
+        ['a', 'b', 'c'].map((owner) => acquireSyncLease(owner, 60000))
+      );
+
+      expect(granted).toEqual([true, false, false]);
+      expect(await getSyncLease()).toMatchObject({ owner: 'a' });
+    });
+
+    it('should grant an expired lease to a new owner', async () => {
+      stored.syncLease = { owner: 'a', expiresAt: Date.now() - 1 };
+
+      expect(await acquireSyncLease('b', 60000)).toBe(true);
+      expect(await renewSyncLease('a', 60000)).toBe(false);
+    });
+
+    it('should let takeOver decide whether to take an unexpired lease', async () => {
+      stored.syncLease = { owner: 'old:1', expiresAt: Date.now() + 60000 };
+
+      expect(await acquireSyncLease('new:1', 60000, () => false)).toBe(false);
+      expect(await acquireSyncLease('new:1', 60000, (holder) => holder.owner === 'old:1')).toBe(
+        true
+      );
+    });
+
+    it('should extend the lease for its owner only', async () => {
+      stored.syncLease = { owner: 'a', expiresAt: Date.now() + 1000 };
+
+      expect(await renewSyncLease('b', 60000)).toBe(false);
+      expect(await renewSyncLease('a', 60000)).toBe(true);
+      expect((stored.syncLease as { expiresAt: number }).expiresAt).toBeGreaterThan(
+        Date.now() + 30000
+      );
+    });
+
+    it('should release the lease only for its owner', async () => {
+      stored.syncLease = { owner: 'a', expiresAt: Date.now() + 60000 };
+
+      await releaseSyncLease('b');
+      expect(stored.syncLease).toBeDefined();
+
+      await releaseSyncLease('a');
+      expect(stored.syncLease).toBeUndefined();
+    });
+
+    it('should revoke the lease from any owner', async () => {
+      stored.syncLease = { owner: 'a', expiresAt: Date.now() + 60000 };
+
+      await releaseSyncLease();
+
+      expect(await getSyncLease()).toBeNull();
+      expect(await renewSyncLease('a', 60000)).toBe(false);
+    });
+  });
+
+  describe('sync checkpoint', () => {
+    const checkpoint = {
+      userDid: 'did:me',
+      startedAt: 1000,
+      isFullReconcile: false,
+      lastCompletedChunk: 4,
+      pendingDids: ['did:user1'],
+    };
+
+    it('should return the saved checkpoint', async () => {
+      mockStorageLocalGet.mockResolvedValueOnce({ syncCheckpoint: checkpoint });
+
+      expect(await getSyncCheckpoint()).toEqual(checkpoint);
+    });
+
+    it('should return null when no checkpoint exists', async () => {
+      mockStorageLocalGet.mockResolvedValueOnce({});
+
+      expect(await getSyncCheckpoint()).toBeNull();
+    });
+
+    it('should save the checkpoint under its own key', async () => {
+      await saveSyncCheckpoint(checkpoint);
+
+      expect(mockStorageLocalSet).toHaveBeenCalledWith({ syncCheckpoint: checkpoint });
+    });
+
+    it('should remove the checkpoint', async () => {
+      await clearSyncCheckpoint();
+
+      expect(mockStorageLocalRemove).toHaveBeenCalledWith('syncCheckpoint');
+    });
+  });
+
+  describe('PDS cache', () => {
+    const entries = [{ did: 'did:plc:user', pdsUrl: 'https://pds.test', resolvedAt: 1000 }];
+
+    it('should return stored entries', async () => {
+      mockStorageLocalGet.mockResolvedValueOnce({ pdsCache: entries });
+
+      expect(await getPdsCache()).toEqual(entries);
+    });
+
+    it('should return an empty list when nothing is stored', async () => {
+      mockStorageLocalGet.mockResolvedValueOnce({});
+
+      expect(await getPdsCache()).toEqual([]);
+    });
+
+    it('should save entries under their own key', async () => {
+      await savePdsCache(entries);
+
+      expect(mockStorageLocalSet).toHaveBeenCalledWith({ pdsCache: entries });
+    });
+  });
+
+  describe('sync ledger', () => {
+    it('should return an empty ledger when nothing is stored', async () => {
+      mockStorageLocalGet.mockResolvedValueOnce({});
+
+      expect(await getSyncLedger()).toEqual({});
+    });
+
+    it('should save the ledger under its own key', async () => {
+      const ledger = {
+        'did:user1': { lastSynced: 1000, state: 'complete' as const, blockCount: 0 },
+      };
+      await saveSyncLedger(ledger);
+
+      expect(mockStorageLocalSet).toHaveBeenCalledWith({ syncLedger: ledger });
+    });
+  });
+
+  describe('getSyncCoverage', () => {
+    it('should tell checked, failed, pruned and unsynced follows apart', () => {
+      const cache = {
+        followedUsers: [
+          { did: 'did:blocks', handle: 'blocks.bsky.social' },
+          { did: 'did:none', handle: 'none.bsky.social' },
+          { did: 'did:failed', handle: 'failed.bsky.social' },
+          { did: 'did:pruned', handle: 'pruned.bsky.social' },
+          { did: 'did:new', handle: 'new.bsky.social' },
+        ],
+        userBlockCaches: {
+          'did:blocks': {
+            did: 'did:blocks',
+            handle: 'blocks.bsky.social',
+            blocks: ['did:x'],
+            lastSynced: 1000,
+          },
+        },
+        lastFullSync: 1000,
+        currentUserDid: 'did:me',
+        evictedDids: ['did:pruned'],
+      };
+      const ledger = {
+        'did:blocks': { lastSynced: 1000, state: 'complete' as const, blockCount: 1 },
+        'did:none': { lastSynced: 1000, state: 'complete' as const, blockCount: 0 },
+        'did:failed': { lastSynced: 1000, state: 'error' as const, blockCount: 0 },
+        'did:pruned': { lastSynced: 1000, state: 'complete' as const, blockCount: 3 },
+      };
+
+      expect(getSyncCoverage(cache, ledger)).toEqual({
+        totalFollows: 5,
+        checked: 2,
+        failed: 1,
+        pruned: 1,
+        unsynced: 1,
+      });
+    });
+
+    it('should report nothing covered without a cache', () => {
+      expect(getSyncCoverage(null, {})).toEqual({
+        totalFollows: 0,
+        checked: 0,
+        failed: 0,
+        pruned: 0,
+        unsynced: 0,
+      });
+    });
+  });
+
   describe('getStoredAuth', () => {
     it('should return stored auth token', async () => {
       const mockAuth = {
@@ -246,11 +632,110 @@ describe('Storage Module', () => {
         pdsUrl: 'https://pds.test.com',
       };
 
+      mockStorageLocalGet.mockResolvedValueOnce({
+        accounts: [{ did: 'did:user1', handle: 'user1.bsky.social' }],
+      });
+
       await storeAuth(mockAuth);
       expect(mockStorageLocalSet).toHaveBeenCalledWith({
-        authToken: mockAuth,
+        'authToken:did:user2': mockAuth,
+        accounts: [
+          { did: 'did:user1', handle: 'user1.bsky.social' },
+          { did: 'did:user2', handle: 'user2.bsky.social' },
+        ],
       });
     });
+
+    it('should keep stored tokens issued after the incoming ones', async () => {
+      const jwt = (iat: number) =>
+        `header.${btoa(JSON.stringify({ sub: 'did:user2', iat })).replace(/=+$/, '')}.sig`;
+      const refreshed = {
+        accessJwt: jwt(2000),
+        refreshJwt: 'refresh-2',
+        did: 'did:user2',
+        handle: 'user2.bsky.social',
+        pdsUrl: 'https://pds.test.com',
+      };
+      mockStorageLocalGet.mockResolvedValueOnce({ 'authToken:did:user2': refreshed });
+
+      // Read by a bsky.app tab before the refresh
+      await storeAuth({ ...refreshed, accessJwt: jwt(1000), refreshJwt: 'refresh-1' });
+      expect(mockStorageLocalSet).toHaveBeenLastCalledWith(
+        expect.objectContaining({ 'authToken:did:user2': refreshed })
+      );
+
+      mockStorageLocalGet.mockResolvedValueOnce({ 'authToken:did:user2': refreshed });
+      const newer = { ...refreshed, accessJwt: jwt(3000), refreshJwt: 'refresh-3' };
+      await storeAuth(newer);
+      expect(mockStorageLocalSet).toHaveBeenLastCalledWith(
+        expect.objectContaining({ 'authToken:did:user2': newer })
+      );
+    });
+  });
+
+  describe('accounts', () => {
+    it('should have no active account before anyone logs in', async () => {
+      expect(await getActiveAccount()).toBeNull();
+      expect(await getAccounts()).toEqual([]);
+    });
+
+    it("should read and write the active account's copy of its data", async () => {
+      accountData = { activeAccount: 'did:work' };
+      const status = {
+        totalFollows: 3,
+        syncedFollows: 3,
+        lastSync: 1000,
+        isRunning: false,
+        lastUpdated: 1000,
+        errors: [],
+      };
+      mockStorageLocalGet.mockResolvedValueOnce({ 'syncStatus:did:work': status });
+
+      expect(await getSyncStatus()).toEqual(status);
+      expect(mockStorageLocalGet).toHaveBeenCalledWith('syncStatus:did:work');
+
+      await saveSyncLedger({});
+      await clearSyncCheckpoint();
+      expect(mockStorageLocalSet).toHaveBeenCalledWith({ 'syncLedger:did:work': {} });
+      expect(mockStorageLocalRemove).toHaveBeenCalledWith('syncCheckpoint:did:work');
+    });
+
+    it('should keep the lease and PDS cache shared by every account', async () => {
+      accountData = { activeAccount: 'did:work' };
+      mockStorageLocalGet.mockResolvedValueOnce({});
+
+      await savePdsCache([]);
+      expect(await getSyncLease()).toBeNull();
+      expect(mockStorageLocalSet).toHaveBeenCalledWith({ pdsCache: [] });
+      expect(mockStorageLocalGet).toHaveBeenCalledWith('syncLease');
+    });
+
+    it('should activate an account', async () => {
+      await setActiveAccount('did:work');
+      expect(mockStorageLocalSet).toHaveBeenCalledWith({ activeAccount: 'did:work' });
+    });
+
+    it("should layer the account's settings over the shared ones", async () => {
+      accountData = { activeAccount: 'did:work' };
+      mockStorageSyncGet.mockResolvedValueOnce({
+        settings: { displayMode: 'detailed', realtimeEnabled: true },
+        'settings:did:work': { displayMode: 'compact' },
+      });
+
+      const settings = await getSettings();
+      expect(mockStorageSyncGet).toHaveBeenCalledWith(['settings', 'settings:did:work']);
+      expect(settings).toMatchObject({ displayMode: 'compact', realtimeEnabled: true });
+
+      await saveSettings(settings);
+      expect(mockStorageSyncSet).toHaveBeenCalledWith({ 'settings:did:work': settings });
+    });
+
+    it('should use the shared settings with no active account', async () => {
+      mockStorageSyncGet.mockResolvedValueOnce({ settings: { displayMode: 'detailed' } });
+
+      expect((await getSettings()).displayMode).toBe('detailed');
+      expect(mockStorageSyncGet).toHaveBeenCalledWith('settings');
+    });
   });
 
   describe('getBlockers', () => {
@@ -288,6 +773,40 @@ describe('Storage Module', () => {
       expect(blockers[0].handle).toBe('user1.bsky.social');
     });
 
+    it('should look blockers up in a packed cache', async () => {
+      mockStorageLocalGet.mockResolvedValueOnce({
+        blockCache: packBlockCache({
+          followedUsers: [
+            { did: 'did:user1', handle: 'user1.bsky.social' },
+            { did: 'did:user2', handle: 'user2.bsky.social' },
+          ],
+          userBlockCaches: {
+            'did:user1': {
+              did: 'did:user1',
+              handle: 'user1.bsky.social',
+              displayName: 'User 1',
+              blocks: ['did:plc:ewvi7nxzyoun6zhxrhs64oiz'],
+              lastSynced: Date.now(),
+            },
+            'did:user2': {
+              did: 'did:user2',
+              handle: 'user2.bsky.social',
+              blocks: ['did:plc:z72i7hdynmk6r22z27h6tvur'],
+              lastSynced: Date.now(),
+            },
+          },
+          lastFullSync: Date.now(),
+          currentUserDid: 'did:me',
+        }),
+      });
+
+      const blockers = await getBlockers('did:plc:ewvi7nxzyoun6zhxrhs64oiz');
+
+      expect(blockers).toEqual([
+        { did: 'did:user1', handle: 'user1.bsky.social', displayName: 'User 1' },
+      ]);
+    });
+
     it('should return empty array when no cache exists', async () => {
       mockStorageLocalGet.mockResolvedValueOnce({});
 
@@ -375,6 +894,84 @@ describe('Storage Module', () => {
       expect(result.blocking[0].handle).toBe('user1.bsky.social');
     });
 
+    it('should report the relationship of each user and the graph scope', async () => {
+      mockStorageLocalGet.mockResolvedValue({
+        blockCache: {
+          followedUsers: [
+            { did: 'did:user1', handle: 'user1.bsky.social', relation: 'mutual' },
+            { did: 'did:user2', handle: 'user2.bsky.social', relation: 'follower' },
+          ],
+          userBlockCaches: {
+            'did:user2': {
+              did: 'did:user2',
+              handle: 'user2.bsky.social',
+              blocks: ['did:profile'],
+              lastSynced: Date.now(),
+            },
+          },
+          lastFullSync: Date.now(),
+          currentUserDid: 'did:me',
+          graphScope: 'union',
+        },
+      });
+
+      const result = await lookupBlockingInfo('did:profile', ['did:user1']);
+
+      expect(result.blockedBy).toEqual([
+        expect.objectContaining({ did: 'did:user2', relation: 'follower' }),
+      ]);
+      expect(result.blocking).toEqual([
+        expect.objectContaining({ did: 'did:user1', relation: 'mutual' }),
+      ]);
+      expect(result.graphScope).toBe('union');
+    });
+
+    it('should group follows blocking the profile through moderation lists by list', async () => {
+      const spamList = 'at://did:owner/app.bsky.graph.list/3kspam';
+      const otherList = 'at://did:owner/app.bsky.graph.list/3kother';
+      mockStorageLocalGet.mockResolvedValue({
+        blockCache: {
+          followedUsers: [
+            { did: 'did:user1', handle: 'user1.bsky.social' },
+            { did: 'did:user2', handle: 'user2.bsky.social' },
+          ],
+          userBlockCaches: {},
+          lastFullSync: Date.now(),
+          currentUserDid: 'did:me',
+        },
+        listBlocks: {
+          subscriptions: {
+            'did:user1': [spamList],
+            'did:user2': [spamList, otherList],
+            'did:unfollowed': [spamList],
+          },
+          lists: {
+            [spamList]: {
+              uri: spamList,
+              name: 'Spam',
+              members: ['did:profile'],
+              lastSynced: Date.now(),
+            },
+            [otherList]: { uri: otherList, members: ['did:someone'], lastSynced: Date.now() },
+          },
+        },
+      });
+
+      const result = await lookupBlockingInfo('did:profile', []);
+
+      expect(result.blockedBy).toEqual([]);
+      expect(result.blockedViaLists).toEqual([
+        {
+          listUri: spamList,
+          listName: 'Spam',
+          blockedBy: [
+            { did: 'did:user1', handle: 'user1.bsky.social' },
+            { did: 'did:user2', handle: 'user2.bsky.social' },
+          ],
+        },
+      ]);
+    });
+
     it('should return empty arrays when no cache exists', async () => {
       mockStorageLocalGet.mockResolvedValue({});
 
@@ -409,6 +1006,76 @@ describe('Storage Module', () => {
       expect(result.blockedBy).toHaveLength(1);
       expect(result.blocking).toHaveLength(1);
     });
+
+    it('should count follows whose block lists could not be read', async () => {
+      const mockCache = {
+        followedUsers: [
+          { did: 'did:user1', handle: 'user1.bsky.social' },
+          { did: 'did:user2', handle: 'user2.bsky.social' },
+          { did: 'did:user3', handle: 'user3.bsky.social' },
+        ],
+        userBlockCaches: {
+          'did:user1': {
+            did: 'did:user1',
+            handle: 'user1.bsky.social',
+            blocks: ['did:other'],
+            lastSynced: Date.now(),
+          },
+          'did:user2': {
+            did: 'did:user2',
+            handle: 'user2.bsky.social',
+            blocks: [],
+            lastSynced: Date.now(),
+            fetchState: 'deactivated' as const,
+            httpStatus: 400,
+          },
+          'did:user3': {
+            did: 'did:user3',
+            handle: 'user3.bsky.social',
+            blocks: ['did:profile'],
+            lastSynced: Date.now(),
+            fetchState: 'partial' as const,
+            httpStatus: 502,
+          },
+        },
+        lastFullSync: Date.now(),
+        currentUserDid: 'did:me',
+      };
+      mockStorageLocalGet.mockResolvedValue({ blockCache: mockCache });
+
+      const result = await lookupBlockingInfo('did:profile', []);
+
+      expect(result.uncheckedCount).toBe(2);
+      expect(result.blockedBy).toHaveLength(1);
+    });
+
+    it('should count follows evicted to fit storage limits', async () => {
+      mockStorageLocalGet.mockResolvedValueOnce({
+        blockCache: packBlockCache({
+          followedUsers: [
+            { did: 'did:user1', handle: 'user1.bsky.social' },
+            { did: 'did:user2', handle: 'user2.bsky.social' },
+          ],
+          userBlockCaches: {
+            'did:user1': {
+              did: 'did:user1',
+              handle: 'user1.bsky.social',
+              blocks: ['did:profile'],
+              lastSynced: Date.now(),
+            },
+          },
+          lastFullSync: Date.now(),
+          currentUserDid: 'did:me',
+          // did:unfollowed was evicted, then unfollowed
+          evictedDids: ['did:user2', 'did:unfollowed'],
+        }),
+      });
+
+      const result = await lookupBlockingInfo('did:profile', []);
+
+      expect(result.unindexedCount).toBe(1);
+      expect(result.blockedBy).toHaveLength(1);
+    });
   });
 
   describe('clearAllData', () => {
@@ -419,4 +1086,285 @@ describe('Storage Module', () => {
       expect(mockStorageLocalClear).toHaveBeenCalled();
     });
   });
+
+  describe('with IndexedDB', () => {
+    const legacyCache = {
+      followedUsers: [{ did: 'did:user1', handle: 'user1.bsky.social' }],
+      userBlockCaches: {
+        'did:user1': {
+          did: 'did:user1',
+          handle: 'user1.bsky.social',
+          blocks: ['did:profile'],
+          lastSynced: 1000,
+        },
+      },
+      lastFullSync: 1000,
+      currentUserDid: 'did:me',
+    };
+
+    beforeEach(() => {
+      // A fresh module instance, so the block store is opened against this database
+      vi.resetModules();
+      globalThis.indexedDB = new IDBFactory();
+      globalThis.IDBKeyRange = IDBKeyRange;
+    });
+
+    afterEach(() => {
+      delete (globalThis as { indexedDB?: IDBFactory }).indexedDB;
+    });
+
+    it('should move a cache saved by older versions into IndexedDB', async () => {
+      mockStorageLocalGet.mockResolvedValueOnce({ blockCache: legacyCache });
+      const storageModule = await import('../storage.js');
+
+      expect(await storageModule.getBlockCache()).toEqual(legacyCache);
+      expect(mockStorageLocalRemove).toHaveBeenCalledWith(['blockCache', 'blockIndex']);
+      expect(await storageModule.isBlockCacheSizeLimited()).toBe(false);
+
+      const info = await storageModule.lookupBlockingInfo('did:profile', []);
+      expect(info.blockedBy).toEqual([{ did: 'did:user1', handle: 'user1.bsky.social' }]);
+    });
+
+    it('should unpack a packed cache when moving it', async () => {
+      mockStorageLocalGet.mockResolvedValueOnce({ blockCache: packBlockCache(legacyCache) });
+      const storageModule = await import('../storage.js');
+
+      expect(await storageModule.getBlockCache()).toEqual(legacyCache);
+    });
+
+    it('should keep block data out of storage.local', async () => {
+      mockStorageLocalGet.mockResolvedValueOnce({});
+      const storageModule = await import('../storage.js');
+
+      await storageModule.saveBlockCache(legacyCache);
+      await storageModule.updateUserBlockCache('did:user1', (user, existing) => {
+        expect(user).toEqual(legacyCache.followedUsers[0]);
+        return { ...existing!, blocks: ['did:other'] };
+      });
+      expect((await storageModule.getUserBlockCache('did:user1'))?.blocks).toEqual(['did:other']);
+
+      expect(mockStorageLocalSet).not.toHaveBeenCalled();
+      expect(await storageModule.getBlockers('did:other')).toHaveLength(1);
+      expect(await storageModule.getBlockers('did:profile')).toEqual([]);
+    });
+
+    it("should apply a user's update after a save queued before it", async () => {
+      mockStorageLocalGet.mockResolvedValue({});
+      const storageModule = await import('../storage.js');
+      await storageModule.saveBlockCache(legacyCache);
+
+      const cache = structuredClone(legacyCache);
+      cache.userBlockCaches['did:user1'].blocks = ['did:synced'];
+      const save = storageModule.saveBlockCache(cache, ['did:user1']);
+      const update = storageModule.updateUserBlockCache('did:user1', (_user, existing) => ({
+        ...existing!,
+        blocks: ['did:live', ...existing!.blocks],
+      }));
+      await Promise.all([save, update]);
+
+      expect((await storageModule.getUserBlockCache('did:user1'))?.blocks).toEqual([
+        'did:live',
+        'did:synced',
+      ]);
+      mockStorageLocalGet.mockReset();
+    });
+
+    it('should only write the block lists named, and the follow list on its own', async () => {
+      mockStorageLocalGet.mockResolvedValueOnce({}).mockResolvedValueOnce({});
+      const storageModule = await import('../storage.js');
+      await storageModule.saveBlockCache(legacyCache);
+
+      const user2 = { did: 'did:user2', handle: 'user2.bsky.social' };
+      const cache = structuredClone(legacyCache);
+      cache.followedUsers.push(user2);
+      cache.userBlockCaches['did:user1'].blocks = [];
+      await storageModule.saveFollowList(cache, []);
+      expect((await storageModule.getBlockCache())?.followedUsers).toEqual([
+        ...legacyCache.followedUsers,
+        user2,
+      ]);
+      expect(await storageModule.getBlockers('did:profile')).toHaveLength(1);
+
+      await storageModule.saveBlockCache(cache, ['did:user1']);
+      expect(await storageModule.getBlockers('did:profile')).toEqual([]);
+
+      await storageModule.clearBlockCache();
+      expect(await storageModule.getBlockCache()).toBeNull();
+    });
+
+    it("should keep each account's block lists in its own database", async () => {
+      // Saved by an older version, to the database shared by every account
+      const shared = await openBlockDb();
+      await writeBlockCache(shared, legacyCache);
+      shared.close();
+      mockStorageLocalGet.mockResolvedValue({});
+      const storageModule = await import('../storage.js');
+
+      accountData = { activeAccount: 'did:me' };
+      expect(await storageModule.getBlockCache()).toEqual(legacyCache);
+
+      accountData = { activeAccount: 'did:other' };
+      expect(await storageModule.getBlockCache()).toBeNull();
+      expect(await storageModule.getBlockers('did:profile')).toEqual([]);
+
+      accountData = { activeAccount: 'did:me' };
+      expect(await storageModule.getBlockers('did:profile')).toHaveLength(1);
+      mockStorageLocalGet.mockReset();
+    });
+
+    it('should find moderation lists through the member index', async () => {
+      const spamList = 'at://did:owner/app.bsky.graph.list/3kspam';
+      const stored: Record<string, unknown> = {};
+      mockStorageLocalGet.mockImplementation(async (key: string) =>
+        key in stored ? { [key]: stored[key] } : {}
+      );
+      mockStorageLocalSet.mockImplementation(async (items: Record<string, unknown>) => {
+        Object.assign(stored, items);
+      });
+      const storageModule = await import('../storage.js');
+
+      await storageModule.saveBlockCache(legacyCache);
+      await storageModule.saveListBlockCache({
+        subscriptions: { 'did:user1': [spamList] },
+        lists: {
+          [spamList]: { uri: spamList, name: 'Spam', members: ['did:spammer'], lastSynced: 1 },
+        },
+      });
+
+      // Neither the lists nor who subscribes to them go to storage.local
+      expect(stored).toEqual({});
+      const info = await storageModule.lookupBlockingInfo('did:spammer', []);
+      expect(info.blockedViaLists).toEqual([
+        {
+          listUri: spamList,
+          listName: 'Spam',
+          blockedBy: [{ did: 'did:user1', handle: 'user1.bsky.social' }],
+        },
+      ]);
+      expect((await storageModule.getListBlockCache()).lists[spamList].members).toEqual([
+        'did:spammer',
+      ]);
+
+      mockStorageLocalRemove.mockImplementation(async (key: string) => {
+        delete stored[key];
+      });
+      await storageModule.clearListBlockCache();
+      expect(await storageModule.getListBlockCache()).toEqual({ subscriptions: {}, lists: {} });
+      expect((await storageModule.lookupBlockingInfo('did:spammer', [])).blockedViaLists).toEqual(
+        []
+      );
+      mockStorageLocalGet.mockReset();
+      mockStorageLocalSet.mockReset();
+      mockStorageLocalRemove.mockReset();
+    });
+
+    it('should give back an interrupted listing only if every page was saved', async () => {
+      mockStorageLocalGet.mockResolvedValue({});
+      const storageModule = await import('../storage.js');
+      const alice = { did: 'did:alice', handle: 'alice.bsky.social' };
+      const bob = { did: 'did:bob', handle: 'bob.bsky.social' };
+
+      await storageModule.saveGraphListingPage('follows', 0, [alice]);
+      await storageModule.saveGraphListingPage('follows', 1, [bob]);
+      expect(await storageModule.getGraphListing('follows', 2)).toEqual([alice, bob]);
+      // A page saved after the checkpoint is left out
+      expect(await storageModule.getGraphListing('follows', 1)).toEqual([alice]);
+      expect(await storageModule.getGraphListing('follows', 3)).toBeNull();
+
+      await storageModule.clearGraphListing();
+      expect(await storageModule.getGraphListing('follows', 2)).toBeNull();
+      mockStorageLocalGet.mockReset();
+    });
+
+    it('should keep the sync ledger and pending accounts in IndexedDB', async () => {
+      const stored: Record<string, unknown> = {};
+      mockStorageLocalGet.mockImplementation(async (key: string) =>
+        key in stored ? { [key]: stored[key] } : {}
+      );
+      mockStorageLocalSet.mockImplementation(async (items: Record<string, unknown>) => {
+        Object.assign(stored, items);
+      });
+      mockStorageLocalRemove.mockImplementation(async (key: string) => {
+        delete stored[key];
+      });
+      const storageModule = await import('../storage.js');
+
+      await storageModule.saveSyncLedger({
+        'did:user1': { lastSynced: 1, state: 'complete' as const, blockCount: 2 },
+        'did:user2': { lastSynced: 1, state: 'complete' as const, blockCount: 0 },
+      });
+      await storageModule.saveSyncLedger(
+        { 'did:user2': { lastSynced: 2, state: 'complete' as const, blockCount: 1 } },
+        ['did:user1', 'did:user2']
+      );
+      expect(await storageModule.getSyncLedger()).toEqual({
+        'did:user2': { lastSynced: 2, state: 'complete' as const, blockCount: 1 },
+      });
+
+      const checkpoint = {
+        userDid: 'did:me',
+        startedAt: 1,
+        isFullReconcile: false,
+        lastCompletedChunk: -1,
+        pendingDids: ['did:user2', 'did:user1', 'did:user3'],
+      };
+      await storageModule.saveSyncCheckpoint(checkpoint);
+      expect(stored.syncCheckpoint).toEqual({
+        userDid: 'did:me',
+        startedAt: 1,
+        isFullReconcile: false,
+        lastCompletedChunk: -1,
+        pendingInBlockDb: true,
+      });
+      await storageModule.saveSyncCheckpoint(
+        { ...checkpoint, lastCompletedChunk: 0, pendingDids: ['did:user3'] },
+        ['did:user2', 'did:user1']
+      );
+      expect(await storageModule.getSyncCheckpoint()).toEqual({
+        ...checkpoint,
+        lastCompletedChunk: 0,
+        pendingDids: ['did:user3'],
+      });
+
+      await storageModule.clearSyncCheckpoint();
+      expect(await storageModule.getSyncCheckpoint()).toBeNull();
+      expect(stored).toEqual({});
+      mockStorageLocalGet.mockReset();
+      mockStorageLocalSet.mockReset();
+      mockStorageLocalRemove.mockReset();
+    });
+
+    it('should move sync state saved by older versions into IndexedDB', async () => {
+      const spamList = 'at://did:owner/app.bsky.graph.list/3kspam';
+      const ledger = { 'did:user1': { lastSynced: 1, state: 'complete' as const, blockCount: 2 } };
+      mockStorageLocalGet.mockResolvedValueOnce({}).mockResolvedValueOnce({
+        syncLedger: ledger,
+        syncCheckpoint: {
+          userDid: 'did:me',
+          startedAt: 1,
+          isFullReconcile: true,
+          lastCompletedChunk: 0,
+          pendingDids: ['did:user1'],
+        },
+        listBlocks: { subscriptions: { 'did:user1': [spamList] } },
+      });
+      const storageModule = await import('../storage.js');
+
+      expect(await storageModule.getSyncLedger()).toEqual(ledger);
+      expect(mockStorageLocalRemove).toHaveBeenCalledWith('syncLedger');
+      expect(mockStorageLocalRemove).toHaveBeenCalledWith('listBlocks');
+      expect(mockStorageLocalSet).toHaveBeenCalledWith({
+        syncCheckpoint: {
+          userDid: 'did:me',
+          startedAt: 1,
+          isFullReconcile: true,
+          lastCompletedChunk: 0,
+          pendingInBlockDb: true,
+        },
+      });
+      expect((await storageModule.getListBlockCache()).subscriptions).toEqual({
+        'did:user1': [spamList],
+      });
+    });
+  });
 });
@@ -9,9 +9,17 @@ import {
   Profile,
   FollowedUser,
   GetFollowsResponse,
+  GetFollowersResponse,
+  GetListRecordResponse,
+  ListFetchResult,
   ListRecordsResponse,
   PlcDocument,
+  PdsCacheEntry,
+  BlockFetchResult,
+  BlockFetchState,
+  RefreshSessionResponse,
 } from './types.js';
+import { acquireToken, blockHost, getRetryDelay, updateFromHeaders } from './ratelimit.js';
 
 // Public Bluesky API endpoint (AppView)
 const BSKY_PUBLIC_API = 'https://public.api.bsky.app';
@@ -20,33 +28,69 @@ const BSKY_PDS_DEFAULT = 'https://bsky.social';
 // PLC directory for DID resolution
 const PLC_DIRECTORY = 'https://plc.directory';
 
-// In-memory PDS URL cache to avoid repeated resolution during a session
-const pdsCache = new Map<string, string>();
+// Resolutions older than this are looked up again
+const PDS_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// listRecords errors meaning the repo may have moved to another PDS
+const MOVED_REPO_ERRORS = ['RepoNotFound', 'RepoDeactivated'];
+// listRecords errors for repos that exist but can't be read
+const DEACTIVATED_REPO_ERRORS = ['RepoDeactivated', 'RepoTakendown', 'RepoSuspended'];
+
+// In-memory PDS URL cache, persisted by the background script between restarts
+const pdsCache = new Map<string, PdsCacheEntry>();
+
+// Where an authenticated client reads the session from, and saves it to once refreshed
+export interface SessionStore {
+  load(): Promise<BskySession | null>;
+  save(session: BskySession): Promise<void>;
+}
+
+export interface XrpcClient {
+  query<T>(nsid: string, params?: Record<string, string>, signal?: AbortSignal): Promise<T>;
+  procedure<T>(nsid: string, body?: unknown, signal?: AbortSignal): Promise<T>;
+}
 
 /**
  * Populate the PDS cache from stored data
- * Called by background script on startup
+ * Called by background script on startup. Expired entries are skipped, and entries
+ * already in memory are only replaced by newer ones.
  */
-export function populatePdsCache(entries: Array<{ did: string; pdsUrl: string }>): void {
+export function populatePdsCache(entries: PdsCacheEntry[]): void {
   for (const entry of entries) {
-    if (entry.pdsUrl) {
-      pdsCache.set(entry.did, entry.pdsUrl);
+    if (!entry.pdsUrl || isExpired(entry)) continue;
+    const existing = pdsCache.get(entry.did);
+    if (!existing || existing.resolvedAt < entry.resolvedAt) {
+      pdsCache.set(entry.did, entry);
     }
   }
 }
 
 /**
- * Get cached PDS URL if available
+ * Get all unexpired PDS cache entries (for persisting)
+ */
+export function getPdsCacheEntries(): PdsCacheEntry[] {
+  return [...pdsCache.values()].filter((entry) => !isExpired(entry));
+}
+
+/**
+ * Get cached PDS URL if available and not expired
  */
 export function getCachedPds(did: string): string | undefined {
-  return pdsCache.get(did);
+  const entry = pdsCache.get(did);
+  return entry && !isExpired(entry) ? entry.pdsUrl : undefined;
 }
 
 /**
  * Cache a PDS URL for a DID
  */
 export function cachePds(did: string, pdsUrl: string): void {
-  pdsCache.set(did, pdsUrl);
+  pdsCache.set(did, { did, pdsUrl, resolvedAt: Date.now() });
+}
+
+/**
+ * Forget a DID's PDS (the account has moved)
+ */
+export function invalidatePds(did: string): void {
+  pdsCache.delete(did);
 }
 
 /**
@@ -56,6 +100,10 @@ export function clearPdsCache(): void {
   pdsCache.clear();
 }
 
+function isExpired(entry: PdsCacheEntry): boolean {
+  return Date.now() - entry.resolvedAt > PDS_CACHE_TTL_MS;
+}
+
 // Helper to safely access localStorage
 const getLocalStorage = () => {
   if (typeof window !== 'undefined' && window.localStorage) {
@@ -138,41 +186,86 @@ export function getSession(): BskySession | null {
 }
 
 /**
- * Resolve a DID to its PDS URL via PLC directory
- * Uses in-memory cache to avoid repeated lookups
+ * Resolve a DID to its PDS URL via PLC directory (did:plc) or the domain's
+ * did.json (did:web)
+ * Uses in-memory cache to avoid repeated lookups. Returns null if the DID has no document
+ * or no PDS in it; transient failures (network errors, 429s after retrying, server errors)
+ * throw, so the lookup can be retried.
  */
-export async function resolvePds(did: string): Promise<string | null> {
-  try {
-    if (!did.startsWith('did:plc:')) {
-      return null;
-    }
-
-    // Check cache first
-    const cached = pdsCache.get(did);
-    if (cached) {
-      return cached;
-    }
-
-    const response = await fetch(`${PLC_DIRECTORY}/${did}`);
-    if (!response.ok) return null;
+export async function resolvePds(did: string, signal?: AbortSignal): Promise<string | null> {
+  const docUrl = getDidDocumentUrl(did);
+  if (!docUrl) {
+    return null;
+  }
 
-    const doc = (await response.json()) as PlcDocument;
-    const pds = doc.service?.find((s) => s.id === '#atproto_pds');
-    const pdsUrl = pds?.serviceEndpoint || null;
+  // Check cache first
+  const cached = getCachedPds(did);
+  if (cached) {
+    return cached;
+  }
 
-    // Cache the result
-    if (pdsUrl) {
-      pdsCache.set(did, pdsUrl);
-    }
+  const response = await fetchWithRetry(docUrl, { signal });
+  if (response.status === 429 || response.status >= 500) {
+    throw new Error(`Could not read the DID document of ${did} (HTTP ${response.status})`);
+  }
+  if (!response.ok) return null;
 
-    return pdsUrl;
+  let doc: PlcDocument;
+  try {
+    doc = (await response.json()) as PlcDocument;
   } catch {
     return null;
   }
+  // did:web documents may use the full "did:web:...#atproto_pds" form
+  const pds = doc.service?.find((s) => s.id === '#atproto_pds' || s.id === `${did}#atproto_pds`);
+  const pdsUrl = pds?.serviceEndpoint || null;
+
+  // Cache the result
+  if (pdsUrl) {
+    cachePds(did, pdsUrl);
+  }
+
+  return pdsUrl;
 }
 
 /**
- * Fetch with retry and exponential backoff
+ * Get the URL of a DID's document
+ * did:web:example.com maps to https://example.com/.well-known/did.json, and
+ * did:web:example.com:u:alice to https://example.com/u/alice/did.json
+ */
+export function getDidDocumentUrl(did: string): string | null {
+  if (did.startsWith('did:plc:')) {
+    return `${PLC_DIRECTORY}/${did}`;
+  }
+  if (did.startsWith('did:web:')) {
+    const [host, ...path] = did.slice('did:web:'.length).split(':').map(decodeURIComponent);
+    if (!host) return null;
+    return path.length > 0
+      ? `https://${host}/${path.join('/')}/did.json`
+      : `https://${host}/.well-known/did.json`;
+  }
+  return null;
+}
+
+/**
+ * Resolve the PDS to read a user's repo from, falling back to the default PDS
+ * A did:web account never lives on the default PDS, so failing to resolve one throws
+ * (its domain may be unreachable, or not allow cross-origin reads of did.json).
+ */
+export async function resolvePdsOrDefault(did: string, signal?: AbortSignal): Promise<string> {
+  const pds = await resolvePds(did, signal);
+  if (!pds && did.startsWith('did:web:')) {
+    throw new Error(`Could not resolve the PDS of ${did} from ${getDidDocumentUrl(did)}`);
+  }
+  return (pds || BSKY_PDS_DEFAULT).replace(/\/+$/, '');
+}
+
+/**
+ * Fetch with per-host rate limiting and retry
+ * Requests wait for a token from the host's bucket. On 429 the host is held for as long
+ * as Retry-After/ratelimit-reset asks (falling back to exponential backoff); network
+ * errors retry with exponential backoff. Aborting options.signal stops the retries, and
+ * ends any wait for a token or a backoff straight away.
  */
 export async function fetchWithRetry(
   url: string,
@@ -180,22 +273,153 @@ export async function fetchWithRetry(
   retries = 3,
   backoff = 1000
 ): Promise<Response> {
+  const host = new URL(url).host;
+  const signal = options.signal ?? undefined;
   try {
+    await acquireToken(host, signal);
     const response = await fetch(url, options);
+    updateFromHeaders(host, response.headers);
+
     if (response.status === 429 && retries > 0) {
-      await sleep(backoff);
+      blockHost(host, getRetryDelay(response.headers) ?? backoff);
       return fetchWithRetry(url, options, retries - 1, backoff * 2);
     }
     return response;
   } catch (error) {
-    if (retries > 0) {
-      await sleep(backoff);
+    if (retries > 0 && !options.signal?.aborted) {
+      await sleep(backoff, signal);
       return fetchWithRetry(url, options, retries - 1, backoff * 2);
     }
     throw error;
   }
 }
 
+/**
+ * Create an XRPC client that calls the logged-in account's PDS with its access token
+ * When the PDS says the access token has expired, the call is sent again with newer tokens
+ * from store if there are any. Otherwise a session the extension owns is refreshed with its
+ * refresh token and the rotated tokens are saved to store. A refresh token can only be used
+ * once, so concurrent calls share one refresh, and the session picked up from bsky.app is
+ * never refreshed (its tab would be logged out). Queries that can't get a fresh session are
+ * sent without a token, reading public records instead.
+ */
+export function createXrpcClient(store: SessionStore): XrpcClient {
+  let refreshing: Promise<BskySession> | null = null;
+
+  const refresh = (expired: BskySession): Promise<BskySession> => {
+    refreshing ??= (async () => {
+      // Tokens may have changed since the call started (refreshed by another call, or pushed
+      // by a bsky.app tab)
+      const current = await store.load();
+      if (current && current.did === expired.did && current.accessJwt !== expired.accessJwt) {
+        return current;
+      }
+      if (!expired.ownedByExtension) {
+        throw new Error('Session expired and is shared with bsky.app, which has to refresh it');
+      }
+      const refreshed = await refreshSession(expired);
+      await store.save(refreshed);
+      console.log('[AskBeeves API] Refreshed session for', refreshed.did);
+      return refreshed;
+    })().finally(() => {
+      refreshing = null;
+    });
+    return refreshing;
+  };
+
+  const call = async <T>(nsid: string, request: XrpcRequest): Promise<T> => {
+    const session = await store.load();
+    if (!session) {
+      throw new Error('Not logged in');
+    }
+
+    let response = await sendXrpc(session.pdsUrl, session.accessJwt, nsid, request);
+    if (!response.ok && (await getXrpcError(response.clone())) === 'ExpiredToken') {
+      let refreshed: BskySession | null = null;
+      try {
+        refreshed = await refresh(session);
+      } catch (error) {
+        if (request.method !== 'GET') throw error;
+        console.log('[AskBeeves API] Reading public records instead:', error);
+      }
+      response = refreshed
+        ? await sendXrpc(refreshed.pdsUrl, refreshed.accessJwt, nsid, request)
+        : await sendXrpc(publicXrpcHost(session, nsid), undefined, nsid, request);
+    }
+    if (!response.ok) {
+      throw new Error(`${nsid} failed: ${(await getXrpcError(response)) ?? response.status}`);
+    }
+    return (await response.json()) as T;
+  };
+
+  return {
+    query: (nsid, params, signal) => call(nsid, { method: 'GET', params, signal }),
+    procedure: (nsid, body, signal) => call(nsid, { method: 'POST', body, signal }),
+  };
+}
+
+interface XrpcRequest {
+  method: 'GET' | 'POST';
+  params?: Record<string, string>;
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+function sendXrpc(
+  host: string,
+  accessJwt: string | undefined,
+  nsid: string,
+  request: XrpcRequest
+): Promise<Response> {
+  const query = request.params ? `?${new URLSearchParams(request.params)}` : '';
+  const headers: Record<string, string> = {};
+  if (accessJwt) {
+    headers.Authorization = `Bearer ${accessJwt}`;
+  }
+  if (request.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+  return fetchWithRetry(`${host}/xrpc/${nsid}${query}`, {
+    method: request.method,
+    headers,
+    body: request.body === undefined ? undefined : JSON.stringify(request.body),
+    signal: request.signal,
+  });
+}
+
+/**
+ * Where to send a query without a token: the public AppView for app.bsky methods (a PDS only
+ * proxies those for logged-in calls), the account's PDS for repo reads
+ */
+function publicXrpcHost(session: BskySession, nsid: string): string {
+  return nsid.startsWith('app.bsky.') ? BSKY_PUBLIC_API : session.pdsUrl;
+}
+
+/**
+ * Exchange a session's refresh token for new tokens (both are rotated)
+ */
+async function refreshSession(session: BskySession): Promise<BskySession> {
+  if (!session.refreshJwt) {
+    throw new Error('Session expired and there is no refresh token');
+  }
+
+  const response = await fetchWithRetry(
+    `${session.pdsUrl}/xrpc/com.atproto.server.refreshSession`,
+    { method: 'POST', headers: { Authorization: `Bearer ${session.refreshJwt}` } }
+  );
+  if (!response.ok) {
+    throw new Error(`Session refresh failed: ${(await getXrpcError(response)) ?? response.status}`);
+  }
+
+  const data = (await response.json()) as RefreshSessionResponse;
+  return {
+    ...session,
+    accessJwt: data.accessJwt,
+    refreshJwt: data.refreshJwt,
+    handle: data.handle ?? session.handle,
+  };
+}
+
 /**
  * Get a user's profile by handle or DID
  */
@@ -223,7 +447,8 @@ export async function getProfile(actor: string): Promise<Profile | null> {
  */
 export async function getFollows(
   did: string,
-  cursor?: string
+  cursor?: string,
+  signal?: AbortSignal
 ): Promise<{ follows: FollowedUser[]; cursor?: string }> {
   const params = new URLSearchParams({
     actor: did,
@@ -232,7 +457,7 @@ export async function getFollows(
   if (cursor) params.set('cursor', cursor);
 
   const url = `${BSKY_PUBLIC_API}/xrpc/app.bsky.graph.getFollows?${params}`;
-  const response = await fetchWithRetry(url);
+  const response = await fetchWithRetry(url, { signal });
 
   if (!response.ok) {
     throw new Error(`Failed to get follows: ${response.status}`);
@@ -241,91 +466,398 @@ export async function getFollows(
   const data = (await response.json()) as GetFollowsResponse;
 
   return {
-    follows: data.follows.map((f) => ({
-      did: f.did,
-      handle: f.handle,
-      displayName: f.displayName,
-      avatar: f.avatar,
-    })),
+    follows: data.follows.map(toFollowedUser),
     cursor: data.cursor,
   };
 }
 
+/**
+ * Get list of users who follow the specified user (paginated)
+ */
+export async function getFollowers(
+  did: string,
+  cursor?: string,
+  signal?: AbortSignal
+): Promise<{ followers: FollowedUser[]; cursor?: string }> {
+  const params = new URLSearchParams({
+    actor: did,
+    limit: '100',
+  });
+  if (cursor) params.set('cursor', cursor);
+
+  const url = `${BSKY_PUBLIC_API}/xrpc/app.bsky.graph.getFollowers?${params}`;
+  const response = await fetchWithRetry(url, { signal });
+
+  if (!response.ok) {
+    throw new Error(`Failed to get followers: ${response.status}`);
+  }
+
+  const data = (await response.json()) as GetFollowersResponse;
+
+  return {
+    followers: data.followers.map(toFollowedUser),
+    cursor: data.cursor,
+  };
+}
+
+function toFollowedUser(user: GetFollowsResponse['follows'][number]): FollowedUser {
+  return {
+    did: user.did,
+    handle: user.handle,
+    displayName: user.displayName,
+    avatar: user.avatar,
+  };
+}
+
+// Options for listing every page of follows or followers
+interface ListAllOptions {
+  cursor?: string;
+  onPage?: (page: FollowedUser[], cursor: string) => Promise<void>;
+  signal?: AbortSignal;
+}
+
 /**
  * Get all follows for a user (handles pagination)
+ * Pass a cursor to continue an interrupted listing. onPage is called after every page
+ * that has more to come, with that page's follows and the next cursor.
  */
-export async function getAllFollows(did: string): Promise<FollowedUser[]> {
-  const allFollows: FollowedUser[] = [];
-  let cursor: string | undefined;
+export async function getAllFollows(
+  did: string,
+  options: ListAllOptions = {}
+): Promise<FollowedUser[]> {
+  return listAllPages(async (cursor) => {
+    const result = await getFollows(did, cursor, options.signal);
+    return { users: result.follows, cursor: result.cursor };
+  }, options);
+}
+
+/**
+ * Get all followers of a user (handles pagination), like getAllFollows
+ */
+export async function getAllFollowers(
+  did: string,
+  options: ListAllOptions = {}
+): Promise<FollowedUser[]> {
+  return listAllPages(async (cursor) => {
+    const result = await getFollowers(did, cursor, options.signal);
+    return { users: result.followers, cursor: result.cursor };
+  }, options);
+}
+
+async function listAllPages(
+  getPage: (cursor?: string) => Promise<{ users: FollowedUser[]; cursor?: string }>,
+  options: ListAllOptions
+): Promise<FollowedUser[]> {
+  const all: FollowedUser[] = [];
+  let cursor = options.cursor;
 
   do {
-    const result = await getFollows(did, cursor);
-    allFollows.push(...result.follows);
+    const result = await getPage(cursor);
+    all.push(...result.users);
     cursor = result.cursor;
 
-    // Small delay to be nice to the API
-    if (cursor) await sleep(100);
+    if (cursor && options.onPage) {
+      await options.onPage(result.users, cursor);
+    }
   } while (cursor);
 
-  return allFollows;
+  return all;
 }
 
 /**
  * Get block list for any user (PUBLIC - no auth required)
  * Uses com.atproto.repo.listRecords which is public
  */
-export async function getUserBlocks(did: string, pdsUrl?: string): Promise<string[]> {
-  const blocks: string[] = [];
+export async function getUserBlocks(
+  did: string,
+  pdsUrl?: string,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const result = await getUserBlocksSince(did, undefined, pdsUrl, signal);
+  return result.blocks;
+}
 
-  // Resolve PDS if not provided
-  let pds: string | null | undefined = pdsUrl;
-  if (!pds) {
-    pds = await resolvePds(did);
+/**
+ * Get block records newer than a known rkey (delta sync)
+ * listRecords returns newest first, so paging stops at the first record at or before
+ * sinceRkey. Block rkeys are TIDs, which sort lexicographically by creation time.
+ * Without sinceRkey this fetches the full list.
+ * If the PDS says the repo isn't there (or redirects), the cached PDS is dropped and the
+ * DID resolved again, since the account has probably migrated.
+ * Aborting signal rejects instead of returning a partial result.
+ */
+export async function getUserBlocksSince(
+  did: string,
+  sinceRkey?: string,
+  pdsUrl?: string,
+  signal?: AbortSignal
+): Promise<BlockFetchResult> {
+  return fetchRecordSubjects(did, 'app.bsky.graph.block', { sinceRkey, pdsUrl, signal });
+}
+
+/**
+ * Get the moderation lists a user blocks through, from their listblock records
+ * The result's blocks are list URIs. It's always a full fetch, as people subscribe to few lists.
+ */
+export async function getUserListBlocks(
+  did: string,
+  pdsUrl?: string,
+  signal?: AbortSignal
+): Promise<BlockFetchResult> {
+  return fetchRecordSubjects(did, 'app.bsky.graph.listblock', { pdsUrl, signal });
+}
+
+/**
+ * Get the names and members of moderation lists, all owned by one account, by list URI
+ * The owner's listitem records cover all of their lists, so they're paged through once for
+ * however many of the lists are asked for, and entries on other lists are skipped. A name is
+ * left out if its list record can't be read.
+ * @param pdsUrl - The owner's PDS
+ */
+export async function getListMembers(
+  owner: string,
+  listUris: string[],
+  pdsUrl?: string,
+  signal?: AbortSignal
+): Promise<Map<string, ListFetchResult>> {
+  const wanted = new Set(listUris);
+  const { items, state, httpStatus } = await fetchRecords(owner, 'app.bsky.graph.listitem', {
+    pdsUrl,
+    signal,
+    select: (record) =>
+      'list' in record.value && wanted.has(record.value.list) && record.value.subject
+        ? { list: record.value.list, member: record.value.subject }
+        : undefined,
+  });
+  const members = new Map(listUris.map((uri) => [uri, new Set<string>()]));
+  for (const { list, member } of items) {
+    members.get(list)?.add(member);
   }
-  if (!pds) {
-    pds = BSKY_PDS_DEFAULT;
+
+  // Repos that moved were resolved again by the member fetch
+  const pds = getCachedPds(owner) ?? pdsUrl ?? (await resolvePdsOrDefault(owner, signal));
+  const results = new Map<string, ListFetchResult>();
+  for (const uri of listUris) {
+    const name = await getListName(uri, pds.replace(/\/+$/, ''), signal);
+    results.set(uri, { name, members: [...members.get(uri)!], state, httpStatus });
+  }
+  return results;
+}
+
+/**
+ * Read a list's name from its app.bsky.graph.list record
+ */
+async function getListName(
+  listUri: string,
+  pds: string,
+  signal?: AbortSignal
+): Promise<string | undefined> {
+  const params = new URLSearchParams({
+    repo: getRepo(listUri),
+    collection: 'app.bsky.graph.list',
+    rkey: getRkey(listUri) ?? '',
+  });
+  try {
+    const response = await fetchWithRetry(`${pds}/xrpc/com.atproto.repo.getRecord?${params}`, {
+      signal,
+    });
+    if (!response.ok) return undefined;
+    const data = (await response.json()) as GetListRecordResponse;
+    return data.value?.name || undefined;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return undefined;
+  }
+}
+
+type ListedRecord = ListRecordsResponse['records'][number];
+
+interface RecordFetchOptions<T> {
+  sinceRkey?: string; // Stop at the first record at or before this rkey
+  pdsUrl?: string; // Resolved from the DID when omitted
+  signal?: AbortSignal;
+  select: (record: ListedRecord) => T | undefined; // What to keep of a record (undefined skips it)
+}
+
+// What was kept of the fetched records, and how far the fetch got
+type RecordFetchResult<T> = Omit<BlockFetchResult, 'blocks'> & { items: T[] };
+
+/**
+ * Fetch the subjects of a repo's records in one collection, newest first
+ */
+async function fetchRecordSubjects(
+  did: string,
+  collection: string,
+  options: Omit<RecordFetchOptions<string>, 'select'>
+): Promise<BlockFetchResult> {
+  const { items, ...result } = await fetchRecords(did, collection, {
+    ...options,
+    select: (record) => record.value?.subject || undefined,
+  });
+  return { ...result, blocks: items };
+}
+
+/**
+ * Fetch a repo's records in one collection, newest first, looking the repo up again if it
+ * has moved to another PDS
+ */
+async function fetchRecords<T>(
+  did: string,
+  collection: string,
+  options: RecordFetchOptions<T>
+): Promise<RecordFetchResult<T>> {
+  // Resolve PDS if not provided
+  const pds = options.pdsUrl
+    ? options.pdsUrl.replace(/\/+$/, '')
+    : await resolvePdsOrDefault(did, options.signal);
+
+  const { result, moved } = await listRecords(did, collection, pds, options);
+  if (!moved) {
+    return result;
   }
 
-  // Normalize PDS URL
-  pds = pds.replace(/\/+$/, '');
+  console.log(`[AskBeeves API] Repo ${did} is no longer on ${pds}, resolving again`);
+  invalidatePds(did);
+  let currentPds: string | undefined;
+  try {
+    currentPds = (await resolvePds(did, options.signal))?.replace(/\/+$/, '');
+  } catch (error) {
+    // Records read through a redirect are kept; a repo not found is worth retrying
+    if (result.state !== 'complete' || options.signal?.aborted) throw error;
+    return result;
+  }
+  if (!currentPds || currentPds === pds) {
+    return result;
+  }
+  return (await listRecords(did, collection, currentPds, options)).result;
+}
 
+/**
+ * Page through a repo's records in one collection on one PDS
+ * moved is set when the response suggests the repo lives somewhere else now
+ */
+async function listRecords<T>(
+  did: string,
+  collection: string,
+  pds: string,
+  { sinceRkey, signal, select }: RecordFetchOptions<T>
+): Promise<{ result: RecordFetchResult<T>; moved: boolean }> {
+  const items: T[] = [];
+  let newestRkey: string | undefined;
   let cursor: string | undefined;
+  let httpStatus: number | undefined;
+  let moved = false;
 
   do {
     const params = new URLSearchParams({
       repo: did,
-      collection: 'app.bsky.graph.block',
+      collection,
       limit: '100',
     });
     if (cursor) params.set('cursor', cursor);
 
     const url = `${pds}/xrpc/com.atproto.repo.listRecords?${params}`;
-    const response = await fetchWithRetry(url);
+    let response: Response;
+    try {
+      response = await fetchWithRetry(url, { signal });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // Still failing after retries; a cursor means earlier pages were read
+      return { result: { items, newestRkey, state: cursor ? 'partial' : 'error' }, moved };
+    }
+    httpStatus = response.status;
 
     if (!response.ok) {
-      // User may have blocks hidden, PDS issue, or no blocks - return what we have
-      return blocks;
+      const error = await getXrpcError(response);
+      const state = getFailureState(httpStatus, error, cursor !== undefined);
+      const redirect = httpStatus >= 300 && httpStatus < 400;
+      return {
+        result: { items, newestRkey, state, httpStatus },
+        moved: redirect || MOVED_REPO_ERRORS.includes(error ?? ''),
+      };
+    }
+    if (response.redirected) {
+      // Served from somewhere else: the data is usable, but the mapping is stale
+      moved = true;
     }
 
     const data = (await response.json()) as ListRecordsResponse;
 
     for (const record of data.records || []) {
-      if (record.value?.subject) {
-        blocks.push(record.value.subject);
+      const rkey = getRkey(record.uri);
+      if (sinceRkey && rkey && rkey <= sinceRkey) {
+        // Reached records we already have
+        return { result: { items, newestRkey, state: 'complete', httpStatus }, moved };
+      }
+      if (!newestRkey && rkey) {
+        newestRkey = rkey;
+      }
+      const item = select(record);
+      if (item !== undefined) {
+        items.push(item);
       }
     }
 
     cursor = data.cursor;
   } while (cursor);
 
-  return blocks;
+  return { result: { items, newestRkey, state: 'complete', httpStatus }, moved };
 }
 
 /**
- * Sleep helper
+ * Read the XRPC error name from an error response, if it has one
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+async function getXrpcError(response: Response): Promise<string | undefined> {
+  try {
+    const body = (await response.json()) as { error?: string };
+    return body.error;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Classify a failed listRecords response
+ */
+function getFailureState(
+  status: number,
+  error: string | undefined,
+  readSomePages: boolean
+): BlockFetchState {
+  if (error === 'RepoNotFound' || status === 404) return 'not-found';
+  if (DEACTIVATED_REPO_ERRORS.includes(error ?? '')) return 'deactivated';
+  return readSomePages ? 'partial' : 'error';
+}
+
+/**
+ * Extract the repo DID from an at:// URI
+ */
+export function getRepo(uri: string): string {
+  return uri.replace(/^at:\/\//, '').split('/')[0];
+}
+
+/**
+ * Extract the record key from an at:// URI
+ */
+function getRkey(uri: string | undefined): string | undefined {
+  return uri?.split('/').pop() || undefined;
+}
+
+/**
+ * Sleep helper, rejecting with the abort reason if signal aborts first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
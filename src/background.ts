@@ -4,26 +4,137 @@
  * Works as service worker (Chrome MV3) or background script (Firefox MV2)
  */
 
-import { runtime, alarms } from './browser.js';
-import { getAllFollows, getUserBlocks, chunk, sleep } from './api.js';
+import { runtime, alarms, storage } from './browser.js';
+import {
+  getAllFollows,
+  getAllFollowers,
+  getUserBlocks,
+  getUserBlocksSince,
+  getUserListBlocks,
+  getListMembers,
+  getRepo,
+  getCachedPds,
+  getDidDocumentUrl,
+  resolvePdsOrDefault,
+  populatePdsCache,
+  getPdsCacheEntries,
+  clearPdsCache,
+} from './api.js';
+import { startJetstream, stopJetstream } from './jetstream.js';
+import { packBlockCache, estimatePackedListSize } from './blockcodec.js';
+import { runMigrations } from './migrations.js';
+import { EvictionPolicy, evictionOrder, largestFirst } from './eviction.js';
 import {
   getBlockCache,
   saveBlockCache,
+  saveFollowList,
+  clearBlockCache,
+  clearListBlockCache,
   createEmptyCache,
   getStoredAuth,
   storeAuth,
   lookupBlockingInfo,
   updateSyncStatus,
   getSyncStatus,
+  getSettings,
+  getSyncCheckpoint,
+  saveSyncCheckpoint,
+  clearSyncCheckpoint,
+  getPdsCache,
+  savePdsCache,
+  getSyncLedger,
+  saveSyncLedger,
+  getListBlockCache,
+  saveListBlockCache,
+  saveGraphListingPage,
+  getGraphListing,
+  clearGraphListing,
+  getSyncCoverage,
+  isBlockCacheSizeLimited,
+  acquireSyncLease,
+  renewSyncLease,
+  releaseSyncLease,
+  getSyncLease,
+  getActiveAccount,
+  setActiveAccount,
+  getAccounts,
 } from './storage.js';
-import { Message, MessageResponse, UserBlockCache } from './types.js';
+import { createHostScheduler, HostScheduler } from './scheduler.js';
+import {
+  BlockCacheData,
+  BlockFetchState,
+  FollowDiff,
+  FollowedUser,
+  GraphRelation,
+  GraphScope,
+  ListBlockCache,
+  ListingRelation,
+  Message,
+  MessageResponse,
+  SyncError,
+  SyncErrorKind,
+  SyncCheckpoint,
+  SyncLedger,
+  STORAGE_KEYS,
+} from './types.js';
 
 const ALARM_NAME = 'performFullSync';
+const RETRY_ALARM_NAME = 'retryFailedSyncs';
+const SLICE_ALARM_NAME = 'syncSlice';
 const SYNC_INTERVAL_MINUTES = 60;
-const RATE_LIMIT_CONCURRENT = 5;
-const RATE_LIMIT_DELAY_MS = 500;
-const STALE_LOCK_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes - if isRunning but no update, assume stuck
-const MAX_CACHE_SIZE_BYTES = 8 * 1024 * 1024; // 8MB - leave buffer under 10MB limit
+const RETRY_BASE_DELAY_MS = 2 * 60 * 1000; // First retry of a failed fetch, doubling after that
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+const MAX_RETRY_ATTEMPTS = 5; // After this, failed fetches wait for the next full sync
+const MAX_CONCURRENT_FETCHES = 16; // Across all hosts; pacing is per host in fetchWithRetry
+const SHARED_HOST_CONCURRENCY = 4; // Bluesky-run PDS shards and the PLC directory
+const HOST_CONCURRENCY = 2; // Self-hosted PDSes
+const SAVE_INTERVAL_USERS = 100; // Save cache and checkpoint every N synced users
+const SLICE_USERS = 500; // Block lists fetched per wake-up, well within an MV3 worker's lifetime
+const SLICE_DELAY_MS = 30 * 1000; // Chrome's shortest alarm delay
+const PLC_HOST = 'plc.directory';
+const FULL_RECONCILE_INTERVAL_MS = 24 * 60 * 60 * 1000; // Daily full refetch to catch deleted blocks
+const VIEWER_RECONCILE_INTERVAL_MS = 60 * 60 * 1000; // Same for your own blocks, hourly
+const SYNC_LEASE_MS = 2 * 60 * 1000; // A sync that stops renewing (worker killed) loses it after this
+const LEASE_HEARTBEAT_MS = 30 * 1000;
+const CHECKPOINT_MAX_AGE_MS = 24 * 60 * 60 * 1000; // Start over rather than resume a day-old sync
+// 8MB packed - buffer under the 10MB storage.local limit (IndexedDB has no such cap)
+const MAX_CACHE_SIZE_BYTES = 8 * 1024 * 1024;
+const EVICTION_POLICY: EvictionPolicy = largestFirst; // Keeps the most follows indexed
+
+const FAILURE_MESSAGES: Record<SyncErrorKind, string> = {
+  partial: 'Only part of the block list could be read',
+  'not-found': 'Repository not found on its PDS',
+  deactivated: 'Account is deactivated or taken down',
+  error: 'Block list could not be fetched',
+};
+
+// Identifies this worker's sync leases, so a restarted worker can tell its predecessor's apart
+const WORKER_ID = crypto.randomUUID();
+let leaseCount = 0;
+
+// The sync lease held by a running sync or retry run
+interface HeldLease {
+  owner: string;
+  controller: AbortController; // Aborted once a renewal finds it revoked or taken over, or on stop
+}
+
+// The run holding the lease in this worker, if any
+let activeRun: { lease: HeldLease; finished: Promise<void> } | null = null;
+
+// The logged-in account's own block list, topped up with delta fetches between full ones
+let viewerBlocks: {
+  did: string;
+  blocks: Set<string>;
+  newestRkey?: string;
+  reconciledAt: number;
+} | null = null;
+
+// Outcome of syncing one follow's block list
+interface FollowSyncResult {
+  blockCount: number;
+  state: BlockFetchState;
+  httpStatus?: number;
+}
 
 /**
  * Estimate the size of an object in bytes (rough approximation)
@@ -33,56 +144,61 @@ function estimateObjectSize(obj: unknown): number {
 }
 
 /**
- * Prune cache to fit within size limit by removing oldest entries first
+ * Estimate the storage a cache takes up once packed for storage.local
  */
-function pruneCache(cache: {
-  followedUsers: Array<{ did: string; handle: string; displayName?: string; avatar?: string }>;
-  userBlockCaches: Record<string, UserBlockCache>;
-  lastFullSync: number;
-  currentUserDid: string;
-}): void {
-  // Get users sorted by lastSynced (oldest first)
-  const usersByAge = Object.entries(cache.userBlockCaches)
-    .map(([did, data]) => ({ did, lastSynced: data.lastSynced }))
-    .sort((a, b) => a.lastSynced - b.lastSynced);
+function estimateStoredSize(cache: BlockCacheData): number {
+  return estimateObjectSize(packBlockCache(cache));
+}
 
-  let currentSize = estimateObjectSize(cache);
-  let prunedCount = 0;
+/**
+ * Prune cache to fit within size limit, evicting block lists in the policy's order
+ * Evicted follows are recorded on the cache, so lookups can say how many are missing.
+ * Returns the DIDs whose block lists were evicted.
+ */
+function pruneCache(cache: BlockCacheData, policy: EvictionPolicy = EVICTION_POLICY): string[] {
+  let currentSize = estimateStoredSize(cache);
+  const evicted: string[] = [];
 
-  // Remove oldest entries until we're under the limit
-  for (const { did } of usersByAge) {
+  // Remove entries until we're under the limit
+  for (const userCache of evictionOrder(cache, policy)) {
     if (currentSize <= MAX_CACHE_SIZE_BYTES) break;
 
-    const removedSize = estimateObjectSize(cache.userBlockCaches[did]);
-    delete cache.userBlockCaches[did];
-    currentSize -= removedSize;
-    prunedCount++;
+    delete cache.userBlockCaches[userCache.did];
+    currentSize -= estimatePackedListSize(userCache);
+    evicted.push(userCache.did);
   }
 
-  if (prunedCount > 0) {
-    console.log(`[AskBeeves BG] Pruned ${prunedCount} users from cache to fit size limit`);
+  // Follows evicted earlier stay recorded until a sync stores their lists again
+  const recorded = new Set([...(cache.evictedDids ?? []), ...evicted]);
+  cache.evictedDids = cache.followedUsers
+    .map((u) => u.did)
+    .filter((did) => recorded.has(did) && !cache.userBlockCaches[did]);
+
+  if (evicted.length > 0) {
+    console.log(`[AskBeeves BG] Pruned ${evicted.length} users from cache to fit size limit`);
   }
+  return evicted;
 }
 
 /**
  * Safely save block cache, handling quota errors by pruning
+ * @param changedDids - Users whose block lists were synced or removed since the last save
+ * @param save - saveFollowList when the follow list changed too
  */
-async function safeSaveBlockCache(cache: {
-  followedUsers: Array<{ did: string; handle: string; displayName?: string; avatar?: string }>;
-  userBlockCaches: Record<string, UserBlockCache>;
-  lastFullSync: number;
-  currentUserDid: string;
-}): Promise<boolean> {
+async function safeSaveBlockCache(
+  cache: BlockCacheData,
+  changedDids: string[],
+  save: typeof saveFollowList = saveBlockCache
+): Promise<boolean> {
   try {
-    await saveBlockCache(cache);
+    await save(cache, changedDids);
     return true;
   } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    if (errorMsg.includes('QUOTA_BYTES') || errorMsg.includes('quota')) {
+    if (isQuotaError(error)) {
       console.log('[AskBeeves BG] Quota exceeded, pruning cache...');
-      pruneCache(cache);
+      const evicted = pruneCache(cache);
       try {
-        await saveBlockCache(cache);
+        await save(cache, [...changedDids, ...evicted]);
         console.log('[AskBeeves BG] Successfully saved pruned cache');
         return true;
       } catch (retryError) {
@@ -94,23 +210,556 @@ async function safeSaveBlockCache(cache: {
   }
 }
 
+function isQuotaError(error: unknown): boolean {
+  const errorMsg = error instanceof Error ? error.message : String(error);
+  return errorMsg.includes('QUOTA_BYTES') || errorMsg.includes('quota');
+}
+
 /**
- * Perform a full sync: fetch all follows, then batch-fetch their block lists
+ * How many requests may run at once against a host
  */
-async function performFullSync(): Promise<void> {
-  console.log('[AskBeeves BG] Starting full sync...');
+function hostConcurrency(host: string): number {
+  return host === PLC_HOST || host.endsWith('.bsky.network')
+    ? SHARED_HOST_CONCURRENCY
+    : HOST_CONCURRENCY;
+}
 
-  const syncStatus = await getSyncStatus();
-  if (syncStatus.isRunning) {
-    // Check if the lock is stale (service worker may have been killed mid-sync)
-    const timeSinceUpdate = Date.now() - (syncStatus.lastUpdated || 0);
-    if (timeSinceUpdate < STALE_LOCK_TIMEOUT_MS) {
-      console.log('[AskBeeves BG] Sync already in progress, skipping');
-      return;
+/**
+ * Fetch one followed user's blocks and store them in the cache
+ */
+async function syncUserBlocks(
+  cache: BlockCacheData,
+  user: FollowedUser,
+  pdsUrl: string,
+  isFullReconcile: boolean,
+  signal: AbortSignal
+): Promise<FollowSyncResult> {
+  const existing = cache.userBlockCaches[user.did];
+  const sinceRkey = isFullReconcile ? undefined : existing?.newestRkey;
+  const result = await getUserBlocksSince(user.did, sinceRkey, pdsUrl, signal);
+  const complete = result?.state === 'complete';
+  let blocks = Array.isArray(result?.blocks) ? result.blocks : [];
+  // Only a complete read moves the marker. After a failed one the next fetch starts from the
+  // old marker, or from scratch if there was none, so the records this one missed are fetched
+  const newestRkey = complete ? (result.newestRkey ?? existing?.newestRkey) : existing?.newestRkey;
+
+  // Merge into the known list on delta syncs, and when a failed refetch must not
+  // wipe what we already have (re-blocks can repeat a subject)
+  if ((sinceRkey || !complete) && existing) {
+    blocks = [...new Set([...blocks, ...existing.blocks])];
+  }
+
+  // Only store users with blocks (saves space - most users have 0 blocks), plus failed
+  // fetches so they can be reported as unchecked
+  if (blocks.length > 0 || !complete) {
+    cache.userBlockCaches[user.did] = {
+      did: user.did,
+      handle: user.handle,
+      displayName: user.displayName,
+      avatar: user.avatar,
+      blocks, // Store actual DIDs - no bloom filter false positives
+      lastSynced: Date.now(),
+      newestRkey,
+      fetchState: complete ? undefined : (result?.state ?? 'error'),
+      httpStatus: complete ? undefined : result?.httpStatus,
+    };
+  } else {
+    // Unblocked everyone since the last reconcile
+    delete cache.userBlockCaches[user.did];
+  }
+
+  return {
+    blockCount: blocks.length,
+    state: result?.state ?? 'error',
+    httpStatus: result?.httpStatus,
+  };
+}
+
+/**
+ * Fetch the moderation lists one account blocks through
+ * A failed fetch keeps the lists known from before. Returns whether the list blocks were read.
+ */
+async function syncUserListBlocks(
+  listBlocks: ListBlockCache,
+  user: FollowedUser,
+  pdsUrl: string,
+  signal: AbortSignal
+): Promise<boolean> {
+  const result = await getUserListBlocks(user.did, pdsUrl, signal);
+  if (result.state !== 'complete') {
+    console.error(`[AskBeeves BG] Could not read list blocks of ${user.handle}: ${result.state}`);
+    return false;
+  }
+
+  if (result.blocks.length > 0) {
+    listBlocks.subscriptions[user.did] = [...new Set(result.blocks)];
+  } else {
+    delete listBlocks.subscriptions[user.did];
+  }
+  return true;
+}
+
+/**
+ * Whether a follow's list blocks are due to be read: on full reconciles, and until they have
+ * been read once. Subscriptions change rarely, so delta syncs don't read them again.
+ */
+function listBlocksDue(ledger: SyncLedger, did: string, isFullReconcile: boolean): boolean {
+  return isFullReconcile || ledger[did]?.listBlocksSynced === undefined;
+}
+
+/**
+ * Resolve a DID's PDS, queueing the lookup on the host serving its DID document
+ * (plc.directory or a did:web domain)
+ */
+async function resolvePdsQueued(
+  did: string,
+  scheduler: HostScheduler,
+  signal: AbortSignal
+): Promise<string> {
+  const docUrl = getDidDocumentUrl(did);
+  return (
+    getCachedPds(did) ??
+    (await scheduler.run(docUrl ? new URL(docUrl).host : PLC_HOST, () => {
+      signal.throwIfAborted();
+      return resolvePdsOrDefault(did, signal);
+    }))
+  );
+}
+
+/**
+ * Resolve a follow's PDS and sync their blocks, queueing each request on its host
+ * Failures come back as a SyncError (counting on from the previous one) instead of
+ * being thrown. Aborting signal rejects, leaving the cache entry as it was.
+ * @param listBlocks - Also sync the follow's list blocks into this, once their blocks are read
+ *   (listBlocksRead says whether that worked)
+ */
+async function syncFollow(
+  cache: BlockCacheData,
+  user: FollowedUser,
+  scheduler: HostScheduler,
+  isFullReconcile: boolean,
+  signal: AbortSignal,
+  previousError?: SyncError,
+  listBlocks?: ListBlockCache
+): Promise<{ blockCount: number; error?: SyncError; listBlocksRead?: boolean }> {
+  try {
+    const pdsUrl = await resolvePdsQueued(user.did, scheduler, signal);
+    const result = await scheduler.run(new URL(pdsUrl).host, () =>
+      syncUserBlocks(cache, user, pdsUrl, isFullReconcile, signal)
+    );
+    if (result.state === 'complete') {
+      if (listBlocks) {
+        // The block fetch looked the PDS up again if the repo had moved
+        const currentPds = getCachedPds(user.did) ?? pdsUrl;
+        const listBlocksRead = await scheduler.run(new URL(currentPds).host, () =>
+          syncUserListBlocks(listBlocks, user, currentPds, signal)
+        );
+        return { blockCount: result.blockCount, listBlocksRead };
+      }
+      return { blockCount: result.blockCount };
     }
-    console.log(`[AskBeeves BG] Stale lock detected (${Math.round(timeSinceUpdate / 1000)}s old), resetting...`);
-    await updateSyncStatus({ isRunning: false });
+
+    const message = result.httpStatus
+      ? `${FAILURE_MESSAGES[result.state]} (HTTP ${result.httpStatus})`
+      : FAILURE_MESSAGES[result.state];
+    return {
+      blockCount: result.blockCount,
+      error: createSyncError(user, result.state, message, result.httpStatus, previousError),
+    };
+  } catch (error) {
+    if (signal.aborted) throw error;
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[AskBeeves BG] Error syncing ${user.handle}:`, error);
+    return {
+      blockCount: cache.userBlockCaches[user.did]?.blocks.length ?? 0,
+      error: createSyncError(user, 'error', errorMsg, undefined, previousError),
+    };
   }
+}
+
+/**
+ * Fetch the members of the moderation lists that accounts in the graph scope block through
+ * New lists, and lists whose last fetch failed, are fetched on every sync and the rest on full
+ * reconciles. Lists nobody blocks through anymore are dropped. Lists with the same owner share
+ * one read of the owner's list items.
+ * Returns the URIs of the lists fetched or dropped.
+ */
+async function syncModerationLists(
+  listBlocks: ListBlockCache,
+  scheduler: HostScheduler,
+  isFullReconcile: boolean,
+  signal: AbortSignal
+): Promise<string[]> {
+  const subscribed = new Set(Object.values(listBlocks.subscriptions).flat());
+  const dropped = Object.keys(listBlocks.lists).filter((uri) => !subscribed.has(uri));
+  for (const uri of dropped) {
+    delete listBlocks.lists[uri];
+  }
+  const toFetch = [...subscribed].filter(
+    (uri) => isFullReconcile || !listBlocks.lists[uri] || listBlocks.lists[uri].fetchState
+  );
+  if (toFetch.length === 0) return dropped;
+
+  const byOwner = new Map<string, string[]>();
+  for (const uri of toFetch) {
+    const owner = getRepo(uri);
+    byOwner.set(owner, [...(byOwner.get(owner) ?? []), uri]);
+  }
+
+  console.log(
+    `[AskBeeves BG] Fetching members of ${toFetch.length} moderation lists from ${byOwner.size} owners...`
+  );
+  const fetched: string[] = [];
+  await Promise.all(
+    [...byOwner].map(async ([owner, uris]) => {
+      try {
+        const pdsUrl = await resolvePdsQueued(owner, scheduler, signal);
+        const results = await scheduler.run(new URL(pdsUrl).host, () =>
+          getListMembers(owner, uris, pdsUrl, signal)
+        );
+        for (const [uri, result] of results) {
+          const previous = listBlocks.lists[uri];
+          const complete = result.state === 'complete';
+          listBlocks.lists[uri] = {
+            uri,
+            name: result.name ?? previous?.name,
+            // A failed refetch must not wipe the members we already have
+            members:
+              complete || !previous
+                ? result.members
+                : [...new Set([...result.members, ...previous.members])],
+            lastSynced: Date.now(),
+            fetchState: complete ? undefined : result.state,
+          };
+          fetched.push(uri);
+        }
+      } catch (error) {
+        if (signal.aborted) throw error;
+        console.error(`[AskBeeves BG] Error fetching moderation lists of ${owner}:`, error);
+      }
+    })
+  );
+  return [...dropped, ...fetched];
+}
+
+/**
+ * Save list blocks, handling quota errors by leaving the lists' members out
+ * (only storage.local has a quota). Who subscribes to which lists is kept, so the lists are
+ * fetched again on the next sync.
+ */
+async function safeSaveListBlockCache(
+  listBlocks: ListBlockCache,
+  changedUris?: string[],
+  changedSubscribers?: string[]
+): Promise<void> {
+  try {
+    await saveListBlockCache(listBlocks, changedUris, changedSubscribers);
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+    console.error('[AskBeeves BG] Quota exceeded, not saving moderation list members');
+    await saveListBlockCache({ subscriptions: listBlocks.subscriptions, lists: {} });
+  }
+}
+
+/**
+ * How far an interrupted listing of follows and followers got
+ */
+type GraphListing = Pick<
+  SyncCheckpoint,
+  'followsCursor' | 'followsListed' | 'followersCursor' | 'followersListed'
+>;
+
+/**
+ * List the accounts in a graph scope, continuing an interrupted listing
+ * Follows are listed first, then followers. Each page that has more to come is saved to the
+ * block store, then saveListing is called with the cursors and counts to checkpoint. In the
+ * follows scope, accounts are returned as listed (no relation).
+ */
+async function listGraph(
+  did: string,
+  scope: GraphScope,
+  listing: GraphListing | null,
+  saveListing: (listing: GraphListing) => Promise<void>,
+  signal: AbortSignal
+): Promise<FollowedUser[]> {
+  let follows: FollowedUser[] = [];
+  if (scope !== 'followers') {
+    follows = await listRelation(
+      'follows',
+      did,
+      listing?.followsListed,
+      listing?.followsCursor,
+      (cursor, listed) => saveListing({ followsCursor: cursor, followsListed: listed }),
+      signal
+    );
+  }
+  if (scope === 'follows') return follows;
+
+  const followers = await listRelation(
+    'followers',
+    did,
+    listing?.followersListed,
+    listing?.followersCursor,
+    (cursor, listed) =>
+      saveListing({
+        followsListed: follows.length,
+        followersCursor: cursor,
+        followersListed: listed,
+      }),
+    signal
+  );
+  return combineGraph(scope, follows, followers);
+}
+
+/**
+ * List every follow or follower, continuing from cursor if the listed accounts before it
+ * were all saved
+ * A saved count without a cursor means the listing had finished. The last page is saved too,
+ * so follows can be read back while followers are listed.
+ */
+async function listRelation(
+  relation: ListingRelation,
+  did: string,
+  listedCount: number | undefined,
+  cursor: string | undefined,
+  saveProgress: (cursor: string, listed: number) => Promise<void>,
+  signal: AbortSignal
+): Promise<FollowedUser[]> {
+  const saved = listedCount === undefined ? null : await getGraphListing(relation, listedCount);
+  if (saved && !cursor) return saved;
+  if (!saved) await clearGraphListing(relation);
+
+  const accounts = saved ?? [];
+  let listed = accounts.length;
+  const getAll = relation === 'follows' ? getAllFollows : getAllFollowers;
+  const fetched = await getAll(did, {
+    cursor: saved ? cursor : undefined,
+    signal,
+    onPage: async (page, next) => {
+      await saveGraphListingPage(relation, listed, page);
+      listed += page.length;
+      await saveProgress(next, listed);
+    },
+  });
+  accounts.push(...fetched);
+  if (accounts.length > listed) {
+    await saveGraphListingPage(relation, listed, accounts.slice(listed));
+  }
+  return accounts;
+}
+
+/**
+ * Combine follows and followers into the accounts of a scope, each with its relation
+ */
+function combineGraph(
+  scope: GraphScope,
+  follows: FollowedUser[],
+  followers: FollowedUser[]
+): FollowedUser[] {
+  const withRelation = (user: FollowedUser, relation: GraphRelation) => ({ ...user, relation });
+  const followerDids = new Set(followers.map((u) => u.did));
+  const followDids = new Set(follows.map((u) => u.did));
+
+  switch (scope) {
+    case 'followers':
+      return followers.map((u) => withRelation(u, 'follower'));
+    case 'mutuals':
+      return follows.filter((u) => followerDids.has(u.did)).map((u) => withRelation(u, 'mutual'));
+    default:
+      return [
+        ...follows.map((u) => withRelation(u, followerDids.has(u.did) ? 'mutual' : 'follow')),
+        ...followers.filter((u) => !followDids.has(u.did)).map((u) => withRelation(u, 'follower')),
+      ];
+  }
+}
+
+/**
+ * Compare a freshly listed follow list with the cached one
+ */
+function diffFollows(previous: FollowedUser[], current: FollowedUser[]): FollowDiff {
+  const previousDids = new Set(previous.map((u) => u.did));
+  const currentDids = new Set(current.map((u) => u.did));
+  return {
+    added: [...currentDids].filter((did) => !previousDids.has(did)),
+    removed: [...previousDids].filter((did) => !currentDids.has(did)),
+  };
+}
+
+/**
+ * Note a follow's sync in the ledger, including syncs that found no blocks
+ */
+function recordSync(
+  ledger: SyncLedger,
+  did: string,
+  blockCount: number,
+  error?: SyncError,
+  listBlocksRead = false
+): void {
+  const now = Date.now();
+  ledger[did] = {
+    lastSynced: now,
+    state: error?.kind ?? 'complete',
+    blockCount,
+    listBlocksSynced: listBlocksRead ? now : ledger[did]?.listBlocksSynced,
+  };
+}
+
+/**
+ * Build the error entry for a failed fetch and schedule its retry
+ * Missing repos and client errors won't fix themselves, so only partial reads, network
+ * failures, 429s and server errors are retried.
+ */
+function createSyncError(
+  user: FollowedUser,
+  kind: SyncErrorKind,
+  message: string,
+  httpStatus: number | undefined,
+  previousError?: SyncError
+): SyncError {
+  const attempts = (previousError?.attempts ?? 0) + 1;
+  const retryable =
+    kind === 'partial' ||
+    (kind === 'error' && (!httpStatus || httpStatus === 429 || httpStatus >= 500));
+  const now = Date.now();
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+
+  return {
+    did: user.did,
+    handle: user.handle,
+    kind,
+    message,
+    httpStatus,
+    retryable,
+    attempts,
+    timestamp: now,
+    nextRetryAt: retryable && attempts < MAX_RETRY_ATTEMPTS ? now + delay : undefined,
+  };
+}
+
+/**
+ * Run a sync under the sync lease, renewing it on a heartbeat until the run finishes
+ * @param takeOver - Also take a lease held by an earlier worker, which was terminated with it
+ * @returns false if another sync holds the lease
+ */
+async function withSyncLease(
+  takeOver: boolean,
+  run: (lease: HeldLease) => Promise<void>
+): Promise<boolean> {
+  const lease: HeldLease = {
+    owner: `${WORKER_ID}:${++leaseCount}`,
+    controller: new AbortController(),
+  };
+  const acquired = await acquireSyncLease(
+    lease.owner,
+    SYNC_LEASE_MS,
+    takeOver ? (holder) => !holder.owner.startsWith(`${WORKER_ID}:`) : undefined
+  );
+  if (!acquired) {
+    console.log('[AskBeeves BG] Sync already in progress, skipping');
+    return false;
+  }
+
+  const heartbeat = setInterval(() => {
+    renewLease(lease).catch((error) => {
+      console.error('[AskBeeves BG] Failed to renew sync lease:', error);
+    });
+  }, LEASE_HEARTBEAT_MS);
+  const finished = run(lease);
+  activeRun = { lease, finished: finished.catch(() => {}) };
+  try {
+    await finished;
+  } finally {
+    clearInterval(heartbeat);
+    if (activeRun?.lease === lease) activeRun = null;
+    await releaseSyncLease(lease.owner);
+  }
+  return true;
+}
+
+/**
+ * Renew a lease, aborting its run if it was revoked or taken over
+ */
+async function renewLease(lease: HeldLease): Promise<void> {
+  const { signal } = lease.controller;
+  if (!signal.aborted && !(await renewSyncLease(lease.owner, SYNC_LEASE_MS))) {
+    console.log('[AskBeeves BG] Sync lease lost, stopping');
+    lease.controller.abort(new Error('Sync lease lost'));
+  }
+}
+
+/**
+ * Stop a run that lost its lease or was stopped before it writes anything more
+ */
+async function assertLeaseHeld(lease: HeldLease): Promise<void> {
+  await renewLease(lease);
+  lease.controller.signal.throwIfAborted();
+}
+
+/**
+ * Abort the run holding the lease in this worker, if any, and wait for it to stop
+ * Clears the slice alarm first, so the run isn't woken again.
+ * @returns false if there was no run to abort
+ */
+async function abortActiveRun(reason: string): Promise<boolean> {
+  await alarms.clear(SLICE_ALARM_NAME);
+  const run = activeRun;
+  if (!run) return false;
+  run.lease.controller.abort(new Error(reason));
+  await run.finished;
+  return true;
+}
+
+/**
+ * Stop the running sync, if any, and drop its checkpoint so it isn't resumed
+ * Batches saved before the stop stay in the cache; the rest are fetched by the next sync.
+ * @returns false if there was no sync to stop
+ */
+async function stopSync(): Promise<boolean> {
+  const aborted = await abortActiveRun('Sync stopped');
+  // Also revoke a lease left by a terminated worker
+  await releaseSyncLease();
+
+  const wasRunning = aborted || (await getSyncCheckpoint()) !== null;
+  await clearSyncCheckpoint();
+  await updateSyncStatus({ isRunning: false });
+  return wasRunning;
+}
+
+/**
+ * Make an account's block cache, sync status and settings the ones in use
+ * A sync running for the previous account is stopped first, so it can't write into the new
+ * account's data. Its checkpoint stays, and it resumes once that account is active again.
+ */
+async function switchAccount(did: string): Promise<void> {
+  await abortActiveRun('Account switched');
+
+  await setActiveAccount(did);
+  console.log('[AskBeeves BG] Switched to account', did);
+  await scheduleRetryAlarm((await getSyncStatus()).errors ?? []);
+  await refreshRealtime();
+}
+
+/**
+ * Perform a full sync: fetch all follows, then fetch their block lists
+ * Fetches are queued per PDS host, each with its own concurrency limit, so a slow
+ * self-hosted PDS or a busy Bluesky shard can't hold up everyone else.
+ * Between daily reconciles, only block records newer than each user's newest known
+ * record are fetched (delta mode). Deletions are picked up by the next reconcile.
+ * Block lists are fetched in slices of SLICE_USERS: after each slice, progress is
+ * checkpointed and an alarm wakes the worker for the next one, so no single wake-up runs
+ * long enough for an MV3 worker to be terminated mid-sync. A sync cut off anyway resumes
+ * from its checkpoint too. Pass afterRestart when resuming on wake-up: a lease left by the terminated
+ * worker is then taken over instead of waited out.
+ * @returns false if another sync holds the lease
+ */
+async function performFullSync(options: { afterRestart?: boolean } = {}): Promise<boolean> {
+  return withSyncLease(options.afterRestart ?? false, runFullSync);
+}
+
+async function runFullSync(lease: HeldLease): Promise<void> {
+  console.log('[AskBeeves BG] Starting full sync...');
+
+  const syncStatus = await getSyncStatus();
 
   try {
     // Get auth from storage
@@ -120,121 +769,458 @@ async function performFullSync(): Promise<void> {
       return;
     }
 
-    await updateSyncStatus({
-      isRunning: true,
-      errors: [],
-      syncedFollows: 0,
-    });
-
     // Get current block cache
     let cache = await getBlockCache();
+    let ledger = await getSyncLedger();
+    let listBlocks = await getListBlockCache();
     if (!cache || cache.currentUserDid !== auth.did) {
+      // Saves only write what changed, so a cache left from before has to go first
+      if (cache) await clearBlockCache();
+      await clearListBlockCache();
+      await saveSyncLedger({});
       cache = createEmptyCache(auth.did);
+      ledger = {};
+      listBlocks = { subscriptions: {}, lists: {} };
+    }
+
+    // Pick up an interrupted sync for the same account and scope, unless it's too old to trust
+    const { graphScope } = await getSettings();
+    let checkpoint = await getSyncCheckpoint();
+    if (
+      checkpoint &&
+      (checkpoint.userDid !== auth.did ||
+        (checkpoint.graphScope ?? 'follows') !== graphScope ||
+        Date.now() - checkpoint.startedAt > CHECKPOINT_MAX_AGE_MS)
+    ) {
+      console.log('[AskBeeves BG] Discarding outdated sync checkpoint');
+      await clearSyncCheckpoint();
+      checkpoint = null;
     }
 
+    await updateSyncStatus(
+      checkpoint ? { isRunning: true } : { isRunning: true, syncedFollows: 0 }
+    );
+
+    // Reuse PDS resolutions from earlier runs
+    populatePdsCache(await getPdsCache());
+
     // Proactively prune if cache is already too large
-    const initialSize = estimateObjectSize(cache);
+    const initialSize = (await isBlockCacheSizeLimited()) ? estimateStoredSize(cache) : 0;
     if (initialSize > MAX_CACHE_SIZE_BYTES * 0.9) {
       console.log(`[AskBeeves BG] Cache size (${Math.round(initialSize / 1024 / 1024)}MB) approaching limit, pruning...`);
-      pruneCache(cache);
-      await safeSaveBlockCache(cache);
+      await safeSaveBlockCache(cache, pruneCache(cache));
     }
 
-    // Fetch all follows
-    console.log('[AskBeeves BG] Fetching all follows...');
-    const follows = await getAllFollows(auth.did);
-    cache.followedUsers = follows;
-
-    console.log(`[AskBeeves BG] Got ${follows.length} follows, fetching block lists...`);
+    const startedAt = checkpoint?.startedAt ?? Date.now();
+    const isFullReconcile =
+      checkpoint?.isFullReconcile ??
+      Date.now() - (cache.lastFullReconcile || 0) >= FULL_RECONCILE_INTERVAL_MS;
+    console.log(
+      `[AskBeeves BG] Sync mode: ${isFullReconcile ? 'full reconcile' : 'delta'}${checkpoint ? ' (resuming)' : ''}`
+    );
 
-    // Batch fetch block lists with rate limiting
-    const chunks = chunk(follows, RATE_LIMIT_CONCURRENT);
-    let syncedCount = 0;
-    const errors: string[] = [];
+    let follows: FollowedUser[];
+    if (checkpoint?.pendingDids) {
+      // Follows were already listed and saved before the interruption
+      follows = cache.followedUsers;
+    } else {
+      // List every account in the scope, continuing from the checkpointed page if there is one
+      console.log(`[AskBeeves BG] Listing accounts (${graphScope})...`);
+      follows = await listGraph(
+        auth.did,
+        graphScope,
+        checkpoint,
+        async (listing) => {
+          await assertLeaseHeld(lease);
+          await saveSyncCheckpoint({
+            userDid: auth.did,
+            startedAt,
+            isFullReconcile,
+            graphScope,
+            ...listing,
+            lastCompletedChunk: -1,
+          });
+        },
+        lease.controller.signal
+      );
 
-    // Save every N batches to avoid quota issues
-    const SAVE_INTERVAL = 10;
+      await clearGraphListing();
 
-    for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
-      const chunk_arr = chunks[chunkIndex];
+      // Unfollowed users' block lists go now; new follows are fetched first
+      const followDiff =
+        cache.followedUsers.length > 0 ? diffFollows(cache.followedUsers, follows) : undefined;
+      for (const did of followDiff?.removed ?? []) {
+        delete cache.userBlockCaches[did];
+      }
+      const added = new Set(followDiff?.added);
+      // After a scope change the accounts differ because of it, not because anyone followed or
+      // unfollowed, so there's no diff to report until the next sync in this scope
+      const reportedDiff = (cache.graphScope ?? 'follows') === graphScope ? followDiff : undefined;
+      cache.followedUsers = follows;
+      cache.graphScope = graphScope;
 
-      // Fetch blocks in parallel within this chunk
-      const blockPromises = chunk_arr.map(async (user) => {
-        try {
-          let blocks = await getUserBlocks(user.did);
-          if (!Array.isArray(blocks)) {
-            blocks = [];
-          }
+      // Persist the follow list so the block phase can resume against it
+      await assertLeaseHeld(lease);
+      await safeSaveBlockCache(cache, followDiff?.removed ?? [], saveFollowList);
+      checkpoint = {
+        userDid: auth.did,
+        startedAt,
+        isFullReconcile,
+        graphScope,
+        lastCompletedChunk: -1,
+        pendingDids: [
+          ...(followDiff?.added ?? []),
+          ...follows.map((f) => f.did).filter((did) => !added.has(did)),
+        ],
+      };
+      await saveSyncCheckpoint(checkpoint);
+      await updateSyncStatus({ followDiff: reportedDiff });
+      if (followDiff?.added.length || followDiff?.removed.length) {
+        console.log(
+          `[AskBeeves BG] Follows changed: ${followDiff.added.length} new, ${followDiff.removed.length} unfollowed`
+        );
+        // Have live updates cover the new follow list before their block lists are in
+        await refreshRealtime();
+      }
+    }
 
-          // Only store if user has blocks (saves space - most users have 0 blocks)
-          if (blocks.length > 0) {
-            const userCache: UserBlockCache = {
-              did: user.did,
-              handle: user.handle,
-              displayName: user.displayName,
-              avatar: user.avatar,
-              blocks, // Store actual DIDs - no bloom filter false positives
-              lastSynced: Date.now(),
-            };
-
-            cache!.userBlockCaches[user.did] = userCache;
-          }
+    // In checkpoint order, which puts new follows first
+    const followsByDid = new Map(follows.map((f) => [f.did, f]));
+    const pending = new Set(checkpoint.pendingDids);
+    const unfetched = [...pending]
+      .map((did) => followsByDid.get(did))
+      .filter((f): f is FollowedUser => f !== undefined);
+    const toFetch = unfetched.slice(0, SLICE_USERS);
+    const isLastSlice = toFetch.length === unfetched.length;
 
-          syncedCount++;
+    console.log(
+      `[AskBeeves BG] Got ${follows.length} follows, fetching block lists for ${toFetch.length} of ${unfetched.length}...`
+    );
 
-          await updateSyncStatus({
-            syncedFollows: syncedCount,
-            totalFollows: follows.length,
-          });
+    // Queue every fetch up front; each host works through its own queue, so a slow PDS
+    // only delays its own users
+    const scheduler = createHostScheduler(hostConcurrency, MAX_CONCURRENT_FETCHES);
+    // Not yet fetched in this slice; pending also holds users fetched since the last save
+    const remaining = new Set(toFetch.map((f) => f.did));
+    let batchIndex = checkpoint.lastCompletedChunk;
+    let syncedCount = follows.length - unfetched.length;
+    let completedSinceSave = 0;
+    // Errors for follows that aren't refetched in this slice (done earlier, or still to come) stand
+    const followedDids = new Set(follows.map((f) => f.did));
+    const previousErrors = new Map(syncStatus.errors.map((e) => [e.did, e]));
+    const errors = new Map(
+      [...previousErrors].filter(([did]) => followedDids.has(did) && !remaining.has(did))
+    );
+    // Dropped entries are deleted with the first save
+    const droppedDids = new Set<string>();
+    for (const did of Object.keys(ledger)) {
+      if (!followedDids.has(did)) {
+        delete ledger[did];
+        droppedDids.add(did);
+      }
+    }
+    for (const did of Object.keys(listBlocks.subscriptions)) {
+      if (!followedDids.has(did)) {
+        delete listBlocks.subscriptions[did];
+        droppedDids.add(did);
+      }
+    }
 
-          console.log(
-            `[AskBeeves BG] Synced blocks for ${user.handle} (${syncedCount}/${follows.length})${blocks.length > 0 ? ` - ${blocks.length} blocks` : ''}`
+    // Saves run one at a time, while fetches for other users carry on
+    let saveQueue: Promise<void> = Promise.resolve();
+    const saveProgress = (isLast: boolean): Promise<void> => {
+      const doneDids = toFetch
+        .map((f) => f.did)
+        .filter((did) => pending.has(did) && !remaining.has(did));
+      saveQueue = saveQueue.then(async () => {
+        await assertLeaseHeld(lease);
+        batchIndex++;
+        cache!.lastFullSync = Date.now();
+        if (isFullReconcile && isLast) {
+          cache!.lastFullReconcile = cache!.lastFullSync;
+        }
+        const saved = await safeSaveBlockCache(cache!, doneDids);
+        if (saved) {
+          console.log(`[AskBeeves BG] Saved cache (batch ${batchIndex + 1})`);
+          const changedDids = [...droppedDids, ...doneDids];
+          await saveSyncLedger(ledger, changedDids);
+          // Only subscriptions change before the last slice
+          await safeSaveListBlockCache(listBlocks, [], changedDids);
+          droppedDids.clear();
+          await persistPdsCache();
+          // Only checkpoint what actually made it into storage
+          for (const did of doneDids) pending.delete(did);
+          await saveSyncCheckpoint(
+            { ...checkpoint!, lastCompletedChunk: batchIndex, pendingDids: [...pending] },
+            doneDids
           );
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-          errors.push(`Failed to sync ${user.handle}: ${errorMsg}`);
-          console.error(`[AskBeeves BG] Error syncing ${user.handle}:`, error);
+        } else {
+          console.error('[AskBeeves BG] Failed to save cache after pruning');
         }
       });
+      return saveQueue;
+    };
 
-      await Promise.all(blockPromises);
+    await Promise.all(
+      toFetch.map(async (user) => {
+        const { blockCount, error, listBlocksRead } = await syncFollow(
+          cache!,
+          user,
+          scheduler,
+          isFullReconcile,
+          lease.controller.signal,
+          previousErrors.get(user.did),
+          listBlocksDue(ledger, user.did, isFullReconcile) ? listBlocks : undefined
+        );
+        // Stopped, or the sync that took over will fetch this user again
+        if (lease.controller.signal.aborted) return;
+        if (error) {
+          errors.set(user.did, error);
+        }
+        recordSync(ledger, user.did, blockCount, error, listBlocksRead);
 
-      // Save incrementally to avoid quota issues
-      if ((chunkIndex + 1) % SAVE_INTERVAL === 0 || chunkIndex === chunks.length - 1) {
-        cache.lastFullSync = Date.now();
-        const saved = await safeSaveBlockCache(cache);
-        if (saved) {
-          console.log(`[AskBeeves BG] Saved cache (batch ${chunkIndex + 1}/${chunks.length})`);
-        } else {
-          console.error('[AskBeeves BG] Failed to save cache after pruning');
+        syncedCount++;
+        remaining.delete(user.did);
+
+        await updateSyncStatus({
+          syncedFollows: syncedCount,
+          totalFollows: follows.length,
+        });
+
+        console.log(
+          `[AskBeeves BG] Synced blocks for ${user.handle} (${syncedCount}/${follows.length})${blockCount > 0 ? ` - ${blockCount} blocks` : ''}${error ? ` - ${error.message}` : ''}`
+        );
+
+        // Save incrementally to avoid quota issues
+        if (++completedSinceSave >= SAVE_INTERVAL_USERS && remaining.size > 0) {
+          completedSinceSave = 0;
+          await saveProgress(false);
         }
-      }
+      })
+    );
+    await saveProgress(isLastSlice);
 
-      // Add delay between batches (except after the last one)
-      if (chunkIndex < chunks.length - 1) {
-        await sleep(RATE_LIMIT_DELAY_MS);
-      }
+    if (!isLastSlice) {
+      // Carry this slice's errors over to the next, which reads them as previous errors
+      await updateSyncStatus({ errors: [...errors.values()] });
+      await alarms.create(SLICE_ALARM_NAME, { when: Date.now() + SLICE_DELAY_MS });
+      console.log(`[AskBeeves BG] Sync slice done, ${pending.size} block lists to go`);
+      return;
     }
 
+    // Lists are resolved once every account's list blocks are in
+    const changedLists = await syncModerationLists(
+      listBlocks,
+      scheduler,
+      isFullReconcile,
+      lease.controller.signal
+    );
+    await assertLeaseHeld(lease);
+    await safeSaveListBlockCache(listBlocks, changedLists, []);
+
+    await clearSyncCheckpoint();
+
     await updateSyncStatus({
       isRunning: false,
       lastSync: Date.now(),
       syncedFollows: syncedCount,
       totalFollows: follows.length,
-      errors,
+      errors: [...errors.values()],
+      lastError: undefined,
     });
+    await scheduleRetryAlarm([...errors.values()]);
 
     console.log('[AskBeeves BG] Full sync complete');
+
+    // Follows may have changed, so refresh the live subscription's DID filter
+    await refreshRealtime();
   } catch (error) {
+    // Stopped, or lost the lease: status and checkpoint belong to whoever did that now
+    if (lease.controller.signal.aborted) return;
+    // The checkpoint is kept, so the next run resumes from the last saved batch
     const errorMsg = error instanceof Error ? error.message : 'Unknown error';
     console.error('[AskBeeves BG] Sync error:', error);
     await updateSyncStatus({
       isRunning: false,
-      errors: [errorMsg],
+      lastError: errorMsg,
     });
   }
 }
 
+/**
+ * Retry follows whose block lists failed with a retryable error, between full syncs
+ */
+async function retryFailedSyncs(): Promise<void> {
+  try {
+    if (!(await withSyncLease(false, runRetries))) {
+      // The sync holding the lease may not get to reschedule them (it can fail, or be stopped)
+      await alarms.create(RETRY_ALARM_NAME, { when: Date.now() + RETRY_BASE_DELAY_MS });
+    }
+  } catch (error) {
+    console.error('[AskBeeves BG] Retry error:', error);
+  }
+}
+
+async function runRetries(lease: HeldLease): Promise<void> {
+  if (await getSyncCheckpoint()) {
+    // A sync is between slices; it refetches everyone and reschedules retries when it's done
+    console.log('[AskBeeves BG] Sync in progress, skipping retries');
+    return;
+  }
+
+  const syncStatus = await getSyncStatus();
+  const now = Date.now();
+  const due = syncStatus.errors.filter((e) => e.nextRetryAt !== undefined && e.nextRetryAt <= now);
+  const cache = due.length > 0 ? await getBlockCache() : null;
+  if (!cache) {
+    await scheduleRetryAlarm(syncStatus.errors);
+    return;
+  }
+
+  console.log(`[AskBeeves BG] Retrying ${due.length} failed block-list fetches...`);
+  populatePdsCache(await getPdsCache());
+  const ledger = await getSyncLedger();
+  const listBlocks = await getListBlockCache();
+  const followedByDid = new Map(cache.followedUsers.map((u) => [u.did, u]));
+  const errors = new Map(syncStatus.errors.map((e) => [e.did, e]));
+  const scheduler = createHostScheduler(hostConcurrency, MAX_CONCURRENT_FETCHES);
+
+  await Promise.all(
+    due.map(async (previousError) => {
+      errors.delete(previousError.did);
+      const user = followedByDid.get(previousError.did);
+      if (!user) return; // Unfollowed since
+
+      // Delta fetch from the last complete read's marker (a full fetch if there was none)
+      const { blockCount, error, listBlocksRead } = await syncFollow(
+        cache,
+        user,
+        scheduler,
+        false,
+        lease.controller.signal,
+        previousError,
+        listBlocksDue(ledger, user.did, false) ? listBlocks : undefined
+      );
+      recordSync(ledger, user.did, blockCount, error, listBlocksRead);
+      if (error) {
+        errors.set(user.did, error);
+      } else {
+        console.log(`[AskBeeves BG] Retry succeeded for ${user.handle}`);
+      }
+    })
+  );
+  // Lists first blocked through by a retried follow
+  const changedLists = await syncModerationLists(
+    listBlocks,
+    scheduler,
+    false,
+    lease.controller.signal
+  );
+
+  await assertLeaseHeld(lease);
+  const retriedDids = due.map((e) => e.did);
+  await safeSaveBlockCache(cache, retriedDids);
+  await saveSyncLedger(ledger, retriedDids);
+  await safeSaveListBlockCache(listBlocks, changedLists, retriedDids);
+  await persistPdsCache();
+  await updateSyncStatus({ errors: [...errors.values()] });
+  await scheduleRetryAlarm([...errors.values()]);
+}
+
+/**
+ * Set the retry alarm for the earliest pending retry, or clear it if there are none
+ */
+async function scheduleRetryAlarm(errors: SyncError[]): Promise<void> {
+  const retryTimes = errors.map((e) => e.nextRetryAt).filter((t): t is number => t !== undefined);
+
+  await alarms.clear(RETRY_ALARM_NAME);
+  if (retryTimes.length > 0) {
+    await alarms.create(RETRY_ALARM_NAME, { when: Math.min(...retryTimes) });
+  }
+}
+
+/**
+ * Store PDS resolutions so the next worker doesn't resolve every follow again
+ * Losing them only costs lookups, so failures don't stop the sync
+ */
+async function persistPdsCache(): Promise<void> {
+  try {
+    await savePdsCache(getPdsCacheEntries());
+  } catch (error) {
+    console.error('[AskBeeves BG] Failed to save PDS cache:', error);
+  }
+}
+
+/**
+ * Continue a sync that has a checkpoint: its next slice, or where it was cut off when the
+ * worker was terminated
+ */
+async function resumeInterruptedSync(): Promise<void> {
+  const checkpoint = await getSyncCheckpoint();
+  if (!checkpoint) return;
+
+  console.log('[AskBeeves BG] Found unfinished sync, resuming...');
+  await performFullSync({ afterRestart: true });
+}
+
+/**
+ * Whether the logged-in account blocks profileDid, from its own block records
+ * Only records newer than the last fetch are fetched, except for an hourly full refetch that
+ * catches unblocks. Returns undefined if the block list can't be read.
+ */
+async function viewerBlocksProfile(
+  viewerDid: string,
+  profileDid: string
+): Promise<boolean | undefined> {
+  const known =
+    viewerBlocks?.did === viewerDid &&
+    Date.now() - viewerBlocks.reconciledAt < VIEWER_RECONCILE_INTERVAL_MS
+      ? viewerBlocks
+      : null;
+
+  try {
+    // Without a known rkey (no blocks yet, or time to reconcile) this fetches the full list
+    const result = await getUserBlocksSince(viewerDid, known?.newestRkey);
+    if (result.state !== 'complete') {
+      return known?.blocks.has(profileDid);
+    }
+    viewerBlocks = known
+      ? {
+          ...known,
+          blocks: new Set([...known.blocks, ...result.blocks]),
+          newestRkey: result.newestRkey ?? known.newestRkey,
+        }
+      : {
+          did: viewerDid,
+          blocks: new Set(result.blocks),
+          newestRkey: result.newestRkey,
+          reconciledAt: Date.now(),
+        };
+    return viewerBlocks.blocks.has(profileDid);
+  } catch (error) {
+    console.log('[AskBeeves BG] Could not fetch your blocks:', error);
+    return known?.blocks.has(profileDid);
+  }
+}
+
+/**
+ * Start, retarget or stop the Jetstream subscription to match settings and follows
+ */
+async function refreshRealtime(): Promise<void> {
+  try {
+    const settings = await getSettings();
+    if (!settings.realtimeEnabled) {
+      stopJetstream();
+      return;
+    }
+
+    const cache = await getBlockCache();
+    startJetstream(settings.jetstreamUrl, cache?.followedUsers.map((u) => u.did) ?? []);
+  } catch (error) {
+    console.error('[AskBeeves BG] Failed to refresh real-time updates:', error);
+  }
+}
+
 /**
  * Setup the periodic sync alarm
  */
@@ -259,8 +1245,12 @@ function handleMessage(
   // Handle async messages that need to return true
   if (message.type === 'TRIGGER_SYNC') {
     performFullSync()
-      .then(() => {
-        sendResponse({ success: true });
+      .then((started) => {
+        sendResponse(
+          started
+            ? { success: true }
+            : { success: false, error: 'A sync is already running', alreadyRunning: true }
+        );
       })
       .catch((error) => {
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
@@ -285,28 +1275,28 @@ async function handleSyncMessage(
     switch (message.type) {
       case 'SET_AUTH': {
         if (message.auth) {
-          const existingAuth = await getStoredAuth();
           await storeAuth(message.auth);
           console.log('[AskBeeves BG] Auth stored');
+          if ((await getActiveAccount()) !== message.auth.did) {
+            await switchAccount(message.auth.did);
+          }
 
-          // Check if we need to sync
+          // Check if we need to sync (an account seen before keeps its cache)
           const cache = await getBlockCache();
           const cacheIsEmpty = !cache || cache.followedUsers.length === 0;
-          const isNewUser = !existingAuth || existingAuth.did !== message.auth.did;
-          // Also sync if we have follows but very few block caches (incomplete sync)
-          const blockCacheCount = cache ? Object.keys(cache.userBlockCaches).length : 0;
-          const cacheIncomplete =
-            cache && cache.followedUsers.length > 100 && blockCacheCount < cache.followedUsers.length * 0.05;
+          // Also sync if some follows were never synced (interrupted or from an older version)
+          const coverage = getSyncCoverage(cache, await getSyncLedger());
+          const cacheIncomplete = coverage.unsynced > 0;
 
-          if (isNewUser || cacheIsEmpty || cacheIncomplete) {
+          if (cacheIsEmpty || cacheIncomplete) {
             console.log(
               '[AskBeeves BG] Triggering sync:',
-              isNewUser ? 'new user' : cacheIsEmpty ? 'empty cache' : 'incomplete cache'
+              cacheIsEmpty ? 'empty cache' : 'incomplete cache'
             );
             performFullSync(); // Fire and forget
           } else {
             console.log(
-              `[AskBeeves BG] Skipping sync - cache looks complete (${blockCacheCount} block caches for ${cache?.followedUsers.length} follows)`
+              `[AskBeeves BG] Skipping sync - cache is complete (${coverage.checked} checked, ${coverage.failed} failed, ${coverage.pruned} pruned of ${coverage.totalFollows} follows)`
             );
           }
         }
@@ -319,28 +1309,28 @@ async function handleSyncMessage(
           sendResponse({ success: false, error: 'Missing profileDid' });
           break;
         }
-        const cache = await getBlockCache();
-        const cacheCount = cache ? Object.keys(cache.userBlockCaches).length : 0;
-        const totalBlocks = cache
-          ? Object.values(cache.userBlockCaches).reduce((sum, uc) => sum + (uc.blocks?.length || 0), 0)
-          : 0;
-        console.log(
-          '[AskBeeves BG] Cache state:',
-          cache
-            ? `${cache.followedUsers.length} follows, ${cacheCount} users with blocks, ${totalBlocks} total blocks indexed`
-            : 'empty'
-        );
-
         // Fetch viewed profile's blocks (for "blocking" relationship)
-        const profileBlocks = await getUserBlocks(message.profileDid).catch((error) => {
+        const profileBlocksResult = await getUserBlocksSince(message.profileDid).catch((error) => {
           console.log('[AskBeeves BG] Could not fetch profile blocks:', error);
-          return [] as string[];
+          return null;
         });
+        const profileBlocks = profileBlocksResult?.blocks ?? [];
 
         console.log(`[AskBeeves BG] Fetched ${profileBlocks.length} blocks for viewed profile`);
 
         // Look up blocking info directly from stored block lists (no false positives)
         const blockingInfo = await lookupBlockingInfo(message.profileDid, profileBlocks);
+
+        // Your own relationship with the profile
+        const auth = await getStoredAuth();
+        if (auth?.did) {
+          // Unknown unless every block record was read
+          blockingInfo.blocksViewer =
+            profileBlocksResult?.state === 'complete'
+              ? profileBlocks.includes(auth.did)
+              : undefined;
+          blockingInfo.blockedByViewer = await viewerBlocksProfile(auth.did, message.profileDid);
+        }
         console.log(
           '[AskBeeves BG] Blocking info for',
           message.profileDid,
@@ -372,14 +1362,31 @@ async function handleSyncMessage(
 
       case 'GET_SYNC_STATUS': {
         const syncStatus = await getSyncStatus();
-        sendResponse({ success: true, syncStatus });
+        // A sync cut off with its worker leaves isRunning set, but its lease runs out. Between
+        // slices there's no lease, but the checkpoint shows the sync isn't done.
+        const lease = await getSyncLease();
+        syncStatus.isRunning &&=
+          (lease !== null && lease.expiresAt > Date.now()) || (await getSyncCheckpoint()) !== null;
+        const coverage = getSyncCoverage(await getBlockCache(), await getSyncLedger());
+        sendResponse({ success: true, syncStatus, coverage });
         break;
       }
 
       case 'CLEAR_CACHE': {
         console.log('[AskBeeves BG] Clearing cache and resetting sync status...');
+        stopJetstream();
+        // Stop a running sync first, so it can't write into the new cache, and revoke a lease
+        // left by a terminated worker
+        await abortActiveRun('Cache cleared');
+        await releaseSyncLease();
         // Clear cache
-        await saveBlockCache(createEmptyCache(''));
+        await clearBlockCache();
+        await clearListBlockCache();
+        await clearSyncCheckpoint();
+        await saveSyncLedger({});
+        clearPdsCache();
+        await savePdsCache([]);
+        await alarms.clear(RETRY_ALARM_NAME);
         // Reset sync status including isRunning flag
         await updateSyncStatus({
           totalFollows: 0,
@@ -387,15 +1394,45 @@ async function handleSyncMessage(
           lastSync: 0,
           isRunning: false,
           errors: [],
+          lastError: undefined,
         });
         console.log('[AskBeeves BG] Cache cleared, triggering full sync...');
-        // Small delay to ensure status is saved before sync checks it
-        await new Promise((resolve) => setTimeout(resolve, 100));
         performFullSync(); // Fire and forget
         sendResponse({ success: true });
         break;
       }
 
+      case 'GET_ACCOUNTS': {
+        const [accounts, activeAccount] = await Promise.all([getAccounts(), getActiveAccount()]);
+        sendResponse({ success: true, accounts, activeAccount });
+        break;
+      }
+
+      case 'SWITCH_ACCOUNT': {
+        const did = message.accountDid;
+        const accounts = await getAccounts();
+        if (!did || !accounts.some((account) => account.did === did)) {
+          sendResponse({ success: false, error: 'Unknown account' });
+          break;
+        }
+        if ((await getActiveAccount()) !== did) {
+          await switchAccount(did);
+          // Pick up the account's unfinished sync, if it had one
+          resumeInterruptedSync().catch((error) => {
+            console.error('[AskBeeves BG] Failed to resume sync:', error);
+          });
+        }
+        sendResponse({ success: true });
+        break;
+      }
+
+      case 'STOP_SYNC': {
+        console.log('[AskBeeves BG] Stopping sync...');
+        const stopped = await stopSync();
+        sendResponse(stopped ? { success: true } : { success: false, error: 'No sync is running' });
+        break;
+      }
+
       default:
         sendResponse({ success: false, error: 'Unknown message type' });
     }
@@ -407,38 +1444,77 @@ async function handleSyncMessage(
 }
 
 /**
- * Initialize on install/startup
+ * Upgrade stored data to the current schema
+ */
+async function migrateStorage(): Promise<void> {
+  try {
+    await runMigrations();
+  } catch (error) {
+    console.error('[AskBeeves BG] Storage migration failed:', error);
+  }
+}
+
+/**
+ * Initialize when the background script loads
+ * Listeners are registered straight away so no event is missed, but everything that reads
+ * storage waits until the migrations have run.
  */
 function initializeExtension(): void {
   console.log('[AskBeeves BG] Initializing extension');
+  const migrated = migrateStorage();
   setupAlarm();
 
   // Sync auth from content script
   // Cast the handler to the expected type - we know our messages are Message type
-  runtime.onMessage.addListener((message, sender, sendResponse) =>
-    handleMessage(message as Message, sender, sendResponse as (response: MessageResponse) => void)
-  );
+  runtime.onMessage.addListener((message, sender, sendResponse) => {
+    migrated.then(() =>
+      handleMessage(message as Message, sender, sendResponse as (response: MessageResponse) => void)
+    );
+    return true; // Keep channel open for async response
+  });
 
   // Set up alarm listener
-  alarms.onAlarm.addListener((alarm) => {
+  alarms.onAlarm.addListener(async (alarm) => {
+    await migrated;
     if (alarm.name === ALARM_NAME) {
       console.log('[AskBeeves BG] Alarm triggered, starting sync');
       performFullSync();
+    } else if (alarm.name === SLICE_ALARM_NAME) {
+      resumeInterruptedSync().catch((error) => {
+        console.error('[AskBeeves BG] Failed to continue sync:', error);
+      });
+    } else if (alarm.name === RETRY_ALARM_NAME) {
+      console.log('[AskBeeves BG] Retry alarm triggered');
+      retryFailedSyncs();
     }
   });
+
+  // Apply real-time settings as soon as they change in the options page (shared settings or
+  // any account's; only the active account's apply)
+  storage.onChanged.addListener((changes, areaName) => {
+    const settingsChanged = Object.keys(changes).some(
+      (key) => key === STORAGE_KEYS.SETTINGS || key.startsWith(`${STORAGE_KEYS.SETTINGS}:`)
+    );
+    if (areaName === 'sync' && settingsChanged) {
+      migrated.then(refreshRealtime);
+    }
+  });
+
+  migrated.then(() => {
+    refreshRealtime();
+    resumeInterruptedSync().catch((error) => {
+      console.error('[AskBeeves BG] Failed to resume sync:', error);
+    });
+  });
 }
 
-// Initialize on install
+// Install, update and browser startup all load the background script, which initializes below
 runtime.onInstalled.addListener(() => {
   console.log('[AskBeeves BG] Extension installed');
-  initializeExtension();
 });
 
-// Initialize on startup
 runtime.onStartup.addListener(() => {
   console.log('[AskBeeves BG] Extension started');
-  initializeExtension();
 });
 
-// Initialize on load (in case background script is already running)
 initializeExtension();
@@ -0,0 +1,279 @@
+/**
+ * AskBeeves - Compact block cache encoding
+ * Packs a block cache for storage.local, where every byte counts against the quota. Block
+ * lists are stored inverted: each blocked DID appears once in a sorted table (did:plc
+ * identifiers as their 15 raw bytes), followed by references to the lists that contain it.
+ * Table entries and references are fixed-width base64, so a lookup decodes only what it reads.
+ * The IndexedDB store keeps the same 15 bytes per did:plc identifier as 8-character keys.
+ */
+
+import { BlockCacheData, PackedBlockCache, PackedDidTable, UserBlockCache } from './types.js';
+
+const PLC_DID = /^did:plc:[a-z2-7]{24}$/;
+const PLC_PREFIX = 'did:plc:';
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const PLC_ID_BYTES = 15; // 24 base32 characters
+const PLC_ID_CHARS = 20; // Base64 characters per packed identifier
+const INT_CHARS = 4; // Base64 characters per 24-bit integer
+const KEY_CHAR_BITS = 15;
+const KEY_CHAR_BASE = 0x100; // Above ASCII so keys never read as DIDs, and below the surrogates
+
+/**
+ * Encode a DID as an IndexedDB key: a did:plc identifier's 15 bytes as 8 characters of 15 bits
+ * each, any other DID as it is
+ */
+export function encodeDidKey(did: string): string {
+  if (!PLC_DID.test(did)) return did;
+
+  let key = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of encodePlcId(did)) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    if (bits >= KEY_CHAR_BITS) {
+      bits -= KEY_CHAR_BITS;
+      key += String.fromCharCode(KEY_CHAR_BASE + ((buffer >> bits) & 0x7fff));
+    }
+  }
+  return key;
+}
+
+/**
+ * Decode a DID stored by encodeDidKey (or saved as it is by older versions)
+ */
+export function decodeDidKey(key: string): string {
+  if (key.charCodeAt(0) < KEY_CHAR_BASE) return key;
+
+  const bytes = new Uint8Array(PLC_ID_BYTES);
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (let i = 0; i < key.length; i++) {
+    buffer = (buffer << KEY_CHAR_BITS) | (key.charCodeAt(i) - KEY_CHAR_BASE);
+    bits += KEY_CHAR_BITS;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return decodePlcId(bytes);
+}
+
+/**
+ * Pack a block cache for storage
+ */
+export function packBlockCache(cache: BlockCacheData): PackedBlockCache {
+  const { userBlockCaches, ...rest } = cache;
+  const lists = Object.values(userBlockCaches);
+
+  // Blocked DID -> positions of the lists containing it (re-blocks can repeat a subject)
+  const listsByDid = new Map<string, number[]>();
+  lists.forEach((list, position) => {
+    for (const did of new Set(list.blocks)) {
+      const positions = listsByDid.get(did);
+      if (positions) {
+        positions.push(position);
+      } else {
+        listsByDid.set(did, [position]);
+      }
+    }
+  });
+
+  const dids = [...listsByDid.keys()];
+  const plcIds = dids
+    .filter((did) => PLC_DID.test(did))
+    .map((did) => ({ did, bytes: encodePlcId(did) }))
+    .sort((a, b) => compareBytes(a.bytes, b.bytes));
+  const other = dids.filter((did) => !PLC_DID.test(did)).sort();
+  const table = [...plcIds.map((id) => id.did), ...other];
+
+  const offsets = [0];
+  const refs: number[] = [];
+  for (const did of table) {
+    refs.push(...listsByDid.get(did)!);
+    offsets.push(refs.length);
+  }
+
+  return {
+    ...rest,
+    lists: lists.map(({ blocks: _blocks, ...list }) => list),
+    blocked: {
+      plc: plcIds.map((id) => toBase64(id.bytes)).join(''),
+      other,
+    },
+    offsets: packInts(offsets),
+    refs: packInts(refs),
+  };
+}
+
+/**
+ * Unpack a stored block cache
+ */
+export function unpackBlockCache(packed: PackedBlockCache): BlockCacheData {
+  const { lists, blocked, offsets, refs, ...rest } = packed;
+  const blocks: string[][] = lists.map(() => []);
+  const listOffsets = unpackInts(offsets, 0, tableSize(blocked) + 1);
+  const listRefs = unpackInts(refs, 0, refs.length / INT_CHARS);
+
+  for (let i = 0; i < listOffsets.length - 1; i++) {
+    const did = didAt(blocked, i);
+    for (let r = listOffsets[i]; r < listOffsets[i + 1]; r++) {
+      blocks[listRefs[r]].push(did);
+    }
+  }
+
+  return {
+    ...rest,
+    userBlockCaches: Object.fromEntries(
+      lists.map((list, position) => [list.did, { ...list, blocks: blocks[position] }])
+    ),
+  };
+}
+
+/**
+ * Find the lists in a packed cache that block profileDid, without unpacking the cache
+ */
+export function findPackedBlockLists(
+  packed: PackedBlockCache,
+  profileDid: string
+): Array<Omit<UserBlockCache, 'blocks'>> {
+  const position = findDid(packed.blocked, profileDid);
+  if (position < 0) return [];
+
+  const [start, end] = unpackInts(packed.offsets, position, 2);
+  return unpackInts(packed.refs, start, end - start).map((ref) => packed.lists[ref]);
+}
+
+/**
+ * Rough storage size of one list once packed (its references, not the shared table)
+ */
+export function estimatePackedListSize(list: UserBlockCache): number {
+  const { blocks, ...rest } = list;
+  return JSON.stringify(rest).length + new Set(blocks).size * INT_CHARS;
+}
+
+function tableSize(table: PackedDidTable): number {
+  return table.plc.length / PLC_ID_CHARS + table.other.length;
+}
+
+function didAt(table: PackedDidTable, position: number): string {
+  const plcCount = table.plc.length / PLC_ID_CHARS;
+  if (position >= plcCount) {
+    return table.other[position - plcCount];
+  }
+  const chars = table.plc.substr(position * PLC_ID_CHARS, PLC_ID_CHARS);
+  return decodePlcId(fromBase64(chars));
+}
+
+/**
+ * Position of a DID in the table, or -1
+ */
+function findDid(table: PackedDidTable, did: string): number {
+  const plcCount = table.plc.length / PLC_ID_CHARS;
+  if (!PLC_DID.test(did)) {
+    const index = binarySearch(table.other.length, (i) => compareStrings(table.other[i], did));
+    return index < 0 ? -1 : plcCount + index;
+  }
+
+  const bytes = encodePlcId(did);
+  return binarySearch(plcCount, (i) =>
+    compareBytes(fromBase64(table.plc.substr(i * PLC_ID_CHARS, PLC_ID_CHARS)), bytes)
+  );
+}
+
+function binarySearch(length: number, compareAt: (index: number) => number): number {
+  let low = 0;
+  let high = length - 1;
+  while (low <= high) {
+    const mid = (low + high) >>> 1;
+    const order = compareAt(mid);
+    if (order === 0) return mid;
+    if (order < 0) {
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return -1;
+}
+
+function encodePlcId(did: string): Uint8Array {
+  const bytes = new Uint8Array(PLC_ID_BYTES);
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (const char of did.slice(PLC_PREFIX.length)) {
+    buffer = (buffer << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes;
+}
+
+function decodePlcId(bytes: Uint8Array): string {
+  let id = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      id += BASE32_ALPHABET[(buffer >> bits) & 0x1f];
+    }
+  }
+  return PLC_PREFIX + id;
+}
+
+// Integers are 24-bit big-endian, so each takes exactly four base64 characters
+function packInts(values: number[]): string {
+  const bytes = new Uint8Array(values.length * 3);
+  values.forEach((value, i) => {
+    bytes[i * 3] = (value >> 16) & 0xff;
+    bytes[i * 3 + 1] = (value >> 8) & 0xff;
+    bytes[i * 3 + 2] = value & 0xff;
+  });
+  return toBase64(bytes);
+}
+
+function unpackInts(packed: string, start: number, count: number): number[] {
+  const bytes = fromBase64(packed.substr(start * INT_CHARS, count * INT_CHARS));
+  const values: number[] = [];
+  for (let i = 0; i < bytes.length; i += 3) {
+    values.push((bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2]);
+  }
+  return values;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large tables don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,656 @@
+/**
+ * AskBeeves - IndexedDB block store
+ * Keeps one record per followed user and per block list, so a sync only writes the users
+ * that changed and a profile lookup reads a few records through an index. Blocked DIDs and
+ * list members are stored encoded (see blockcodec.ts).
+ */
+
+import { encodeDidKey, decodeDidKey } from './blockcodec.js';
+import {
+  BlockCacheData,
+  BlockingInfo,
+  FollowedUser,
+  ListingRelation,
+  ModerationList,
+  SyncLedger,
+  SyncLedgerEntry,
+  UserBlockCache,
+} from './types.js';
+
+const DB_NAME = 'askbeeves';
+const DB_VERSION = 5;
+const FOLLOWS_STORE = 'follows';
+const BLOCK_LISTS_STORE = 'blockLists';
+const META_STORE = 'meta';
+const LISTING_STORE = 'graphListing'; // Pages of an unfinished listing of follows or followers
+const MODERATION_LISTS_STORE = 'moderationLists'; // Lists blocked through, without their members
+const LIST_MEMBERS_STORE = 'listMembers';
+const SYNC_LEDGER_STORE = 'syncLedger'; // Ledger entries, keyed by DID
+const PENDING_SYNC_STORE = 'pendingSync'; // Accounts an unfinished sync has still to fetch
+const LIST_SUBSCRIPTIONS_STORE = 'listSubscriptions'; // Lists each account blocks through
+const MEMBER_INDEX = 'member'; // Member DID -> moderation lists containing it
+const ORDER_INDEX = 'order'; // Pending accounts in the order they're fetched
+const LIST_INDEX = 'list'; // List URI -> accounts blocking through it
+const CACHE_INFO_KEY = 'cacheInfo';
+const BLOCKED_DID_INDEX = 'blockedDid'; // Blocked DID -> block lists containing it
+const FETCH_STATE_INDEX = 'fetchState'; // Only failed fetches set fetchState, so this lists them
+
+// Everything in BlockCacheData besides the per-user records
+type CacheInfo = Omit<BlockCacheData, 'followedUsers' | 'userBlockCaches'>;
+
+// A moderation list as stored, apart from its members so lookups don't read them
+type ModerationListInfo = Omit<ModerationList, 'members'>;
+
+interface ListMembers {
+  uri: string;
+  members: string[]; // Encoded
+}
+
+// Gets a user (undefined if not followed) and their block list, and returns the list to write,
+// null to delete it, or undefined to leave it as it is
+export type UserBlockCacheUpdate = (
+  user: FollowedUser | undefined,
+  existing: UserBlockCache | undefined
+) => UserBlockCache | null | undefined;
+
+// An account a sync has still to fetch, with its place in the fetch order
+interface PendingSync {
+  did: string;
+  order: number;
+}
+
+interface ListSubscriptions {
+  did: string;
+  lists: string[];
+}
+
+// A page of a listing, keyed by how many accounts were listed before it
+interface ListingPage {
+  relation: ListingRelation;
+  offset: number;
+  users: FollowedUser[];
+}
+
+/**
+ * Name of an account's block database
+ * Before accounts were kept apart, the one database had the plain name. It's also used
+ * while no account has logged in.
+ */
+export function blockDbName(account: string | null): string {
+  return account ? `${DB_NAME}:${account}` : DB_NAME;
+}
+
+/**
+ * Open (and create or upgrade) a block database
+ */
+export function openBlockDb(name = DB_NAME): Promise<IDBDatabase> {
+  const open = indexedDB.open(name, DB_VERSION);
+  open.onupgradeneeded = (event) => {
+    const db = open.result;
+    if (event.oldVersion < 1) {
+      db.createObjectStore(FOLLOWS_STORE, { keyPath: 'did' });
+      const blockLists = db.createObjectStore(BLOCK_LISTS_STORE, { keyPath: 'did' });
+      blockLists.createIndex(BLOCKED_DID_INDEX, 'blocks', { multiEntry: true });
+      blockLists.createIndex(FETCH_STATE_INDEX, 'fetchState');
+      db.createObjectStore(META_STORE);
+    }
+    if (event.oldVersion < 2) {
+      db.createObjectStore(LISTING_STORE, { keyPath: ['relation', 'offset'] });
+    }
+    if (event.oldVersion < 3) {
+      db.createObjectStore(MODERATION_LISTS_STORE, { keyPath: 'uri' });
+      const listMembers = db.createObjectStore(LIST_MEMBERS_STORE, { keyPath: 'uri' });
+      listMembers.createIndex(MEMBER_INDEX, 'members', { multiEntry: true });
+    }
+    if (event.oldVersion < 4) {
+      db.createObjectStore(SYNC_LEDGER_STORE);
+      const pending = db.createObjectStore(PENDING_SYNC_STORE, { keyPath: 'did' });
+      pending.createIndex(ORDER_INDEX, 'order');
+      const subscriptions = db.createObjectStore(LIST_SUBSCRIPTIONS_STORE, { keyPath: 'did' });
+      subscriptions.createIndex(LIST_INDEX, 'lists', { multiEntry: true });
+    }
+    if (event.oldVersion >= 1 && event.oldVersion < 5) {
+      encodeRecords(open.transaction!.objectStore(BLOCK_LISTS_STORE), 'blocks');
+    }
+    if (event.oldVersion >= 3 && event.oldVersion < 5) {
+      encodeRecords(open.transaction!.objectStore(LIST_MEMBERS_STORE), 'members');
+    }
+  };
+  return requestResult(open);
+}
+
+/**
+ * Encode the DIDs saved as plain strings by older versions, during an upgrade
+ */
+function encodeRecords(store: IDBObjectStore, field: 'blocks' | 'members'): void {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const record = cursor.value as Record<typeof field, string[]>;
+    cursor.update({ ...record, [field]: record[field].map(encodeDidKey) });
+    cursor.continue();
+  };
+}
+
+/**
+ * Read the whole cache back into a BlockCacheData
+ */
+export async function readBlockCache(db: IDBDatabase): Promise<BlockCacheData | null> {
+  const tx = db.transaction([FOLLOWS_STORE, BLOCK_LISTS_STORE, META_STORE], 'readonly');
+  const [info, followedUsers, blockLists] = await Promise.all([
+    requestResult<CacheInfo | undefined>(tx.objectStore(META_STORE).get(CACHE_INFO_KEY)),
+    requestResult<FollowedUser[]>(tx.objectStore(FOLLOWS_STORE).getAll()),
+    requestResult<UserBlockCache[]>(tx.objectStore(BLOCK_LISTS_STORE).getAll()),
+  ]);
+  if (!info) return null;
+
+  return {
+    ...info,
+    followedUsers,
+    userBlockCaches: Object.fromEntries(blockLists.map((list) => [list.did, decodeList(list)])),
+  };
+}
+
+/**
+ * Write a whole cache, such as one moved in from older storage
+ * Block lists already saved stay unless the cache has them too.
+ */
+export async function writeBlockCache(db: IDBDatabase, data: BlockCacheData): Promise<void> {
+  await writeRecords(db, data, Object.keys(data.userBlockCaches), true);
+}
+
+/**
+ * Write the sync info and the given users' block lists in one transaction, deleting the lists
+ * of users no longer in the cache
+ * @param changedDids - Users whose block lists were synced, removed or evicted since the last
+ *   write. No other record is touched.
+ */
+export async function writeBlockLists(
+  db: IDBDatabase,
+  data: BlockCacheData,
+  changedDids: Iterable<string>
+): Promise<void> {
+  await writeRecords(db, data, changedDids, false);
+}
+
+/**
+ * Replace the follow list, writing the sync info and the given users' block lists along with
+ * it (as writeBlockLists)
+ */
+export async function writeFollowList(
+  db: IDBDatabase,
+  data: BlockCacheData,
+  changedDids: Iterable<string>
+): Promise<void> {
+  await writeRecords(db, data, changedDids, true);
+}
+
+async function writeRecords(
+  db: IDBDatabase,
+  data: BlockCacheData,
+  changedDids: Iterable<string>,
+  withFollowList: boolean
+): Promise<void> {
+  const tx = db.transaction([FOLLOWS_STORE, BLOCK_LISTS_STORE, META_STORE], 'readwrite');
+  const blockLists = tx.objectStore(BLOCK_LISTS_STORE);
+  const { followedUsers, userBlockCaches, ...info } = data;
+
+  tx.objectStore(META_STORE).put(info, CACHE_INFO_KEY);
+  if (withFollowList) {
+    const follows = tx.objectStore(FOLLOWS_STORE);
+    follows.clear();
+    for (const user of followedUsers) follows.put(user);
+  }
+  for (const did of changedDids) {
+    const userCache = userBlockCaches[did];
+    if (userCache) {
+      blockLists.put(encodeList(userCache));
+    } else {
+      blockLists.delete(did);
+    }
+  }
+
+  await transactionDone(tx);
+}
+
+/**
+ * Read a single user's block list
+ */
+export async function readUserBlockCache(
+  db: IDBDatabase,
+  did: string
+): Promise<UserBlockCache | undefined> {
+  const list = await requestResult<UserBlockCache | undefined>(
+    db.transaction(BLOCK_LISTS_STORE, 'readonly').objectStore(BLOCK_LISTS_STORE).get(did)
+  );
+  return list && decodeList(list);
+}
+
+/**
+ * Read-modify-write a single user's block list in one transaction, if a cache exists
+ */
+export async function updateUserBlockRecord(
+  db: IDBDatabase,
+  did: string,
+  update: UserBlockCacheUpdate
+): Promise<void> {
+  const tx = db.transaction([FOLLOWS_STORE, BLOCK_LISTS_STORE, META_STORE], 'readwrite');
+  const blockLists = tx.objectStore(BLOCK_LISTS_STORE);
+  const [info, user, existing] = await Promise.all([
+    requestResult<CacheInfo | undefined>(tx.objectStore(META_STORE).get(CACHE_INFO_KEY)),
+    requestResult<FollowedUser | undefined>(tx.objectStore(FOLLOWS_STORE).get(did)),
+    requestResult<UserBlockCache | undefined>(blockLists.get(did)),
+  ]);
+  const updated = info ? update(user, existing && decodeList(existing)) : undefined;
+  if (updated) {
+    blockLists.put(encodeList(updated));
+  } else if (updated === null) {
+    blockLists.delete(did);
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * Followed users whose block lists contain profileDid
+ */
+export async function findBlockers(db: IDBDatabase, profileDid: string): Promise<FollowedUser[]> {
+  return blockersIn(db.transaction([FOLLOWS_STORE, BLOCK_LISTS_STORE], 'readonly'), profileDid);
+}
+
+/**
+ * The followed users among the given DIDs, by DID
+ */
+export async function findFollows(
+  db: IDBDatabase,
+  dids: string[]
+): Promise<Map<string, FollowedUser>> {
+  return getFollows(db.transaction(FOLLOWS_STORE, 'readonly'), dids);
+}
+
+/**
+ * Look up blocking info for a profile without reading the whole cache
+ * Returns null if there is no cache.
+ */
+export async function lookupBlockingInfoInDb(
+  db: IDBDatabase,
+  profileDid: string,
+  profileBlocks: string[]
+): Promise<BlockingInfo | null> {
+  const tx = db.transaction([BLOCK_LISTS_STORE, FOLLOWS_STORE, META_STORE], 'readonly');
+  const [info, blockedBy, blockedFollows, uncheckedDids] = await Promise.all([
+    requestResult<CacheInfo | undefined>(tx.objectStore(META_STORE).get(CACHE_INFO_KEY)),
+    blockersIn(tx, profileDid),
+    getFollows(tx, profileBlocks),
+    requestResult<string[]>(
+      tx.objectStore(BLOCK_LISTS_STORE).index(FETCH_STATE_INDEX).getAllKeys()
+    ),
+  ]);
+  if (!info) return null;
+
+  // Follows whose last fetch failed may block this profile without us knowing, and follows
+  // evicted to fit the quota are missing from both directions
+  const blockLists = tx.objectStore(BLOCK_LISTS_STORE);
+  const [uncheckedFollows, evictedFollows, evictedLists] = await Promise.all([
+    getFollows(tx, uncheckedDids),
+    getFollows(tx, info.evictedDids ?? []),
+    Promise.all((info.evictedDids ?? []).map((did) => requestResult(blockLists.getKey(did)))),
+  ]);
+  const unindexed = (info.evictedDids ?? []).filter(
+    (did, i) => evictedFollows.has(did) && evictedLists[i] === undefined
+  );
+
+  return {
+    blockedBy,
+    blocking: profileBlocks
+      .map((did) => blockedFollows.get(did))
+      .filter((user): user is FollowedUser => user !== undefined),
+    uncheckedCount: uncheckedFollows.size,
+    unindexedCount: unindexed.length,
+    graphScope: info.graphScope,
+  };
+}
+
+/**
+ * Read every saved moderation list, by URI
+ */
+export async function readModerationLists(
+  db: IDBDatabase
+): Promise<Record<string, ModerationList>> {
+  const tx = db.transaction([MODERATION_LISTS_STORE, LIST_MEMBERS_STORE], 'readonly');
+  const [lists, members] = await Promise.all([
+    requestResult<ModerationListInfo[]>(tx.objectStore(MODERATION_LISTS_STORE).getAll()),
+    requestResult<ListMembers[]>(tx.objectStore(LIST_MEMBERS_STORE).getAll()),
+  ]);
+  const membersByUri = new Map(
+    members.map((entry) => [entry.uri, entry.members.map(decodeDidKey)])
+  );
+  return Object.fromEntries(
+    lists.map((list) => [list.uri, { ...list, members: membersByUri.get(list.uri) ?? [] }])
+  );
+}
+
+/**
+ * Write moderation lists in one transaction
+ * @param changedUris - Only write these lists (deleting any no longer in lists). Everything
+ *   is replaced when omitted.
+ */
+export async function writeModerationLists(
+  db: IDBDatabase,
+  lists: Record<string, ModerationList>,
+  changedUris?: Iterable<string>
+): Promise<void> {
+  const tx = db.transaction([MODERATION_LISTS_STORE, LIST_MEMBERS_STORE], 'readwrite');
+  const infoStore = tx.objectStore(MODERATION_LISTS_STORE);
+  const membersStore = tx.objectStore(LIST_MEMBERS_STORE);
+  if (!changedUris) {
+    infoStore.clear();
+    membersStore.clear();
+  }
+
+  for (const uri of changedUris ?? Object.keys(lists)) {
+    const list = lists[uri];
+    if (list) {
+      const { members, ...info } = list;
+      infoStore.put(info);
+      membersStore.put({ uri, members: members.map(encodeDidKey) } satisfies ListMembers);
+    } else {
+      infoStore.delete(uri);
+      membersStore.delete(uri);
+    }
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * Moderation lists that have did as a member (without their members)
+ */
+export async function findListsWithMember(
+  db: IDBDatabase,
+  did: string
+): Promise<ModerationListInfo[]> {
+  const tx = db.transaction([MODERATION_LISTS_STORE, LIST_MEMBERS_STORE], 'readonly');
+  const uris = await requestResult<string[]>(
+    tx.objectStore(LIST_MEMBERS_STORE).index(MEMBER_INDEX).getAllKeys(encodeDidKey(did))
+  );
+  const store = tx.objectStore(MODERATION_LISTS_STORE);
+  const lists = await Promise.all(
+    uris.map((uri) => requestResult<ModerationListInfo | undefined>(store.get(uri)))
+  );
+  return lists.filter((list): list is ModerationListInfo => list !== undefined);
+}
+
+/**
+ * Save a page of follows or followers listed by an unfinished sync
+ * @param offset - How many accounts were listed before this page
+ */
+export async function putListingPage(
+  db: IDBDatabase,
+  relation: ListingRelation,
+  offset: number,
+  users: FollowedUser[]
+): Promise<void> {
+  const tx = db.transaction(LISTING_STORE, 'readwrite');
+  tx.objectStore(LISTING_STORE).put({ relation, offset, users } satisfies ListingPage);
+  await transactionDone(tx);
+}
+
+/**
+ * Read back the saved pages of a listing, in order
+ */
+export async function readListingPages(
+  db: IDBDatabase,
+  relation: ListingRelation
+): Promise<ListingPage[]> {
+  return requestResult<ListingPage[]>(
+    db
+      .transaction(LISTING_STORE, 'readonly')
+      .objectStore(LISTING_STORE)
+      .getAll(listingRange(relation))
+  );
+}
+
+/**
+ * Delete the saved pages of a listing, or of both when relation is omitted
+ */
+export async function clearListingPages(
+  db: IDBDatabase,
+  relation?: ListingRelation
+): Promise<void> {
+  const tx = db.transaction(LISTING_STORE, 'readwrite');
+  const store = tx.objectStore(LISTING_STORE);
+  if (relation) {
+    store.delete(listingRange(relation));
+  } else {
+    store.clear();
+  }
+  await transactionDone(tx);
+}
+
+function listingRange(relation: ListingRelation): IDBKeyRange {
+  return IDBKeyRange.bound([relation, 0], [relation, Infinity]);
+}
+
+/**
+ * Delete the block cache: the follow list, block lists and sync info
+ */
+export async function deleteBlockCache(db: IDBDatabase): Promise<void> {
+  const stores = [FOLLOWS_STORE, BLOCK_LISTS_STORE, META_STORE];
+  const tx = db.transaction(stores, 'readwrite');
+  for (const name of stores) {
+    tx.objectStore(name).clear();
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * Read the whole sync ledger
+ */
+export async function readSyncLedger(db: IDBDatabase): Promise<SyncLedger> {
+  const store = db.transaction(SYNC_LEDGER_STORE, 'readonly').objectStore(SYNC_LEDGER_STORE);
+  const [dids, entries] = await Promise.all([
+    requestResult<string[]>(store.getAllKeys()),
+    requestResult<SyncLedgerEntry[]>(store.getAll()),
+  ]);
+  return Object.fromEntries(dids.map((did, i) => [did, entries[i]]));
+}
+
+/**
+ * Write sync ledger entries in one transaction
+ * @param changedDids - Only write these entries (deleting any no longer in ledger). The whole
+ *   ledger is replaced when omitted.
+ */
+export async function writeSyncLedger(
+  db: IDBDatabase,
+  ledger: SyncLedger,
+  changedDids?: Iterable<string>
+): Promise<void> {
+  const tx = db.transaction(SYNC_LEDGER_STORE, 'readwrite');
+  const store = tx.objectStore(SYNC_LEDGER_STORE);
+  if (!changedDids) store.clear();
+
+  for (const did of changedDids ?? Object.keys(ledger)) {
+    const entry = ledger[did];
+    if (entry) {
+      store.put(entry, did);
+    } else {
+      store.delete(did);
+    }
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * Read the accounts an unfinished sync has still to fetch, in fetch order
+ */
+export async function readPendingSync(db: IDBDatabase): Promise<string[]> {
+  const pending = await requestResult<PendingSync[]>(
+    db
+      .transaction(PENDING_SYNC_STORE, 'readonly')
+      .objectStore(PENDING_SYNC_STORE)
+      .index(ORDER_INDEX)
+      .getAll()
+  );
+  return pending.map((entry) => entry.did);
+}
+
+/**
+ * Replace the accounts a sync has still to fetch, or only remove fetched ones
+ * @param doneDids - Remove these instead of writing dids
+ */
+export async function writePendingSync(
+  db: IDBDatabase,
+  dids: string[],
+  doneDids?: Iterable<string>
+): Promise<void> {
+  const tx = db.transaction(PENDING_SYNC_STORE, 'readwrite');
+  const store = tx.objectStore(PENDING_SYNC_STORE);
+  if (doneDids) {
+    for (const did of doneDids) store.delete(did);
+  } else {
+    store.clear();
+    dids.forEach((did, order) => store.put({ did, order } satisfies PendingSync));
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * Read which lists each account blocks through
+ */
+export async function readListSubscriptions(db: IDBDatabase): Promise<Record<string, string[]>> {
+  const subscriptions = await requestResult<ListSubscriptions[]>(
+    db
+      .transaction(LIST_SUBSCRIPTIONS_STORE, 'readonly')
+      .objectStore(LIST_SUBSCRIPTIONS_STORE)
+      .getAll()
+  );
+  return Object.fromEntries(subscriptions.map((entry) => [entry.did, entry.lists]));
+}
+
+/**
+ * Write which lists accounts block through in one transaction
+ * @param changedDids - Only write these accounts (deleting any no longer in subscriptions).
+ *   Everything is replaced when omitted.
+ */
+export async function writeListSubscriptions(
+  db: IDBDatabase,
+  subscriptions: Record<string, string[]>,
+  changedDids?: Iterable<string>
+): Promise<void> {
+  const tx = db.transaction(LIST_SUBSCRIPTIONS_STORE, 'readwrite');
+  const store = tx.objectStore(LIST_SUBSCRIPTIONS_STORE);
+  if (!changedDids) store.clear();
+
+  for (const did of changedDids ?? Object.keys(subscriptions)) {
+    const lists = subscriptions[did];
+    if (lists) {
+      store.put({ did, lists } satisfies ListSubscriptions);
+    } else {
+      store.delete(did);
+    }
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * Which of the given lists each account blocking through any of them subscribes to
+ */
+export async function findListSubscribers(
+  db: IDBDatabase,
+  listUris: string[]
+): Promise<Record<string, string[]>> {
+  const index = db
+    .transaction(LIST_SUBSCRIPTIONS_STORE, 'readonly')
+    .objectStore(LIST_SUBSCRIPTIONS_STORE)
+    .index(LIST_INDEX);
+  const results = await Promise.all(
+    listUris.map((uri) => requestResult<ListSubscriptions[]>(index.getAll(uri)))
+  );
+  const wanted = new Set(listUris);
+  return Object.fromEntries(
+    results.flat().map((entry) => [entry.did, entry.lists.filter((uri) => wanted.has(uri))])
+  );
+}
+
+/**
+ * Delete everything in the block database
+ */
+export async function clearBlockDb(db: IDBDatabase): Promise<void> {
+  const stores = [
+    FOLLOWS_STORE,
+    BLOCK_LISTS_STORE,
+    META_STORE,
+    LISTING_STORE,
+    MODERATION_LISTS_STORE,
+    LIST_MEMBERS_STORE,
+    SYNC_LEDGER_STORE,
+    PENDING_SYNC_STORE,
+    LIST_SUBSCRIPTIONS_STORE,
+  ];
+  const tx = db.transaction(stores, 'readwrite');
+  for (const name of stores) {
+    tx.objectStore(name).clear();
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * Followed users whose block lists contain profileDid, within a transaction
+ */
+async function blockersIn(tx: IDBTransaction, profileDid: string): Promise<FollowedUser[]> {
+  const lists = await requestResult<UserBlockCache[]>(
+    tx.objectStore(BLOCK_LISTS_STORE).index(BLOCKED_DID_INDEX).getAll(encodeDidKey(profileDid))
+  );
+  // Block lists of users unfollowed since stay until the next full save
+  const followed = await getFollows(
+    tx,
+    lists.map((list) => list.did)
+  );
+
+  return lists
+    .filter((list) => followed.has(list.did))
+    .map((list) => ({
+      did: list.did,
+      handle: list.handle,
+      displayName: list.displayName,
+      avatar: list.avatar,
+      relation: followed.get(list.did)!.relation,
+    }));
+}
+
+// Block lists are stored with their DIDs encoded
+function encodeList(list: UserBlockCache): UserBlockCache {
+  return { ...list, blocks: list.blocks.map(encodeDidKey) };
+}
+
+function decodeList(list: UserBlockCache): UserBlockCache {
+  return { ...list, blocks: list.blocks.map(decodeDidKey) };
+}
+
+/**
+ * Fetch the follows among the given DIDs, by DID
+ */
+async function getFollows(tx: IDBTransaction, dids: string[]): Promise<Map<string, FollowedUser>> {
+  const store = tx.objectStore(FOLLOWS_STORE);
+  const users = await Promise.all(
+    dids.map((did) => requestResult<FollowedUser | undefined>(store.get(did)))
+  );
+  return new Map(
+    users.filter((user): user is FollowedUser => user !== undefined).map((u) => [u.did, u])
+  );
+}
+
+function requestResult<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
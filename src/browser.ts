@@ -22,6 +22,9 @@ export const storage = {
     set: async (items: Record<string, unknown>): Promise<void> => {
       return browserApi.storage.local.set(items);
     },
+    remove: async (keys: string | string[]): Promise<void> => {
+      return browserApi.storage.local.remove(keys);
+    },
     clear: async (): Promise<void> => {
       return browserApi.storage.local.clear();
     },
@@ -34,6 +37,13 @@ export const storage = {
       return browserApi.storage.sync.set(items);
     },
   },
+  onChanged: {
+    addListener: (
+      callback: (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => void
+    ): void => {
+      browserApi.storage.onChanged.addListener(callback);
+    },
+  },
 };
 
 export const runtime = {
@@ -7,7 +7,16 @@
 import { runtime } from './browser.js';
 import { getSession, getProfile } from './api.js';
 import { getSettings } from './storage.js';
-import { BlockingInfo, Message, MessageResponse, DisplayMode } from './types.js';
+import {
+  BlockingInfo,
+  DisplayMode,
+  FollowedUser,
+  GraphRelation,
+  GraphScope,
+  ListBlockInfo,
+  Message,
+  MessageResponse,
+} from './types.js';
 
 let currentObserver: MutationObserver | null = null;
 let lastInjectedHandle: string | null = null;
@@ -299,13 +308,126 @@ function showFullListModal(
   document.body.appendChild(overlay);
 }
 
+/**
+ * Note about accounts whose block lists couldn't be read or were evicted to fit storage limits,
+ * or null if there are none
+ */
+function getUncheckedText(blockingInfo: BlockingInfo): string | null {
+  const notes: string[] = [];
+  const accounts = SCOPE_ACCOUNTS[blockingInfo.graphScope ?? 'follows'];
+  const uncheckedCount = blockingInfo.uncheckedCount ?? 0;
+  if (uncheckedCount > 0) {
+    notes.push(`${uncheckedCount} of ${accounts} could not be checked.`);
+  }
+  const unindexedCount = blockingInfo.unindexedCount ?? 0;
+  if (unindexedCount > 0) {
+    notes.push(`${unindexedCount} of ${accounts} are not indexed due to storage limits.`);
+  }
+  return notes.length > 0 ? notes.join(' ') : null;
+}
+
+// How each relationship is counted: [singular, plural]
+const RELATION_LABELS: Record<GraphRelation, [string, string]> = {
+  follow: ['person you follow', 'people you follow'],
+  mutual: ['mutual', 'mutuals'],
+  follower: ['of your followers', 'of your followers'],
+};
+
+// "Not blocked by ..." wording for each graph scope
+const SCOPE_NOBODY: Record<GraphScope, string> = {
+  follows: 'anyone you follow',
+  followers: 'any of your followers',
+  mutuals: 'any of your mutuals',
+  union: 'anyone you follow or who follows you',
+};
+
+// "N of ..." wording for each graph scope
+const SCOPE_ACCOUNTS: Record<GraphScope, string> = {
+  follows: 'your follows',
+  followers: 'your followers',
+  mutuals: 'your mutuals',
+  union: 'your follows and followers',
+};
+
+// Modal title wording for each graph scope
+const SCOPE_USERS: Record<GraphScope, string> = {
+  follows: 'users you follow',
+  followers: 'your followers',
+  mutuals: 'your mutuals',
+  union: 'users you follow or who follow you',
+};
+
+/**
+ * Count users by relationship: "2 people you follow and 5 of your followers"
+ */
+function describeUsers(users: FollowedUser[]): string {
+  const counts = new Map<GraphRelation, number>();
+  for (const user of users) {
+    const relation = user.relation ?? 'follow';
+    counts.set(relation, (counts.get(relation) ?? 0) + 1);
+  }
+
+  const parts: string[] = [];
+  for (const relation of Object.keys(RELATION_LABELS) as GraphRelation[]) {
+    const count = counts.get(relation);
+    if (!count) continue;
+    const [singular, plural] = RELATION_LABELS[relation];
+    parts.push(`${count} ${count === 1 ? singular : plural}`);
+  }
+  return parts.length > 1
+    ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`
+    : parts.join('');
+}
+
+/**
+ * How a moderation list is named in the UI, falling back when its name couldn't be read
+ */
+function getListLabel(info: ListBlockInfo): string {
+  return info.listName ? `list "${info.listName}"` : 'a moderation list';
+}
+
+/**
+ * "Blocked via list "X" by 2 people you follow", for one moderation list
+ */
+function getListBlockText(info: ListBlockInfo): string {
+  return `Blocked via ${getListLabel(info)} by ${describeUsers(info.blockedBy)}`;
+}
+
+/**
+ * Your own block relationship with the profile, or null if there's none (or it's unknown)
+ */
+function getViewerText(blockingInfo: BlockingInfo): string | null {
+  if (blockingInfo.blocksViewer && blockingInfo.blockedByViewer) {
+    return 'You and this account block each other.';
+  }
+  if (blockingInfo.blocksViewer) return 'This account blocks you.';
+  if (blockingInfo.blockedByViewer) return 'You block this account.';
+  return null;
+}
+
+/**
+ * Row stating your own block relationship, shown above the rest in both display modes
+ */
+function createViewerRow(text: string): HTMLElement {
+  const row = document.createElement('div');
+  row.style.cssText = `
+    font-size: 13px;
+    line-height: 18px;
+    font-weight: 600;
+    color: rgb(220, 38, 38);
+  `;
+  row.textContent = text;
+  return row;
+}
+
 /**
  * Create compact display mode: "Blocked by X people you follow and blocking Y people you follow."
  */
 function createCompactDisplay(
   blockingInfo: BlockingInfo,
   onBlockedByClick: () => void,
-  onBlockingClick: () => void
+  onBlockingClick: () => void,
+  onListClick: (info: ListBlockInfo) => void
 ): HTMLElement {
   const container = document.createElement('div');
   container.id = 'askbeeves-blocking-container';
@@ -321,9 +443,38 @@ function createCompactDisplay(
 
   console.log('[AskBeeves] Compact display - blockedBy:', blockedByCount, 'blocking:', blockingCount);
 
+  const uncheckedText = getUncheckedText(blockingInfo);
+  const viewerText = getViewerText(blockingInfo);
+  if (viewerText) {
+    container.appendChild(createViewerRow(viewerText));
+  }
+  const nobody = SCOPE_NOBODY[blockingInfo.graphScope ?? 'follows'];
+
+  // Blocks through moderation lists, one clickable sentence per list
+  const appendListBlocks = (): void => {
+    for (const info of blockingInfo.blockedViaLists ?? []) {
+      container.appendChild(document.createTextNode(' '));
+      const listSpan = document.createElement('span');
+      listSpan.style.cssText = 'cursor: pointer;';
+      listSpan.textContent = `${getListBlockText(info)}.`;
+      listSpan.addEventListener('click', () => onListClick(info));
+      listSpan.addEventListener('mouseenter', () => {
+        listSpan.style.textDecoration = 'underline';
+      });
+      listSpan.addEventListener('mouseleave', () => {
+        listSpan.style.textDecoration = 'none';
+      });
+      container.appendChild(listSpan);
+    }
+  };
+
   // If nothing to show
   if (blockedByCount === 0 && blockingCount === 0) {
-    container.textContent = 'Not blocked by or blocking anyone you follow.';
+    container.appendChild(document.createTextNode(`Not blocked by or blocking ${nobody}.`));
+    appendListBlocks();
+    if (uncheckedText) {
+      container.appendChild(document.createTextNode(` ${uncheckedText}`));
+    }
     return container;
   }
 
@@ -331,13 +482,13 @@ function createCompactDisplay(
   // This avoids flex container whitespace issues
   const blockedByText =
     blockedByCount > 0
-      ? `Blocked by ${blockedByCount} ${blockedByCount === 1 ? 'person' : 'people'} you follow`
-      : 'Not blocked by anyone you follow';
+      ? `Blocked by ${describeUsers(blockingInfo.blockedBy)}`
+      : `Not blocked by ${nobody}`;
 
   const blockingText =
     blockingCount > 0
-      ? `blocking ${blockingCount} ${blockingCount === 1 ? 'person' : 'people'} you follow`
-      : 'not blocking anyone you follow';
+      ? `blocking ${describeUsers(blockingInfo.blocking)}`
+      : `not blocking ${nobody}`;
 
   // Create clickable span for blocked by (only if there are blockers)
   if (blockedByCount > 0) {
@@ -378,6 +529,11 @@ function createCompactDisplay(
 
   // Add period
   container.appendChild(document.createTextNode('.'));
+  appendListBlocks();
+
+  if (uncheckedText) {
+    container.appendChild(document.createTextNode(` ${uncheckedText}`));
+  }
 
   return container;
 }
@@ -388,7 +544,8 @@ function createCompactDisplay(
 function createDetailedDisplay(
   blockingInfo: BlockingInfo,
   onBlockedByClick: () => void,
-  onBlockingClick: () => void
+  onBlockingClick: () => void,
+  onListClick: (info: ListBlockInfo) => void
 ): HTMLElement {
   const container = document.createElement('div');
   container.id = 'askbeeves-blocking-container';
@@ -457,6 +614,12 @@ function createDetailedDisplay(
     return row;
   };
 
+  const viewerText = getViewerText(blockingInfo);
+  if (viewerText) {
+    container.appendChild(createViewerRow(viewerText));
+  }
+  const nobody = SCOPE_NOBODY[blockingInfo.graphScope ?? 'follows'];
+
   // "Blocked by" section
   if (blockingInfo.blockedBy.length > 0) {
     const blockedByRow = createBlockRow(
@@ -466,7 +629,7 @@ function createDetailedDisplay(
     );
     container.appendChild(blockedByRow);
   } else {
-    container.appendChild(createTextOnlyRow('Not blocked by anyone you follow'));
+    container.appendChild(createTextOnlyRow(`Not blocked by ${nobody}`));
   }
 
   // "Blocking" section
@@ -478,7 +641,21 @@ function createDetailedDisplay(
     );
     container.appendChild(blockingRow);
   } else {
-    container.appendChild(createTextOnlyRow('Not blocking anyone you follow'));
+    container.appendChild(createTextOnlyRow(`Not blocking ${nobody}`));
+  }
+
+  // One "Blocked via list" row per moderation list
+  for (const info of blockingInfo.blockedViaLists ?? []) {
+    container.appendChild(
+      createBlockRow(info.blockedBy, `Blocked via ${getListLabel(info)} by`, () =>
+        onListClick(info)
+      )
+    );
+  }
+
+  const uncheckedText = getUncheckedText(blockingInfo);
+  if (uncheckedText) {
+    container.appendChild(createTextOnlyRow(uncheckedText));
   }
 
   return container;
@@ -494,24 +671,23 @@ function injectContainer(
   _profileDid: string
 ): void {
   // Click handlers for modals - both use direct lookup now (no bloom filter false positives)
+  const users = SCOPE_USERS[blockingInfo.graphScope ?? 'follows'];
   const onBlockedByClick = () => {
-    showFullListModal(
-      blockingInfo.blockedBy,
-      'Blocked by (users you follow who block this profile)'
-    );
+    showFullListModal(blockingInfo.blockedBy, `Blocked by (${users} who block this profile)`);
   };
 
   const onBlockingClick = () => {
-    showFullListModal(
-      blockingInfo.blocking,
-      'Blocking (users you follow that this profile blocks)'
-    );
+    showFullListModal(blockingInfo.blocking, `Blocking (${users} that this profile blocks)`);
+  };
+
+  const onListClick = (info: ListBlockInfo) => {
+    showFullListModal(info.blockedBy, getListBlockText(info));
   };
 
   // Create display based on mode
   const container = displayMode === 'compact'
-    ? createCompactDisplay(blockingInfo, onBlockedByClick, onBlockingClick)
-    : createDetailedDisplay(blockingInfo, onBlockedByClick, onBlockingClick);
+    ? createCompactDisplay(blockingInfo, onBlockedByClick, onBlockingClick, onListClick)
+    : createDetailedDisplay(blockingInfo, onBlockedByClick, onBlockingClick, onListClick);
 
   // Insert after the insertion point
   if (insertionPoint.nextSibling) {
@@ -0,0 +1,39 @@
+/**
+ * AskBeeves - Cache eviction policies
+ * When a block cache outgrows its storage quota, a policy decides whose block lists are
+ * dropped first. Lists of users no longer followed always go before any policy is asked.
+ */
+
+import { BlockCacheData, UserBlockCache } from './types.js';
+
+/**
+ * Orders block lists for eviction, first to go first
+ */
+export type EvictionPolicy = (lists: UserBlockCache[], cache: BlockCacheData) => UserBlockCache[];
+
+/**
+ * Drop the longest block lists first, keeping as many follows indexed as possible
+ */
+export const largestFirst: EvictionPolicy = (lists) =>
+  [...lists].sort((a, b) => b.blocks.length - a.blocks.length || a.lastSynced - b.lastSynced);
+
+/**
+ * Drop the least recently synced block lists first
+ */
+export const oldestFirst: EvictionPolicy = (lists) =>
+  [...lists].sort((a, b) => a.lastSynced - b.lastSynced);
+
+/**
+ * Full eviction order for a cache under a policy
+ */
+export function evictionOrder(cache: BlockCacheData, policy: EvictionPolicy): UserBlockCache[] {
+  const followed = new Set(cache.followedUsers.map((u) => u.did));
+  const lists = Object.values(cache.userBlockCaches);
+  return [
+    ...lists.filter((list) => !followed.has(list.did)),
+    ...policy(
+      lists.filter((list) => followed.has(list.did)),
+      cache
+    ),
+  ];
+}
@@ -0,0 +1,230 @@
+/**
+ * AskBeeves - Real-time block updates
+ * Subscribes to a Jetstream WebSocket feed for block creates/deletes by the users you
+ * follow and patches their cached block lists in place between syncs
+ */
+
+import { getUserBlocksSince } from './api.js';
+import { getUserBlockCache, updateUserBlockCache } from './storage.js';
+import { FollowedUser, JetstreamEvent, UserBlockCache } from './types.js';
+
+const BLOCK_COLLECTION = 'app.bsky.graph.block';
+const MAX_WANTED_DIDS = 10000; // Jetstream rejects larger DID filters
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 5 * 60 * 1000;
+
+let socket: WebSocket | null = null;
+let currentUrl: string | null = null;
+let wantedDids: string[] = [];
+let lastEventTime: number | undefined; // time_us of the last event, used as cursor on reconnect
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectAttempts = 0;
+
+// Events are applied one at a time so cache read-modify-writes never interleave
+let eventQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Start the subscription, or update its DID filter if already connected to this URL
+ */
+export function startJetstream(url: string, dids: string[]): void {
+  if (dids.length > MAX_WANTED_DIDS) {
+    console.log(
+      `[AskBeeves Jetstream] Following ${dids.length} users, watching the first ${MAX_WANTED_DIDS}`
+    );
+  }
+  wantedDids = dids.slice(0, MAX_WANTED_DIDS);
+
+  // An empty DID filter would subscribe to every block on the network
+  if (wantedDids.length === 0) {
+    stopJetstream();
+    return;
+  }
+
+  if (socket && currentUrl === url) {
+    sendOptionsUpdate();
+    return;
+  }
+
+  stopJetstream();
+  currentUrl = url;
+  connect();
+}
+
+/**
+ * Close the subscription and cancel any pending reconnect
+ */
+export function stopJetstream(): void {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  currentUrl = null;
+  reconnectAttempts = 0;
+  lastEventTime = undefined;
+
+  if (socket) {
+    const closing = socket;
+    socket = null;
+    closing.onclose = null;
+    closing.close();
+  }
+}
+
+/**
+ * Check whether the subscription is currently open
+ */
+export function isJetstreamConnected(): boolean {
+  return socket?.readyState === WebSocket.OPEN;
+}
+
+/**
+ * Open the WebSocket, resuming from the last seen event if we have one
+ */
+function connect(): void {
+  if (!currentUrl) return;
+
+  let url: URL;
+  try {
+    url = new URL(currentUrl);
+  } catch {
+    console.error('[AskBeeves Jetstream] Invalid Jetstream URL:', currentUrl);
+    return;
+  }
+
+  url.searchParams.set('wantedCollections', BLOCK_COLLECTION);
+  // Hold events until our DID filter arrives in the first options_update
+  url.searchParams.set('requireHello', 'true');
+  if (lastEventTime) {
+    url.searchParams.set('cursor', String(lastEventTime));
+  }
+
+  console.log('[AskBeeves Jetstream] Connecting to', url.origin);
+  const ws = new WebSocket(url.toString());
+  socket = ws;
+
+  ws.onopen = () => {
+    reconnectAttempts = 0;
+    sendOptionsUpdate();
+    console.log(`[AskBeeves Jetstream] Connected, watching ${wantedDids.length} users`);
+  };
+
+  ws.onmessage = (message) => {
+    let event: JetstreamEvent;
+    try {
+      event = JSON.parse(String(message.data)) as JetstreamEvent;
+    } catch {
+      return;
+    }
+    eventQueue = eventQueue
+      .then(() => handleJetstreamEvent(event))
+      .catch((error) => console.error('[AskBeeves Jetstream] Failed to apply event:', error));
+  };
+
+  ws.onerror = () => {
+    console.log('[AskBeeves Jetstream] WebSocket error');
+  };
+
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    scheduleReconnect();
+  };
+}
+
+/**
+ * Reconnect with exponential backoff
+ */
+function scheduleReconnect(): void {
+  if (!currentUrl || reconnectTimer) return;
+
+  const delay = Math.min(RECONNECT_BASE_MS * 2 ** reconnectAttempts, RECONNECT_MAX_MS);
+  reconnectAttempts++;
+  console.log(`[AskBeeves Jetstream] Disconnected, reconnecting in ${delay}ms`);
+
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, delay);
+}
+
+/**
+ * Send the current DID filter to the server
+ */
+function sendOptionsUpdate(): void {
+  if (!socket || socket.readyState !== WebSocket.OPEN) return;
+  socket.send(
+    JSON.stringify({
+      type: 'options_update',
+      payload: { wantedCollections: [BLOCK_COLLECTION], wantedDids },
+    })
+  );
+}
+
+/**
+ * Apply a single Jetstream event to the block cache
+ * Creates carry the blocked DID and are patched in directly, leaving newestRkey alone so the
+ * next delta sync still covers anything missed while disconnected. Deletes only carry the
+ * rkey, so that user's whole list is refetched instead, and newestRkey moves to its newest
+ * record. Only that user's block list is read and written.
+ */
+export async function handleJetstreamEvent(event: JetstreamEvent): Promise<void> {
+  if (event.time_us) {
+    lastEventTime = event.time_us;
+  }
+
+  const commit = event.commit;
+  if (event.kind !== 'commit' || commit?.collection !== BLOCK_COLLECTION) return;
+
+  if (commit.operation === 'create') {
+    const subject = commit.record?.subject;
+    if (!subject) return;
+
+    await updateUserBlockCache(event.did, (user, existing) => {
+      const blocks = existing?.blocks ?? [];
+      if (!user || blocks.includes(subject)) return undefined;
+
+      console.log(`[AskBeeves Jetstream] ${user.handle} blocked ${subject}`);
+      return toUserBlockCache(user, existing, [subject, ...blocks]);
+    });
+  } else if (commit.operation === 'delete') {
+    if (!(await getUserBlockCache(event.did))) return;
+
+    const result = await getUserBlocksSince(event.did);
+    if (result.state !== 'complete') return; // Leave it for the next sync
+
+    await updateUserBlockCache(event.did, (user, existing) => {
+      if (!user || !existing) return undefined;
+
+      console.log(`[AskBeeves Jetstream] ${user.handle} removed a block, refetched list`);
+      if (result.blocks.length === 0) return null;
+      return {
+        ...toUserBlockCache(user, existing, result.blocks),
+        lastSynced: Date.now(),
+        newestRkey: result.newestRkey,
+        fetchState: undefined,
+        httpStatus: undefined,
+      };
+    });
+  }
+}
+
+/**
+ * Build an updated cache entry for a followed user
+ */
+function toUserBlockCache(
+  user: FollowedUser,
+  existing: UserBlockCache | undefined,
+  blocks: string[]
+): UserBlockCache {
+  return {
+    did: user.did,
+    handle: existing?.handle || user.handle,
+    displayName: existing?.displayName || user.displayName,
+    avatar: existing?.avatar || user.avatar,
+    blocks,
+    lastSynced: existing?.lastSynced ?? Date.now(),
+    newestRkey: existing?.newestRkey,
+    fetchState: existing?.fetchState,
+    httpStatus: existing?.httpStatus,
+  };
+}
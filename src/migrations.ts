@@ -0,0 +1,181 @@
+/**
+ * AskBeeves - Storage migrations
+ * Data under STORAGE_KEYS carries one schema version, saved under its own key. On install,
+ * update and startup, each migration newer than the saved version runs in order and the
+ * version is bumped after every step, so an interrupted run picks up where it stopped.
+ * Shapes a step can't upgrade are discarded; the next sync rebuilds them. Storage cleared by
+ * the user starts over from version 0, so steps must leave current shapes alone.
+ * (The IndexedDB block store versions its own schema, see blockdb.ts.)
+ */
+
+import { storage } from './browser.js';
+import { packBlockCache } from './blockcodec.js';
+import { accountKey } from './storage.js';
+import {
+  AccountSummary,
+  BlockCacheData,
+  BskySession,
+  PackedBlockCache,
+  ACCOUNT_KEYS,
+  STORAGE_KEYS,
+} from './types.js';
+
+interface Migration {
+  version: number; // Schema version after the step
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+// Keys that only hold data a sync can rebuild
+const DERIVED_KEYS = [
+  STORAGE_KEYS.BLOCK_CACHE,
+  STORAGE_KEYS.BLOCK_INDEX,
+  STORAGE_KEYS.SYNC_STATUS,
+  STORAGE_KEYS.SYNC_CHECKPOINT,
+  STORAGE_KEYS.PDS_CACHE,
+  STORAGE_KEYS.SYNC_LEDGER,
+  STORAGE_KEYS.SYNC_LEASE,
+  STORAGE_KEYS.LIST_BLOCKS,
+];
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Discard block caches without plain block lists',
+    migrate: discardUnreadableCache,
+  },
+  {
+    version: 2,
+    description: 'Drop sync errors saved as plain strings',
+    migrate: dropStringSyncErrors,
+  },
+  {
+    version: 3,
+    description: 'Remove the separate block index',
+    migrate: () => storage.local.remove(STORAGE_KEYS.BLOCK_INDEX),
+  },
+  {
+    version: 4,
+    description: 'Pack block caches kept in storage.local',
+    migrate: packStoredBlockCache,
+  },
+  {
+    version: 5,
+    description: "Keep each account's data under its DID",
+    migrate: moveDataToAccount,
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring stored data up to SCHEMA_VERSION
+ * Data written by a newer release (after a downgrade) can't be read safely, so everything a
+ * sync can rebuild is discarded instead.
+ */
+export async function runMigrations(): Promise<void> {
+  const result = await storage.local.get(STORAGE_KEYS.SCHEMA_VERSION);
+  const version = (result[STORAGE_KEYS.SCHEMA_VERSION] as number | undefined) ?? 0;
+
+  if (version > SCHEMA_VERSION) {
+    console.log(`[AskBeeves Storage] Discarding data from schema version ${version}`);
+    const result = await storage.local.get(STORAGE_KEYS.ACCOUNTS);
+    const accounts = (result[STORAGE_KEYS.ACCOUNTS] as AccountSummary[] | undefined) ?? [];
+    const accountDerivedKeys = DERIVED_KEYS.filter((key) => ACCOUNT_KEYS.includes(key));
+    await storage.local.remove([
+      ...DERIVED_KEYS,
+      ...accounts.flatMap(({ did }) => accountDerivedKeys.map((key) => accountKey(key, did))),
+    ]);
+    await saveSchemaVersion(SCHEMA_VERSION);
+    return;
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= version) continue;
+
+    console.log(`[AskBeeves Storage] Migrating to ${migration.version}: ${migration.description}`);
+    await migration.migrate();
+    await saveSchemaVersion(migration.version);
+  }
+}
+
+async function saveSchemaVersion(version: number): Promise<void> {
+  await storage.local.set({ [STORAGE_KEYS.SCHEMA_VERSION]: version });
+}
+
+/**
+ * The first releases kept bloom filters instead of block lists. Those can't be turned back
+ * into DIDs, so the cache (and any sync resuming into it) is dropped.
+ */
+async function discardUnreadableCache(): Promise<void> {
+  const result = await storage.local.get(STORAGE_KEYS.BLOCK_CACHE);
+  const cache = result[STORAGE_KEYS.BLOCK_CACHE] as
+    | {
+        followedUsers?: unknown;
+        userBlockCaches?: Record<string, { blocks?: unknown }>;
+        lists?: unknown;
+      }
+    | undefined;
+  // A packed cache is already in the current shape
+  if (!cache || Array.isArray(cache.lists)) return;
+
+  const readable =
+    Array.isArray(cache.followedUsers) &&
+    cache.userBlockCaches !== undefined &&
+    Object.values(cache.userBlockCaches).every((list) => Array.isArray(list.blocks));
+  if (!readable) {
+    await storage.local.remove([STORAGE_KEYS.BLOCK_CACHE, STORAGE_KEYS.SYNC_CHECKPOINT]);
+  }
+}
+
+async function dropStringSyncErrors(): Promise<void> {
+  const result = await storage.local.get(STORAGE_KEYS.SYNC_STATUS);
+  const status = result[STORAGE_KEYS.SYNC_STATUS] as { errors?: unknown[] } | undefined;
+  if (!status?.errors) return;
+
+  const errors = status.errors.filter((error) => typeof error === 'object');
+  if (errors.length !== status.errors.length) {
+    await storage.local.set({ [STORAGE_KEYS.SYNC_STATUS]: { ...status, errors } });
+  }
+}
+
+async function packStoredBlockCache(): Promise<void> {
+  const result = await storage.local.get(STORAGE_KEYS.BLOCK_CACHE);
+  const cache = result[STORAGE_KEYS.BLOCK_CACHE] as BlockCacheData | PackedBlockCache | undefined;
+  if (cache && 'userBlockCaches' in cache) {
+    await storage.local.set({ [STORAGE_KEYS.BLOCK_CACHE]: packBlockCache(cache) });
+  }
+}
+
+/**
+ * Data was kept for whoever logged in last. It now belongs to that account, which becomes
+ * the active one. Sync data that can't be tied to an account is dropped.
+ */
+async function moveDataToAccount(): Promise<void> {
+  const values: Record<string, unknown> = {};
+  for (const key of ACCOUNT_KEYS) {
+    const result = await storage.local.get(key);
+    if (result[key] !== undefined) values[key] = result[key];
+  }
+  const auth = values[STORAGE_KEYS.AUTH_TOKEN] as BskySession | undefined;
+  const cache = values[STORAGE_KEYS.BLOCK_CACHE] as { currentUserDid?: string } | undefined;
+  // The cache and its sync data may still belong to the previous account if the sync
+  // after a login never ran
+  const owner = cache?.currentUserDid || auth?.did;
+
+  const moved: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (key === STORAGE_KEYS.AUTH_TOKEN) continue;
+    if (owner) moved[accountKey(key, owner)] = value;
+  }
+  if (auth) {
+    moved[accountKey(STORAGE_KEYS.AUTH_TOKEN, auth.did)] = auth;
+    moved[STORAGE_KEYS.ACTIVE_ACCOUNT] = auth.did;
+    moved[STORAGE_KEYS.ACCOUNTS] = [{ did: auth.did, handle: auth.handle }];
+  }
+
+  if (Object.keys(moved).length > 0) {
+    await storage.local.set(moved);
+  }
+  await storage.local.remove(Object.keys(values));
+}
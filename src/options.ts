@@ -5,40 +5,139 @@
 
 import { runtime } from './browser.js';
 import { getSettings, saveSettings } from './storage.js';
-import { DisplayMode, Message, MessageResponse } from './types.js';
+import {
+  DisplayMode,
+  GraphScope,
+  Message,
+  MessageResponse,
+  SyncCoverage,
+  SyncError,
+  DEFAULT_JETSTREAM_URL,
+} from './types.js';
+
+const MAX_LISTED_ERRORS = 20;
 
 export async function init(): Promise<void> {
-  const settings = await getSettings();
+  await loadAccounts();
+  await loadSettings();
 
-  // Set initial radio button state
+  // Add change listeners
   const compactRadio = document.getElementById('display-compact') as HTMLInputElement;
   const detailedRadio = document.getElementById('display-detailed') as HTMLInputElement;
+  compactRadio.addEventListener('change', () => handleDisplayModeChange('compact'));
+  detailedRadio.addEventListener('change', () => handleDisplayModeChange('detailed'));
 
-  if (settings.displayMode === 'compact') {
-    compactRadio.checked = true;
-  } else {
-    detailedRadio.checked = true;
+  for (const radio of document.querySelectorAll<HTMLInputElement>('input[name="graph-scope"]')) {
+    radio.addEventListener('change', () => handleGraphScopeChange(radio.value as GraphScope));
   }
 
-  // Add change listeners
-  compactRadio.addEventListener('change', () => handleDisplayModeChange('compact'));
-  detailedRadio.addEventListener('change', () => handleDisplayModeChange('detailed'));
+  // Real-time update settings
+  const realtimeCheckbox = document.getElementById('realtime-enabled') as HTMLInputElement | null;
+  const jetstreamInput = document.getElementById('jetstream-url') as HTMLInputElement | null;
+
+  realtimeCheckbox?.addEventListener('change', () =>
+    handleRealtimeChange(realtimeCheckbox.checked)
+  );
+  jetstreamInput?.addEventListener('change', () => handleJetstreamUrlChange(jetstreamInput));
+
+  const accountSelect = document.getElementById('account-select') as HTMLSelectElement | null;
+  accountSelect?.addEventListener('change', () => handleAccountChange(accountSelect.value));
 
   // Load sync status
   await loadSyncStatus();
 
   // Set up button listeners
   const refreshBtn = document.getElementById('refresh-sync-btn');
+  const stopBtn = document.getElementById('stop-sync-btn');
   const clearBtn = document.getElementById('clear-cache-btn');
 
   if (refreshBtn) {
     refreshBtn.addEventListener('click', triggerSync);
   }
+  if (stopBtn) {
+    stopBtn.addEventListener('click', stopSync);
+  }
   if (clearBtn) {
     clearBtn.addEventListener('click', clearCache);
   }
 }
 
+/**
+ * Show the active account's settings
+ */
+export async function loadSettings(): Promise<void> {
+  const settings = await getSettings();
+
+  const compactRadio = document.getElementById('display-compact') as HTMLInputElement;
+  const detailedRadio = document.getElementById('display-detailed') as HTMLInputElement;
+  if (settings.displayMode === 'compact') {
+    compactRadio.checked = true;
+  } else {
+    detailedRadio.checked = true;
+  }
+
+  const scopeRadio = document.getElementById(
+    `scope-${settings.graphScope}`
+  ) as HTMLInputElement | null;
+  if (scopeRadio) {
+    scopeRadio.checked = true;
+  }
+
+  const realtimeCheckbox = document.getElementById('realtime-enabled') as HTMLInputElement | null;
+  const jetstreamInput = document.getElementById('jetstream-url') as HTMLInputElement | null;
+  if (realtimeCheckbox) {
+    realtimeCheckbox.checked = settings.realtimeEnabled;
+  }
+  if (jetstreamInput) {
+    jetstreamInput.value = settings.jetstreamUrl;
+  }
+}
+
+/**
+ * Fill the account switcher with the accounts that have logged in, the active one selected
+ */
+export async function loadAccounts(): Promise<void> {
+  const select = document.getElementById('account-select') as HTMLSelectElement | null;
+  if (!select) return;
+
+  try {
+    const response = await runtime.sendMessage<MessageResponse>({
+      type: 'GET_ACCOUNTS',
+    } as Message);
+
+    select.textContent = '';
+    for (const account of response?.accounts ?? []) {
+      const option = document.createElement('option');
+      option.value = account.did;
+      option.textContent = `@${account.handle}`;
+      select.appendChild(option);
+    }
+    select.value = response?.activeAccount ?? '';
+    select.disabled = select.options.length < 2;
+  } catch (error) {
+    console.error('[AskBeeves Options] Error loading accounts:', error);
+  }
+}
+
+export async function handleAccountChange(did: string): Promise<void> {
+  try {
+    const response = await runtime.sendMessage<MessageResponse>({
+      type: 'SWITCH_ACCOUNT',
+      accountDid: did,
+    } as Message);
+    if (!response?.success) {
+      console.error('[AskBeeves Options] Switch failed:', response?.error);
+    }
+  } catch (error) {
+    console.error('[AskBeeves Options] Switch error:', error);
+  }
+
+  // Show whichever account is active now, along with its settings and status
+  await loadAccounts();
+  await loadSettings();
+  await loadSyncStatus();
+}
+
 export async function loadSyncStatus(): Promise<void> {
   const statusEl = document.getElementById('sync-status');
   if (!statusEl) return;
@@ -72,9 +171,22 @@ export async function loadSyncStatus(): Promise<void> {
       statusEl.appendChild(createStatusRow('Last sync', `${lastSync}${isRunning}`));
       statusEl.appendChild(createStatusRow('Follows', status.totalFollows || 0));
       statusEl.appendChild(createStatusRow('Synced', status.syncedFollows || 0));
+      if (response.coverage?.totalFollows) {
+        statusEl.appendChild(createStatusRow('Checked', describeCoverage(response.coverage)));
+      }
+      const { added = [], removed = [] } = status.followDiff ?? {};
+      if (added.length || removed.length) {
+        statusEl.appendChild(
+          createStatusRow('Follow changes', `${added.length} new, ${removed.length} unfollowed`)
+        );
+      }
 
+      if (status.lastError) {
+        statusEl.appendChild(createStatusRow('Last sync failed', status.lastError, '#dc2626'));
+      }
       if (status.errors?.length) {
         statusEl.appendChild(createStatusRow('Errors', status.errors.length, '#dc2626'));
+        statusEl.appendChild(createErrorList(status.errors));
       }
     } else {
       statusEl.textContent = 'Could not load sync status';
@@ -85,6 +197,67 @@ export async function loadSyncStatus(): Promise<void> {
   }
 }
 
+// How the checked accounts are named for each graph scope
+const SCOPE_ACCOUNTS: Record<GraphScope, string> = {
+  follows: 'follows',
+  followers: 'followers',
+  mutuals: 'mutuals',
+  union: 'follows and followers',
+};
+
+function describeCoverage(coverage: SyncCoverage): string {
+  const gaps = [
+    coverage.failed && `${coverage.failed} failed`,
+    coverage.pruned && `${coverage.pruned} not indexed due to storage limits`,
+    coverage.unsynced && `${coverage.unsynced} not synced yet`,
+  ].filter(Boolean);
+  const accounts = SCOPE_ACCOUNTS[coverage.graphScope ?? 'follows'];
+  const summary = `${coverage.checked} of ${coverage.totalFollows} ${accounts}`;
+  return gaps.length > 0 ? `${summary} (${gaps.join(', ')})` : summary;
+}
+
+/**
+ * Build the list of follows whose block lists couldn't be fetched, retries due soonest first
+ */
+function createErrorList(errors: SyncError[]): HTMLUListElement {
+  const list = document.createElement('ul');
+  list.className = 'sync-errors';
+
+  const sorted = [...errors].sort(
+    (a, b) => (a.nextRetryAt ?? Infinity) - (b.nextRetryAt ?? Infinity)
+  );
+  for (const error of sorted.slice(0, MAX_LISTED_ERRORS)) {
+    const item = document.createElement('li');
+    const handle = document.createElement('strong');
+    handle.textContent = `@${error.handle}`;
+    item.appendChild(handle);
+    item.appendChild(document.createTextNode(`: ${error.message}`));
+
+    const retry = document.createElement('div');
+    retry.className = 'sync-error-retry';
+    retry.textContent = describeRetry(error);
+    item.appendChild(retry);
+    list.appendChild(item);
+  }
+
+  if (errors.length > MAX_LISTED_ERRORS) {
+    const more = document.createElement('li');
+    more.textContent = `...and ${errors.length - MAX_LISTED_ERRORS} more`;
+    list.appendChild(more);
+  }
+  return list;
+}
+
+function describeRetry(error: SyncError): string {
+  const attempts = `${error.attempts} attempt${error.attempts === 1 ? '' : 's'}`;
+  if (error.nextRetryAt) {
+    return `${attempts}, retrying at ${new Date(error.nextRetryAt).toLocaleTimeString()}`;
+  }
+  return error.retryable
+    ? `${attempts}, will retry on the next full sync`
+    : `${attempts}, not retried`;
+}
+
 export async function triggerSync(): Promise<void> {
   const statusEl = document.getElementById('sync-status');
   if (statusEl) {
@@ -92,9 +265,12 @@ export async function triggerSync(): Promise<void> {
   }
 
   try {
-    await runtime.sendMessage({
+    const response = await runtime.sendMessage<MessageResponse>({
       type: 'TRIGGER_SYNC',
     } as Message);
+    if (response?.alreadyRunning && statusEl) {
+      statusEl.textContent = 'A sync is already running';
+    }
 
     // Reload status after a moment
     setTimeout(loadSyncStatus, 1000);
@@ -106,6 +282,32 @@ export async function triggerSync(): Promise<void> {
   }
 }
 
+export async function stopSync(): Promise<void> {
+  const statusEl = document.getElementById('sync-status');
+  if (statusEl) {
+    statusEl.textContent = 'Stopping sync...';
+  }
+
+  try {
+    const response = await runtime.sendMessage<MessageResponse>({
+      type: 'STOP_SYNC',
+    } as Message);
+    if (statusEl) {
+      statusEl.textContent = response?.success
+        ? 'Sync stopped'
+        : (response?.error ?? 'Stop failed');
+    }
+
+    // Reload status after a moment
+    setTimeout(loadSyncStatus, 1000);
+  } catch (error) {
+    console.error('[AskBeeves Options] Stop error:', error);
+    if (statusEl) {
+      statusEl.textContent = 'Stop failed';
+    }
+  }
+}
+
 export async function clearCache(): Promise<void> {
   const statusEl = document.getElementById('sync-status');
   if (statusEl) {
@@ -131,8 +333,45 @@ export async function handleDisplayModeChange(mode: DisplayMode): Promise<void>
   const settings = await getSettings();
   settings.displayMode = mode;
   await saveSettings(settings);
+  showSavedIndicator();
+}
+
+/**
+ * Save the graph scope, then sync so the newly covered accounts get indexed
+ */
+export async function handleGraphScopeChange(scope: GraphScope): Promise<void> {
+  const settings = await getSettings();
+  settings.graphScope = scope;
+  await saveSettings(settings);
+  showSavedIndicator();
+  await triggerSync();
+}
+
+export async function handleRealtimeChange(enabled: boolean): Promise<void> {
+  const settings = await getSettings();
+  settings.realtimeEnabled = enabled;
+  await saveSettings(settings);
+  showSavedIndicator();
+}
+
+export async function handleJetstreamUrlChange(input: HTMLInputElement): Promise<void> {
+  // Empty input restores the default endpoint
+  const url = input.value.trim() || DEFAULT_JETSTREAM_URL;
+  if (!/^wss?:\/\//.test(url)) {
+    input.setCustomValidity('Must be a ws:// or wss:// URL');
+    input.reportValidity();
+    return;
+  }
+  input.setCustomValidity('');
+  input.value = url;
+
+  const settings = await getSettings();
+  settings.jetstreamUrl = url;
+  await saveSettings(settings);
+  showSavedIndicator();
+}
 
-  // Show saved indicator
+function showSavedIndicator(): void {
   const savedIndicator = document.getElementById('saved-indicator');
   if (savedIndicator) {
     savedIndicator.style.opacity = '1';
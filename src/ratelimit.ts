@@ -0,0 +1,170 @@
+/**
+ * AskBeeves - Per-host rate limiting
+ * Keeps a token bucket per host and tunes it from the ratelimit-* and Retry-After
+ * headers that Bluesky services send, so requests are paced before limits are hit
+ */
+
+interface HostBucket {
+  tokens: number;
+  capacity: number; // Max burst size
+  refillPerMs: number;
+  lastRefill: number;
+  blockedUntil: number; // No requests before this time (429 or exhausted window)
+}
+
+// Used until a host tells us its real limits
+const DEFAULT_CAPACITY = 10;
+const DEFAULT_REFILL_PER_SECOND = 5;
+// Never pace a host slower than this, even when its window is nearly used up
+const MIN_REFILL_PER_SECOND = 0.2;
+
+const buckets = new Map<string, HostBucket>();
+
+/**
+ * Get (or create) the bucket for a host
+ */
+function getBucket(host: string): HostBucket {
+  let bucket = buckets.get(host);
+  if (!bucket) {
+    bucket = {
+      tokens: DEFAULT_CAPACITY,
+      capacity: DEFAULT_CAPACITY,
+      refillPerMs: DEFAULT_REFILL_PER_SECOND / 1000,
+      lastRefill: Date.now(),
+      blockedUntil: 0,
+    };
+    buckets.set(host, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Add the tokens earned since the last refill
+ */
+function refill(bucket: HostBucket, now: number): void {
+  const elapsed = now - bucket.lastRefill;
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + elapsed * bucket.refillPerMs);
+  bucket.lastRefill = now;
+}
+
+/**
+ * Wait until a request to this host is allowed, then take a token
+ * Rejects as soon as signal aborts, so a stopped sync doesn't sit out a rate-limit window.
+ */
+export async function acquireToken(host: string, signal?: AbortSignal): Promise<void> {
+  const bucket = getBucket(host);
+
+  for (;;) {
+    signal?.throwIfAborted();
+    const now = Date.now();
+    if (now < bucket.blockedUntil) {
+      await wait(bucket.blockedUntil - now, signal);
+      continue;
+    }
+
+    refill(bucket, now);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+
+    await wait(Math.ceil((1 - bucket.tokens) / bucket.refillPerMs), signal);
+  }
+}
+
+/**
+ * Hold all requests to a host for the given time (after a 429)
+ */
+export function blockHost(host: string, ms: number): void {
+  const bucket = getBucket(host);
+  bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + ms);
+  bucket.tokens = 0;
+}
+
+/**
+ * Tune a host's bucket from its rate-limit response headers
+ * ratelimit-policy ("3000;w=300") sets the sustained rate. ratelimit-remaining and
+ * ratelimit-reset spread what's left of the current window over the time until reset,
+ * and stop requests entirely once it's used up.
+ */
+export function updateFromHeaders(host: string, headers: Headers): void {
+  const bucket = getBucket(host);
+  const now = Date.now();
+
+  const limit = parseNumber(headers.get('ratelimit-limit'));
+  const windowSeconds = parsePolicyWindow(headers.get('ratelimit-policy'));
+  if (limit && windowSeconds) {
+    bucket.refillPerMs = limit / (windowSeconds * 1000);
+  }
+
+  const remaining = parseNumber(headers.get('ratelimit-remaining'));
+  const reset = parseNumber(headers.get('ratelimit-reset'));
+  if (remaining === null || reset === null) return;
+
+  const resetAt = reset * 1000; // Unix seconds
+  if (remaining <= 0) {
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, resetAt);
+    bucket.tokens = 0;
+    return;
+  }
+
+  const msUntilReset = resetAt - now;
+  if (msUntilReset > 0) {
+    const paced = Math.max(remaining / msUntilReset, MIN_REFILL_PER_SECOND / 1000);
+    bucket.refillPerMs = Math.min(bucket.refillPerMs, paced);
+  }
+  bucket.tokens = Math.min(bucket.tokens, remaining);
+}
+
+/**
+ * Get how long the server asked us to wait, from Retry-After or ratelimit-reset
+ */
+export function getRetryDelay(headers: Headers): number | null {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = parseNumber(retryAfter);
+    if (seconds !== null) return seconds * 1000;
+
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const reset = parseNumber(headers.get('ratelimit-reset'));
+  if (reset !== null) {
+    return Math.max(0, reset * 1000 - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * Clear all buckets (for testing)
+ */
+export function clearRateLimits(): void {
+  buckets.clear();
+}
+
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const num = Number(value);
+  return isFinite(num) ? num : null;
+}
+
+function parsePolicyWindow(policy: string | null): number | null {
+  const match = policy?.match(/;\s*w=(\d+)/);
+  return match ? Number(match[1]) : null;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * AskBeeves - Per-host task scheduling
+ * Queues work per host with its own concurrency limit under a global cap, so a slow or
+ * crowded host only holds up its own queue
+ */
+
+export interface HostScheduler {
+  run<T>(host: string, task: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Create a scheduler
+ * @param concurrencyFor - Max tasks running at once for a given host
+ * @param maxConcurrent - Max tasks running at once across all hosts
+ */
+export function createHostScheduler(
+  concurrencyFor: (host: string) => number,
+  maxConcurrent: number
+): HostScheduler {
+  const queues = new Map<string, Array<() => void>>();
+  const active = new Map<string, number>();
+  let totalActive = 0;
+
+  // Start queued tasks while limits allow, least busy host first so a host with a long
+  // backlog can't take every free slot
+  const pump = (): void => {
+    while (totalActive < maxConcurrent) {
+      let next: string | null = null;
+      for (const host of queues.keys()) {
+        const hostActive = active.get(host) ?? 0;
+        if (hostActive >= concurrencyFor(host)) continue;
+        if (next === null || hostActive < (active.get(next) ?? 0)) {
+          next = host;
+        }
+      }
+      if (next === null) return;
+
+      const queue = queues.get(next)!;
+      const start = queue.shift()!;
+      if (queue.length === 0) queues.delete(next);
+      active.set(next, (active.get(next) ?? 0) + 1);
+      totalActive++;
+      start();
+    }
+  };
+
+  const finish = (host: string): void => {
+    active.set(host, (active.get(host) ?? 1) - 1);
+    totalActive--;
+    pump();
+  };
+
+  return {
+    run<T>(host: string, task: () => Promise<T>): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        const start = () => {
+          task()
+            .then(resolve, reject)
+            .finally(() => finish(host));
+        };
+
+        const queue = queues.get(host);
+        if (queue) {
+          queue.push(start);
+        } else {
+          queues.set(host, [start]);
+        }
+        pump();
+      });
+    },
+  };
+}
@@ -5,10 +5,50 @@
 
 import { storage } from './browser.js';
 import {
+  blockDbName,
+  openBlockDb,
+  readBlockCache,
+  writeBlockCache,
+  writeBlockLists,
+  writeFollowList,
+  readUserBlockCache,
+  updateUserBlockRecord,
+  UserBlockCacheUpdate,
+  findBlockers,
+  findFollows,
+  lookupBlockingInfoInDb,
+  putListingPage,
+  readListingPages,
+  clearListingPages,
+  readModerationLists,
+  writeModerationLists,
+  findListsWithMember,
+  readSyncLedger,
+  writeSyncLedger,
+  readPendingSync,
+  writePendingSync,
+  readListSubscriptions,
+  writeListSubscriptions,
+  findListSubscribers,
+  deleteBlockCache,
+  clearBlockDb,
+} from './blockdb.js';
+import { packBlockCache, unpackBlockCache, findPackedBlockLists } from './blockcodec.js';
+import {
+  AccountSummary,
   BlockCacheData,
+  PackedBlockCache,
   SyncStatus,
+  SyncCheckpoint,
+  PdsCacheEntry,
+  SyncCoverage,
+  SyncLedger,
+  SyncLease,
   BlockingInfo,
   FollowedUser,
+  ListBlockCache,
+  ListBlockInfo,
+  ListingRelation,
   UserBlockCache,
   UserSettings,
   DEFAULT_SETTINGS,
@@ -16,20 +56,288 @@ import {
   BskySession,
 } from './types.js';
 
+// Block cache as found in storage.local: caches saved by older versions hold plain block lists
+type StoredBlockCache = PackedBlockCache | BlockCacheData;
+
+// Checkpoint as found in storage.local: with IndexedDB its pending accounts are kept there
+type StoredCheckpoint = SyncCheckpoint & { pendingInBlockDb?: boolean };
+
+// Last queued write of each storage.local key (see queueWrite)
+const writeQueues = new Map<string, Promise<void>>();
+
+// Each account's block database by name, opened on first use; resolves to null where
+// IndexedDB is unavailable
+const blockDbs = new Map<string, Promise<IDBDatabase | null>>();
+
+/**
+ * Key an account's copy of an ACCOUNT_KEYS entry is saved under
+ */
+export function accountKey(key: string, did: string): string {
+  return `${key}:${did}`;
+}
+
+/**
+ * Get the DID of the account whose data is in use (null before anyone has logged in)
+ * Read on every call, since the background worker, the options page and content scripts
+ * each keep their own copy of this module.
+ */
+export async function getActiveAccount(): Promise<string | null> {
+  const result = await storage.local.get(STORAGE_KEYS.ACTIVE_ACCOUNT);
+  return (result[STORAGE_KEYS.ACTIVE_ACCOUNT] as string | undefined) ?? null;
+}
+
+/**
+ * Make did's data the data in use
+ */
+export async function setActiveAccount(did: string): Promise<void> {
+  await storage.local.set({ [STORAGE_KEYS.ACTIVE_ACCOUNT]: did });
+}
+
+/**
+ * Get the accounts that have logged in on this browser
+ */
+export async function getAccounts(): Promise<AccountSummary[]> {
+  const result = await storage.local.get(STORAGE_KEYS.ACCOUNTS);
+  const data = result[STORAGE_KEYS.ACCOUNTS] as AccountSummary[] | undefined;
+  return data || [];
+}
+
+/**
+ * Resolve one of ACCOUNT_KEYS to the active account's copy of it
+ */
+async function activeKey(key: string): Promise<string> {
+  const account = await getActiveAccount();
+  return account ? accountKey(key, account) : key;
+}
+
+/**
+ * Open the active account's IndexedDB block store. Where IndexedDB is unavailable, block data
+ * stays in storage.local.
+ */
+async function getBlockDb(): Promise<IDBDatabase | null> {
+  return openAccountBlockDb(await getActiveAccount());
+}
+
+function openAccountBlockDb(account: string | null): Promise<IDBDatabase | null> {
+  const name = blockDbName(account);
+  let db = blockDbs.get(name);
+  if (!db) {
+    db = openBlockStore(account);
+    blockDbs.set(name, db);
+  }
+  return db;
+}
+
+/**
+ * Open an account's block database, moving in a cache saved by older versions: one kept in
+ * storage.local, or the database shared by all accounts if it holds this account's cache
+ */
+async function openBlockStore(account: string | null): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return null;
+
+  try {
+    const db = await openBlockDb(blockDbName(account));
+    const key = account ? accountKey(STORAGE_KEYS.BLOCK_CACHE, account) : STORAGE_KEYS.BLOCK_CACHE;
+    const result = await storage.local.get(key);
+    const legacyCache = result[key] as StoredBlockCache | undefined;
+    if (legacyCache) {
+      await writeBlockCache(db, toBlockCache(legacyCache));
+      await storage.local.remove([key, STORAGE_KEYS.BLOCK_INDEX]);
+      console.log('[AskBeeves Storage] Moved block cache to IndexedDB');
+    } else if (account && !(await readBlockCache(db))) {
+      await adoptSharedBlockDb(db, account);
+    }
+    await moveSyncState(db, account);
+    return db;
+  } catch (error) {
+    console.error('[AskBeeves Storage] IndexedDB unavailable, using storage.local:', error);
+    return null;
+  }
+}
+
+/**
+ * Move the sync ledger, a checkpoint's pending accounts and list subscriptions saved to
+ * storage.local by older versions into an account's block database
+ */
+async function moveSyncState(db: IDBDatabase, account: string | null): Promise<void> {
+  const key = (name: string) => (account ? accountKey(name, account) : name);
+  const ledgerKey = key(STORAGE_KEYS.SYNC_LEDGER);
+  const checkpointKey = key(STORAGE_KEYS.SYNC_CHECKPOINT);
+  const listBlocksKey = key(STORAGE_KEYS.LIST_BLOCKS);
+  const result = await storage.local.get([ledgerKey, checkpointKey, listBlocksKey]);
+
+  const ledger = result[ledgerKey] as SyncLedger | undefined;
+  if (ledger) {
+    await writeSyncLedger(db, ledger);
+    await storage.local.remove(ledgerKey);
+  }
+  const checkpoint = result[checkpointKey] as StoredCheckpoint | undefined;
+  if (checkpoint?.pendingDids) {
+    const { pendingDids, ...rest } = checkpoint;
+    await writePendingSync(db, pendingDids);
+    await storage.local.set({ [checkpointKey]: { ...rest, pendingInBlockDb: true } });
+  }
+  const listBlocks = result[listBlocksKey] as Partial<ListBlockCache> | undefined;
+  if (listBlocks) {
+    // Lists saved with the subscriptions by older versions are fetched again
+    await writeListSubscriptions(db, listBlocks.subscriptions ?? {});
+    await storage.local.remove(listBlocksKey);
+  }
+  if (ledger || checkpoint?.pendingDids || listBlocks) {
+    console.log('[AskBeeves Storage] Moved sync state to IndexedDB');
+  }
+}
+
+async function adoptSharedBlockDb(db: IDBDatabase, account: string): Promise<void> {
+  const shared = await openBlockDb(blockDbName(null));
+  try {
+    const cache = await readBlockCache(shared);
+    if (cache?.currentUserDid === account) {
+      await writeBlockCache(db, cache);
+      await clearBlockDb(shared);
+      console.log(`[AskBeeves Storage] Moved block cache to ${account}'s database`);
+    }
+  } finally {
+    shared.close();
+  }
+}
+
+/**
+ * Run a storage.local write once every write queued earlier for any of its keys has finished
+ * Writes to other keys carry on side by side. A failed write doesn't hold up the ones after it.
+ */
+function queueWrite(keys: string[], write: () => Promise<void>): Promise<void> {
+  const done = Promise.all(keys.map((key) => writeQueues.get(key))).then(write);
+  const settled = done.catch(() => {});
+  for (const key of keys) writeQueues.set(key, settled);
+  settled.then(() => {
+    for (const key of keys) {
+      if (writeQueues.get(key) === settled) writeQueues.delete(key);
+    }
+  });
+  return done;
+}
+
+/**
+ * Read-modify-write storage.local keys as one queued write
+ * update gets the current values of keys and returns the values to set, all in one batch.
+ * Keys it leaves out are not written, so returning {} skips the write.
+ */
+export function updateStorage(
+  keys: string[],
+  update: (current: Record<string, unknown>) => Record<string, unknown>
+): Promise<void> {
+  return queueWrite(keys, async () => {
+    const current = await storage.local.get(keys);
+    const changes = update(current);
+    if (Object.keys(changes).length > 0) {
+      await storage.local.set(changes);
+    }
+  });
+}
+
+/**
+ * Whether block data lives in storage.local, under its size quota, rather than IndexedDB
+ */
+export async function isBlockCacheSizeLimited(): Promise<boolean> {
+  return (await getBlockDb()) === null;
+}
+
 /**
  * Get cached block data from storage
  */
 export async function getBlockCache(): Promise<BlockCacheData | null> {
-  const result = await storage.local.get(STORAGE_KEYS.BLOCK_CACHE);
-  const data = result[STORAGE_KEYS.BLOCK_CACHE] as BlockCacheData | undefined;
-  return data || null;
+  const db = await getBlockDb();
+  if (db) return readBlockCache(db);
+
+  const stored = await getStoredBlockCache();
+  return stored && toBlockCache(stored);
+}
+
+/**
+ * Save block cache to storage (packed, when it goes to storage.local)
+ * @param changedDids - Users whose block lists were synced, removed or evicted since the last
+ *   save. In IndexedDB only these are written, along with the sync info (the whole cache when
+ *   omitted, though lists already saved are never deleted unless named); storage.local always
+ *   rewrites everything. The follow list is saved by saveFollowList.
+ */
+export async function saveBlockCache(
+  data: BlockCacheData,
+  changedDids?: Iterable<string>
+): Promise<void> {
+  const db = await getBlockDb();
+  if (!db) {
+    await saveStoredBlockCache(data);
+  } else if (changedDids) {
+    await queueBlockDbWrite(() => writeBlockLists(db, data, changedDids));
+  } else {
+    await queueBlockDbWrite(() => writeBlockCache(db, data));
+  }
+}
+
+/**
+ * Save a newly listed follow list, along with the block lists that changed with it (as
+ * saveBlockCache)
+ */
+export async function saveFollowList(
+  data: BlockCacheData,
+  changedDids: Iterable<string>
+): Promise<void> {
+  const db = await getBlockDb();
+  if (db) {
+    await queueBlockDbWrite(() => writeFollowList(db, data, changedDids));
+  } else {
+    await saveStoredBlockCache(data);
+  }
+}
+
+/**
+ * Delete the block cache, leaving sync status and settings alone
+ */
+export async function clearBlockCache(): Promise<void> {
+  const db = await getBlockDb();
+  if (db) {
+    await queueBlockDbWrite(() => deleteBlockCache(db));
+    return;
+  }
+
+  const key = await activeKey(STORAGE_KEYS.BLOCK_CACHE);
+  await queueWrite([key], () => storage.local.remove(key));
+}
+
+/**
+ * Run an IndexedDB block cache write in the queue of the block cache's storage.local key
+ * (see updateUserBlockCache)
+ */
+async function queueBlockDbWrite(write: () => Promise<void>): Promise<void> {
+  await queueWrite([await activeKey(STORAGE_KEYS.BLOCK_CACHE)], write);
+}
+
+/**
+ * Write the whole cache to storage.local, packed
+ */
+async function saveStoredBlockCache(data: BlockCacheData): Promise<void> {
+  const key = await activeKey(STORAGE_KEYS.BLOCK_CACHE);
+  await queueWrite([key], async () => {
+    // Free the index older versions saved before writing under the quota, in case the
+    // migration that removes it hasn't run
+    await storage.local.remove(STORAGE_KEYS.BLOCK_INDEX);
+    await storage.local.set({ [key]: packBlockCache(data) });
+  });
 }
 
 /**
- * Save block cache to storage
+ * Read the block cache from storage.local as stored
  */
-export async function saveBlockCache(data: BlockCacheData): Promise<void> {
-  await storage.local.set({ [STORAGE_KEYS.BLOCK_CACHE]: data });
+async function getStoredBlockCache(): Promise<StoredBlockCache | null> {
+  const key = await activeKey(STORAGE_KEYS.BLOCK_CACHE);
+  const result = await storage.local.get(key);
+  const data = result[key] as StoredBlockCache | undefined;
+  return data || null;
+}
+
+function toBlockCache(stored: StoredBlockCache): BlockCacheData {
+  return 'lists' in stored ? unpackBlockCache(stored) : stored;
 }
 
 /**
@@ -45,98 +353,462 @@ export function createEmptyCache(currentUserDid: string): BlockCacheData {
 }
 
 /**
- * Update a single user's block cache
+ * Get a single user's block list
+ */
+export async function getUserBlockCache(did: string): Promise<UserBlockCache | null> {
+  const db = await getBlockDb();
+  if (db) return (await readUserBlockCache(db, did)) ?? null;
+
+  const stored = await getStoredBlockCache();
+  return (stored && toBlockCache(stored).userBlockCaches[did]) ?? null;
+}
+
+/**
+ * Read-modify-write a single user's block list, if a cache exists
+ * Queued with the other block cache writes, so it can't interleave with a sync's save.
  */
-export async function updateUserBlockCache(userCache: UserBlockCache): Promise<void> {
-  const cache = await getBlockCache();
-  if (!cache) return;
+export async function updateUserBlockCache(
+  did: string,
+  update: UserBlockCacheUpdate
+): Promise<void> {
+  const db = await getBlockDb();
+  if (db) {
+    await queueBlockDbWrite(() => updateUserBlockRecord(db, did, update));
+    return;
+  }
+
+  const key = await activeKey(STORAGE_KEYS.BLOCK_CACHE);
+  await updateStorage([key], (current) => {
+    const stored = current[key] as StoredBlockCache | undefined;
+    if (!stored) return {};
 
-  cache.userBlockCaches[userCache.did] = userCache;
-  await saveBlockCache(cache);
+    const cache = toBlockCache(stored);
+    const user = cache.followedUsers.find((u) => u.did === did);
+    const updated = update(user, cache.userBlockCaches[did]);
+    if (updated === undefined) return {};
+    if (updated) {
+      cache.userBlockCaches[did] = updated;
+    } else {
+      delete cache.userBlockCaches[did];
+    }
+    return { [key]: packBlockCache(cache) };
+  });
 }
 
 /**
  * Get sync status
  */
 export async function getSyncStatus(): Promise<SyncStatus> {
-  const result = await storage.local.get(STORAGE_KEYS.SYNC_STATUS);
-  const data = result[STORAGE_KEYS.SYNC_STATUS] as SyncStatus | undefined;
-  return (
-    data || {
+  const key = await activeKey(STORAGE_KEYS.SYNC_STATUS);
+  const result = await storage.local.get(key);
+  return withStatusDefaults(result[key] as SyncStatus | undefined);
+}
+
+function withStatusDefaults(data: SyncStatus | undefined): SyncStatus {
+  if (!data) {
+    return {
       totalFollows: 0,
       syncedFollows: 0,
       lastSync: 0,
       isRunning: false,
       lastUpdated: 0,
       errors: [],
-    }
-  );
+    };
+  }
+  // Older versions stored errors as plain message strings
+  const errors = (data.errors || []).filter((e) => typeof e === 'object');
+  return { ...data, errors };
 }
 
 /**
  * Update sync status (always updates lastUpdated timestamp)
+ * Updates apply in call order, so parallel callers can't overwrite each other.
  */
 export async function updateSyncStatus(status: Partial<SyncStatus>): Promise<void> {
-  const current = await getSyncStatus();
+  const key = await activeKey(STORAGE_KEYS.SYNC_STATUS);
+  await updateStorage([key], (current) => {
+    const data = current[key] as SyncStatus | undefined;
+    return {
+      [key]: {
+        ...withStatusDefaults(data),
+        ...status,
+        lastUpdated: Date.now(),
+      },
+    };
+  });
+}
+
+/**
+ * Get the checkpoint of an interrupted sync, if any
+ */
+export async function getSyncCheckpoint(): Promise<SyncCheckpoint | null> {
+  const key = await activeKey(STORAGE_KEYS.SYNC_CHECKPOINT);
+  const db = await getBlockDb();
+  const result = await storage.local.get(key);
+  const data = result[key] as StoredCheckpoint | undefined;
+  if (!data) return null;
+
+  const { pendingInBlockDb, ...checkpoint } = data;
+  if (pendingInBlockDb) {
+    // Without the database the pending accounts are lost, and the follows are listed again
+    checkpoint.pendingDids = db ? await readPendingSync(db) : undefined;
+  }
+  return checkpoint;
+}
+
+/**
+ * Save sync progress so it survives the worker being terminated
+ * The accounts still to fetch go to IndexedDB where it's available, so the checkpoint in
+ * storage.local stays small.
+ * @param doneDids - Accounts fetched since the last save. In IndexedDB only these are removed
+ *   from the pending accounts; otherwise all of checkpoint.pendingDids is written.
+ */
+export async function saveSyncCheckpoint(
+  checkpoint: SyncCheckpoint,
+  doneDids?: Iterable<string>
+): Promise<void> {
+  const key = await activeKey(STORAGE_KEYS.SYNC_CHECKPOINT);
+  const db = await getBlockDb();
+  if (!db || !checkpoint.pendingDids) {
+    await storage.local.set({ [key]: checkpoint });
+    return;
+  }
+
+  const { pendingDids, ...rest } = checkpoint;
+  await writePendingSync(db, pendingDids, doneDids);
   await storage.local.set({
-    [STORAGE_KEYS.SYNC_STATUS]: { ...current, ...status, lastUpdated: Date.now() },
+    [key]: { ...rest, pendingInBlockDb: true } satisfies StoredCheckpoint,
   });
 }
 
 /**
- * Get stored auth token
+ * Remove the sync checkpoint (sync finished or was reset)
+ */
+export async function clearSyncCheckpoint(): Promise<void> {
+  const db = await getBlockDb();
+  await storage.local.remove(await activeKey(STORAGE_KEYS.SYNC_CHECKPOINT));
+  if (db) await writePendingSync(db, []);
+}
+
+/**
+ * Save a page of follows or followers as they're listed, so an interrupted listing can resume
+ * without the checkpoint carrying every account listed so far
+ * Where IndexedDB is unavailable pages aren't kept, and an interrupted listing starts over.
+ * @param offset - How many accounts were listed before this page
+ */
+export async function saveGraphListingPage(
+  relation: ListingRelation,
+  offset: number,
+  users: FollowedUser[]
+): Promise<void> {
+  const db = await getBlockDb();
+  if (db) await putListingPage(db, relation, offset, users);
+}
+
+/**
+ * Get the first count accounts of an interrupted listing
+ * Returns null if they weren't all saved (the listing has to start over).
+ */
+export async function getGraphListing(
+  relation: ListingRelation,
+  count: number
+): Promise<FollowedUser[] | null> {
+  const db = await getBlockDb();
+  const pages = db ? await readListingPages(db, relation) : [];
+
+  const users: FollowedUser[] = [];
+  // Pages saved after the checkpoint was last written are listed again
+  for (const page of pages.filter((p) => p.offset < count)) {
+    if (page.offset !== users.length) return null;
+    users.push(...page.users);
+  }
+  return users.length === count ? users : null;
+}
+
+/**
+ * Remove the saved pages of a listing that's starting over, or of both once listing is done
+ */
+export async function clearGraphListing(relation?: ListingRelation): Promise<void> {
+  const db = await getBlockDb();
+  if (db) await clearListingPages(db, relation);
+}
+
+/**
+ * Get the moderation lists the accounts in the graph scope block through
+ */
+export async function getListBlockCache(): Promise<ListBlockCache> {
+  const db = await getBlockDb();
+  if (db) {
+    return { subscriptions: await readListSubscriptions(db), lists: await readModerationLists(db) };
+  }
+
+  const stored = await getStoredListBlocks();
+  return { subscriptions: stored.subscriptions ?? {}, lists: stored.lists ?? {} };
+}
+
+/**
+ * Save the moderation lists the accounts in the graph scope block through
+ * The lists go to IndexedDB, indexed by member, and so does who subscribes to which lists,
+ * indexed by list. Where it's unavailable both go to storage.local, and a quota error is left
+ * to the caller.
+ * @param changedUris - Lists fetched or dropped since the last save. In IndexedDB only these
+ *   are written; storage.local always rewrites everything.
+ * @param changedSubscribers - Likewise for accounts whose subscriptions were read or dropped
+ */
+export async function saveListBlockCache(
+  cache: ListBlockCache,
+  changedUris?: Iterable<string>,
+  changedSubscribers?: Iterable<string>
+): Promise<void> {
+  const db = await getBlockDb();
+  if (!db) {
+    await storage.local.set({ [await activeKey(STORAGE_KEYS.LIST_BLOCKS)]: cache });
+    return;
+  }
+
+  await writeModerationLists(db, cache.lists, changedUris);
+  await writeListSubscriptions(db, cache.subscriptions, changedSubscribers);
+}
+
+/**
+ * Delete the saved moderation lists and who blocks through them
+ */
+export async function clearListBlockCache(): Promise<void> {
+  const db = await getBlockDb();
+  if (db) {
+    await writeModerationLists(db, {});
+    await writeListSubscriptions(db, {});
+    return;
+  }
+
+  const key = await activeKey(STORAGE_KEYS.LIST_BLOCKS);
+  await queueWrite([key], () => storage.local.remove(key));
+}
+
+/**
+ * Read the list blocks kept in storage.local where IndexedDB is unavailable
+ */
+async function getStoredListBlocks(): Promise<Partial<ListBlockCache>> {
+  const key = await activeKey(STORAGE_KEYS.LIST_BLOCKS);
+  const result = await storage.local.get(key);
+  return (result[key] as Partial<ListBlockCache> | undefined) ?? {};
+}
+
+/**
+ * Get stored PDS resolutions
+ */
+export async function getPdsCache(): Promise<PdsCacheEntry[]> {
+  const result = await storage.local.get(STORAGE_KEYS.PDS_CACHE);
+  const data = result[STORAGE_KEYS.PDS_CACHE] as PdsCacheEntry[] | undefined;
+  return data || [];
+}
+
+/**
+ * Save PDS resolutions
+ */
+export async function savePdsCache(entries: PdsCacheEntry[]): Promise<void> {
+  await storage.local.set({ [STORAGE_KEYS.PDS_CACHE]: entries });
+}
+
+/**
+ * Get the per-follow sync ledger
+ */
+export async function getSyncLedger(): Promise<SyncLedger> {
+  const db = await getBlockDb();
+  if (db) return readSyncLedger(db);
+
+  const key = await activeKey(STORAGE_KEYS.SYNC_LEDGER);
+  const result = await storage.local.get(key);
+  const data = result[key] as SyncLedger | undefined;
+  return data || {};
+}
+
+/**
+ * Save the per-follow sync ledger (to IndexedDB where it's available)
+ * @param changedDids - Entries recorded or dropped since the last save. In IndexedDB only
+ *   these are written; storage.local always rewrites everything.
+ */
+export async function saveSyncLedger(
+  ledger: SyncLedger,
+  changedDids?: Iterable<string>
+): Promise<void> {
+  const db = await getBlockDb();
+  if (db) {
+    await writeSyncLedger(db, ledger, changedDids);
+    return;
+  }
+
+  await storage.local.set({ [await activeKey(STORAGE_KEYS.SYNC_LEDGER)]: ledger });
+}
+
+/**
+ * Work out how many follows the cache covers, from the sync ledger and the evicted follows
+ * recorded on the cache
+ */
+export function getSyncCoverage(cache: BlockCacheData | null, ledger: SyncLedger): SyncCoverage {
+  const coverage: SyncCoverage = {
+    totalFollows: cache?.followedUsers.length ?? 0,
+    checked: 0,
+    failed: 0,
+    pruned: 0,
+    unsynced: 0,
+    graphScope: cache?.graphScope,
+  };
+  const evicted = new Set(cache?.evictedDids);
+
+  for (const user of cache?.followedUsers ?? []) {
+    const entry = ledger[user.did];
+    if (!entry) {
+      coverage.unsynced++;
+    } else if (entry.state !== 'complete') {
+      coverage.failed++;
+    } else if (evicted.has(user.did) && !cache!.userBlockCaches[user.did]) {
+      coverage.pruned++;
+    } else {
+      coverage.checked++;
+    }
+  }
+  return coverage;
+}
+
+/**
+ * Get the current sync lease, if any (it may have expired)
+ */
+export async function getSyncLease(): Promise<SyncLease | null> {
+  const result = await storage.local.get(STORAGE_KEYS.SYNC_LEASE);
+  const data = result[STORAGE_KEYS.SYNC_LEASE] as SyncLease | undefined;
+  return data || null;
+}
+
+/**
+ * Take the sync lease for owner, unless someone else holds an unexpired one
+ * @param takeOver - Whether an unexpired lease may be taken from its holder anyway
+ * @returns Whether owner now holds the lease
+ */
+export async function acquireSyncLease(
+  owner: string,
+  durationMs: number,
+  takeOver?: (holder: SyncLease) => boolean
+): Promise<boolean> {
+  let acquired = false;
+  await updateStorage([STORAGE_KEYS.SYNC_LEASE], (current) => {
+    const holder = current[STORAGE_KEYS.SYNC_LEASE] as SyncLease | undefined;
+    const now = Date.now();
+    if (holder && holder.owner !== owner && holder.expiresAt > now && !takeOver?.(holder)) {
+      return {};
+    }
+    acquired = true;
+    return { [STORAGE_KEYS.SYNC_LEASE]: { owner, expiresAt: now + durationMs } };
+  });
+  return acquired;
+}
+
+/**
+ * Extend owner's sync lease
+ * @returns false if owner no longer holds it (it was revoked or taken over)
+ */
+export async function renewSyncLease(owner: string, durationMs: number): Promise<boolean> {
+  let renewed = false;
+  await updateStorage([STORAGE_KEYS.SYNC_LEASE], (current) => {
+    const holder = current[STORAGE_KEYS.SYNC_LEASE] as SyncLease | undefined;
+    if (holder?.owner !== owner) return {};
+    renewed = true;
+    return { [STORAGE_KEYS.SYNC_LEASE]: { owner, expiresAt: Date.now() + durationMs } };
+  });
+  return renewed;
+}
+
+/**
+ * Give up owner's sync lease, or revoke the lease from whoever holds it if owner is omitted
+ */
+export async function releaseSyncLease(owner?: string): Promise<void> {
+  await queueWrite([STORAGE_KEYS.SYNC_LEASE], async () => {
+    const holder = await getSyncLease();
+    if (holder && (owner === undefined || holder.owner === owner)) {
+      await storage.local.remove(STORAGE_KEYS.SYNC_LEASE);
+    }
+  });
+}
+
+/**
+ * Get the active account's stored auth token
  */
 export async function getStoredAuth(): Promise<BskySession | null> {
-  const result = await storage.local.get(STORAGE_KEYS.AUTH_TOKEN);
-  const data = result[STORAGE_KEYS.AUTH_TOKEN] as BskySession | undefined;
+  const key = await activeKey(STORAGE_KEYS.AUTH_TOKEN);
+  const result = await storage.local.get(key);
+  const data = result[key] as BskySession | undefined;
   return data || null;
 }
 
 /**
- * Store auth token
+ * Store an account's auth token, adding the account to the list of accounts
+ * It doesn't make the account active (see setActiveAccount). Stored tokens issued after the
+ * incoming ones (refreshed since a bsky.app tab read its session) are kept.
  */
 export async function storeAuth(auth: BskySession): Promise<void> {
-  await storage.local.set({ [STORAGE_KEYS.AUTH_TOKEN]: auth });
+  const key = accountKey(STORAGE_KEYS.AUTH_TOKEN, auth.did);
+  await updateStorage([key, STORAGE_KEYS.ACCOUNTS], (current) => {
+    const accounts = (current[STORAGE_KEYS.ACCOUNTS] as AccountSummary[] | undefined) ?? [];
+    const stored = current[key] as BskySession | undefined;
+    const keepStored =
+      stored !== undefined && tokenIssuedAt(stored.accessJwt) > tokenIssuedAt(auth.accessJwt);
+    return {
+      [key]: keepStored ? { ...stored, handle: auth.handle, pdsUrl: auth.pdsUrl } : auth,
+      [STORAGE_KEYS.ACCOUNTS]: [
+        ...accounts.filter((account) => account.did !== auth.did),
+        { did: auth.did, handle: auth.handle },
+      ],
+    };
+  });
+}
+
+/**
+ * When a JWT was issued (its iat claim, in seconds), or 0 if it can't be read
+ */
+function tokenIssuedAt(jwt: string): number {
+  try {
+    const payload = jwt.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const { iat } = JSON.parse(atob(payload)) as { iat?: unknown };
+    return typeof iat === 'number' ? iat : 0;
+  } catch {
+    return 0;
+  }
 }
 
 /**
  * Get blockers for a profile from cache (exact lookup, no false positives)
  * Returns users you follow who have this profileDid in their block list
  * @param profileDid - The DID to check for blocks against
- * @param cache - Optional pre-fetched cache to avoid redundant storage reads
  */
-export async function getBlockers(
-  profileDid: string,
-  cache?: BlockCacheData | null
-): Promise<FollowedUser[]> {
-  const blockCache = cache ?? (await getBlockCache());
-  if (!blockCache) {
-    return [];
-  }
-
-  const blockers: FollowedUser[] = [];
-
-  for (const user of blockCache.followedUsers) {
-    const userCache = blockCache.userBlockCaches[user.did];
-    if (!userCache?.blocks?.length) continue;
-
-    // Use Set for O(1) lookup when block list is large
-    const hasBlock =
-      userCache.blocks.length > 20
-        ? new Set(userCache.blocks).has(profileDid)
-        : userCache.blocks.includes(profileDid);
-
-    if (hasBlock) {
-      blockers.push({
-        did: user.did,
-        handle: userCache.handle || user.handle,
-        displayName: userCache.displayName || user.displayName,
-        avatar: userCache.avatar || user.avatar,
-      });
-    }
-  }
+export async function getBlockers(profileDid: string): Promise<FollowedUser[]> {
+  const db = await getBlockDb();
+  if (db) return findBlockers(db, profileDid);
+
+  const stored = await getStoredBlockCache();
+  return stored ? blockersIn(stored, profileDid) : [];
+}
+
+/**
+ * Followed users whose block lists in a stored cache contain profileDid
+ * A packed cache is searched in place rather than unpacked.
+ */
+function blockersIn(stored: StoredBlockCache, profileDid: string): FollowedUser[] {
+  const lists =
+    'lists' in stored
+      ? findPackedBlockLists(stored, profileDid)
+      : Object.values(stored.userBlockCaches).filter((list) => list.blocks.includes(profileDid));
+  // Block lists of users unfollowed since stay until the next full sync
+  const followed = new Map(stored.followedUsers.map((u) => [u.did, u]));
 
-  return blockers;
+  return lists
+    .filter((list) => followed.has(list.did))
+    .map((list) => ({
+      did: list.did,
+      handle: list.handle,
+      displayName: list.displayName,
+      avatar: list.avatar,
+      relation: followed.get(list.did)!.relation,
+    }));
 }
 
 /**
@@ -149,16 +821,26 @@ export async function lookupBlockingInfo(
   profileDid: string,
   profileBlocks: string[]
 ): Promise<BlockingInfo> {
-  const cache = await getBlockCache();
-  if (!cache) {
-    return { blockedBy: [], blocking: [] };
+  const db = await getBlockDb();
+  if (db) {
+    const info = await lookupBlockingInfoInDb(db, profileDid, profileBlocks);
+    if (!info) {
+      return { blockedBy: [], blocking: [], uncheckedCount: 0, unindexedCount: 0 };
+    }
+    const blockedViaLists = await blockersViaLists(profileDid, db, (dids) => findFollows(db, dids));
+    return { ...info, blockedViaLists };
+  }
+
+  const stored = await getStoredBlockCache();
+  if (!stored) {
+    return { blockedBy: [], blocking: [], uncheckedCount: 0, unindexedCount: 0 };
   }
 
-  // Get blockers (users you follow who block this profile) - pass cache to avoid refetch
-  const blockedBy = await getBlockers(profileDid, cache);
+  // Get blockers (users you follow who block this profile)
+  const blockedBy = blockersIn(stored, profileDid);
 
   // Build a Map for O(1) user lookup by DID
-  const followedByDid = new Map(cache.followedUsers.map((u) => [u.did, u]));
+  const followedByDid = new Map(stored.followedUsers.map((u) => [u.did, u]));
 
   // Find users you follow that this profile blocks
   const blocking: FollowedUser[] = [];
@@ -169,28 +851,108 @@ export async function lookupBlockingInfo(
     }
   }
 
-  return { blockedBy, blocking };
+  // Follows whose last fetch failed may block this profile without us knowing
+  const lists = 'lists' in stored ? stored.lists : Object.values(stored.userBlockCaches);
+  const uncheckedCount = lists.filter(
+    (list) => list.fetchState && followedByDid.has(list.did)
+  ).length;
+
+  // Follows evicted to fit the quota are missing from both directions of the lookup
+  const listed = new Set(lists.map((list) => list.did));
+  const unindexedCount = (stored.evictedDids ?? []).filter(
+    (did) => followedByDid.has(did) && !listed.has(did)
+  ).length;
+
+  const blockedViaLists = await blockersViaLists(profileDid, null, async (dids) => {
+    const subscribers = new Set(dids);
+    return new Map([...followedByDid].filter(([did]) => subscribers.has(did)));
+  });
+
+  return {
+    blockedBy,
+    blocking,
+    uncheckedCount,
+    unindexedCount,
+    graphScope: stored.graphScope,
+    blockedViaLists,
+  };
 }
 
 /**
- * Get user settings
+ * Followed users blocking profileDid through moderation lists, grouped by list
+ * Lists are found through the member index, or where IndexedDB is unavailable by scanning the
+ * lists kept in storage.local.
+ * @param findFollowed - Look up which of the given DIDs are still followed
+ */
+async function blockersViaLists(
+  profileDid: string,
+  db: IDBDatabase | null,
+  findFollowed: (dids: string[]) => Promise<Map<string, FollowedUser>>
+): Promise<ListBlockInfo[]> {
+  const stored = db ? null : await getStoredListBlocks();
+  const matching = db
+    ? await findListsWithMember(db, profileDid)
+    : Object.values(stored?.lists ?? {}).filter((list) => list.members.includes(profileDid));
+  if (matching.length === 0) return [];
+
+  const matchingUris = new Set(matching.map((list) => list.uri));
+  const subscribers = db
+    ? Object.entries(await findListSubscribers(db, [...matchingUris]))
+    : Object.entries(stored?.subscriptions ?? {}).filter(([, uris]) =>
+        uris.some((uri) => matchingUris.has(uri))
+      );
+  const followed = await findFollowed(subscribers.map(([did]) => did));
+
+  return matching
+    .map((list) => ({
+      listUri: list.uri,
+      listName: list.name,
+      blockedBy: subscribers
+        .filter(([did, uris]) => followed.has(did) && uris.includes(list.uri))
+        .map(([did]) => followed.get(did)!),
+    }))
+    .filter((info) => info.blockedBy.length > 0)
+    .sort((a, b) => b.blockedBy.length - a.blockedBy.length);
+}
+
+/**
+ * Get the active account's settings
+ * Settings saved before accounts were kept apart apply to every account that hasn't saved
+ * its own.
  */
 export async function getSettings(): Promise<UserSettings> {
-  const result = await storage.sync.get(STORAGE_KEYS.SETTINGS);
-  const data = result[STORAGE_KEYS.SETTINGS] as UserSettings | undefined;
-  return data || DEFAULT_SETTINGS;
+  const account = await getActiveAccount();
+  if (!account) {
+    const result = await storage.sync.get(STORAGE_KEYS.SETTINGS);
+    const data = result[STORAGE_KEYS.SETTINGS] as Partial<UserSettings> | undefined;
+    // Merge so settings saved by older versions pick up defaults for new fields
+    return { ...DEFAULT_SETTINGS, ...data };
+  }
+
+  const key = accountKey(STORAGE_KEYS.SETTINGS, account);
+  const result = await storage.sync.get([STORAGE_KEYS.SETTINGS, key]);
+  return {
+    ...DEFAULT_SETTINGS,
+    ...(result[STORAGE_KEYS.SETTINGS] as Partial<UserSettings> | undefined),
+    ...(result[key] as Partial<UserSettings> | undefined),
+  };
 }
 
 /**
- * Save user settings
+ * Save the active account's settings
  */
 export async function saveSettings(settings: UserSettings): Promise<void> {
-  await storage.sync.set({ [STORAGE_KEYS.SETTINGS]: settings });
+  await storage.sync.set({ [await activeKey(STORAGE_KEYS.SETTINGS)]: settings });
 }
 
 /**
- * Clear all extension data
+ * Clear all extension data, for every account
  */
 export async function clearAllData(): Promise<void> {
+  const accounts = await getAccounts();
   await storage.local.clear();
+  for (const account of [null, ...accounts.map((a) => a.did)]) {
+    const db = await openAccountBlockDb(account);
+    if (db) await clearBlockDb(db);
+  }
 }
@@ -9,6 +9,7 @@ export interface BskySession {
   did: string;
   handle: string;
   pdsUrl: string;
+  ownedByExtension?: boolean; // Created by the extension, not picked up from bsky.app
 }
 
 // Account structure from Bluesky storage
@@ -50,8 +51,17 @@ export interface FollowedUser {
   handle: string;
   displayName?: string;
   avatar?: string;
+  relation?: GraphRelation; // Missing in caches saved before other scopes existed: 'follow'
 }
 
+// Accounts whose block lists are indexed: people you follow, your followers, accounts that are
+// both (mutuals), or everyone in either list (union)
+export type GraphScope = 'follows' | 'followers' | 'mutuals' | 'union';
+
+// How an indexed account is connected to you, as far as the scope shows ('mutual' only when
+// both lists were fetched)
+export type GraphRelation = 'follow' | 'follower' | 'mutual';
+
 // Response from app.bsky.graph.getFollows
 export interface GetFollowsResponse {
   follows: Array<{
@@ -63,6 +73,20 @@ export interface GetFollowsResponse {
   cursor?: string;
 }
 
+// Response from com.atproto.server.refreshSession
+export interface RefreshSessionResponse {
+  accessJwt: string;
+  refreshJwt: string;
+  did: string;
+  handle?: string;
+}
+
+// Response from app.bsky.graph.getFollowers
+export interface GetFollowersResponse {
+  followers: GetFollowsResponse['follows'];
+  cursor?: string;
+}
+
 // Block record from com.atproto.repo.listRecords
 export interface BlockRecord {
   uri: string;
@@ -74,12 +98,69 @@ export interface BlockRecord {
   };
 }
 
+// Block through a moderation list (subject is the list's at:// URI)
+export interface ListBlockRecord {
+  uri: string;
+  cid: string;
+  value: {
+    $type: 'app.bsky.graph.listblock';
+    subject: string;
+    createdAt: string;
+  };
+}
+
+// Entry on a list, kept in the list owner's repo
+export interface ListItemRecord {
+  uri: string;
+  cid: string;
+  value: {
+    $type: 'app.bsky.graph.listitem';
+    subject: string; // DID on the list
+    list: string; // at:// URI of the list
+    createdAt: string;
+  };
+}
+
 // Response from com.atproto.repo.listRecords
 export interface ListRecordsResponse {
-  records: BlockRecord[];
+  records: Array<BlockRecord | ListBlockRecord | ListItemRecord>;
   cursor?: string;
 }
 
+// Response from com.atproto.repo.getRecord for an app.bsky.graph.list record
+export interface GetListRecordResponse {
+  uri: string;
+  value: {
+    $type: 'app.bsky.graph.list';
+    name: string;
+    purpose: string;
+  };
+}
+
+// How far a block-list fetch got
+// - complete: every page was read
+// - partial: paging failed after at least one page
+// - not-found: the PDS doesn't host the repo
+// - deactivated: the repo is deactivated, taken down or suspended
+// - error: failed before anything was read
+export type BlockFetchState = 'complete' | 'partial' | 'not-found' | 'deactivated' | 'error';
+
+// Result of fetching a user's block records (newest first)
+export interface BlockFetchResult {
+  blocks: string[]; // Subjects of the fetched records
+  newestRkey?: string; // rkey of the newest record returned
+  state: BlockFetchState;
+  httpStatus?: number; // Status of the last response (missing on network errors)
+}
+
+// Result of fetching a moderation list's members
+export interface ListFetchResult {
+  name?: string;
+  members: string[]; // DIDs on the list
+  state: BlockFetchState;
+  httpStatus?: number;
+}
+
 // Cached block list for a single user
 export interface UserBlockCache {
   did: string;
@@ -88,14 +169,63 @@ export interface UserBlockCache {
   avatar?: string;
   blocks: string[]; // Array of DIDs this user blocks
   lastSynced: number;
+  newestRkey?: string; // rkey of the newest block record seen (delta sync starts from here)
+  fetchState?: BlockFetchState; // Outcome of the last fetch (missing means complete)
+  httpStatus?: number; // HTTP status of the last failed fetch
+}
+
+// A moderation list that accounts in the graph scope block through
+export interface ModerationList {
+  uri: string; // at:// URI of the app.bsky.graph.list record
+  name?: string; // Missing when the list record couldn't be read
+  members: string[]; // DIDs on the list, from the owner's listitem records
+  lastSynced: number;
+  fetchState?: BlockFetchState; // Outcome of the last member fetch (missing means complete)
+}
+
+// Blocks made through moderation lists, stored apart from the block cache
+export interface ListBlockCache {
+  subscriptions: Record<string, string[]>; // Account DID -> URIs of the lists it blocks
+  lists: Record<string, ModerationList>; // By list URI
+}
+
+// Accounts that block a profile through one moderation list
+export interface ListBlockInfo {
+  listUri: string;
+  listName?: string;
+  blockedBy: FollowedUser[];
 }
 
 // Main cache structure stored in chrome.storage.local
 export interface BlockCacheData {
-  followedUsers: FollowedUser[];
+  followedUsers: FollowedUser[]; // Every account in the graph scope, not only follows
+  graphScope?: GraphScope; // Scope followedUsers was listed for (missing = 'follows')
   userBlockCaches: Record<string, UserBlockCache>; // Direct DID arrays (bloom filters had too many false positives)
   lastFullSync: number;
+  lastFullReconcile?: number; // Last sync that refetched every block list (catches deletions)
   currentUserDid: string;
+  evictedDids?: string[]; // Follows whose block lists were evicted to fit the storage quota
+}
+
+// Sorted table of blocked DIDs: did:plc identifiers first, then every other DID
+export interface PackedDidTable {
+  plc: string; // Base64 of the decoded base32 identifiers, 15 bytes each
+  other: string[];
+}
+
+// A block cache as kept in storage.local (see blockcodec.ts). Block lists are stored inverted,
+// so it doubles as the blocked-by index (IndexedDB indexes block lists itself)
+export interface PackedBlockCache {
+  followedUsers: FollowedUser[];
+  graphScope?: GraphScope;
+  lists: Array<Omit<UserBlockCache, 'blocks'>>; // Owners of the block lists and their sync state
+  blocked: PackedDidTable;
+  offsets: string; // Base64 24-bit integers: blocked DID i is in refs[offsets[i]..offsets[i + 1])
+  refs: string; // Base64 24-bit positions in lists
+  lastFullSync: number;
+  lastFullReconcile?: number;
+  currentUserDid: string;
+  evictedDids?: string[];
 }
 
 // Sync status for tracking progress
@@ -105,13 +235,96 @@ export interface SyncStatus {
   lastSync: number;
   isRunning: boolean;
   lastUpdated: number; // Timestamp of last status update (for stale lock detection)
-  errors: string[];
+  errors: SyncError[]; // Follows whose block lists failed to sync
+  lastError?: string; // Why the last sync failed as a whole (e.g. follows couldn't be listed)
+  followDiff?: FollowDiff; // How the follow list changed since the sync before (unset on a first sync)
+}
+
+// Follows gained and lost between two syncs, as DIDs
+export interface FollowDiff {
+  added: string[];
+  removed: string[];
+}
+
+// Why a follow's block list couldn't be synced
+export type SyncErrorKind = Exclude<BlockFetchState, 'complete'>;
+
+// A follow whose block list failed to sync, kept for display and for the retry queue
+export interface SyncError {
+  did: string;
+  handle: string;
+  kind: SyncErrorKind;
+  message: string;
+  httpStatus?: number;
+  retryable: boolean;
+  attempts: number; // Failed attempts in a row
+  timestamp: number; // When the last attempt failed
+  nextRetryAt?: number; // When the retry queue tries again (unset once it gives up)
+}
+
+// When and how a follow's block list was last synced. Kept apart from the block data, so
+// "synced, no blocks" can be told apart from "never synced" or "pruned"
+export interface SyncLedgerEntry {
+  lastSynced: number;
+  state: BlockFetchState;
+  blockCount: number; // Blocks cached for the follow after the sync
+  listBlocksSynced?: number; // When the follow's list blocks were last read (unset if never)
+}
+
+// Ledger entries by follow DID
+export type SyncLedger = Record<string, SyncLedgerEntry>;
+
+// How much of the follow list the cache covers
+export interface SyncCoverage {
+  totalFollows: number;
+  checked: number; // Synced with a complete block list
+  failed: number; // Synced, but the block list couldn't be fully read
+  pruned: number; // Synced, but the block list was evicted to fit the storage quota
+  unsynced: number; // Not synced yet
+  graphScope?: GraphScope; // Scope the accounts were listed for (missing = 'follows')
+}
+
+// Progress of an interrupted sync, persisted so the next run resumes instead of restarting
+export interface SyncCheckpoint {
+  userDid: string;
+  startedAt: number;
+  isFullReconcile: boolean;
+  graphScope?: GraphScope; // Scope being synced (missing = 'follows')
+  followsCursor?: string; // Next getFollows page, while follows are still being listed
+  followsListed?: number; // Follows saved so far (all of them, once followers are being listed)
+  followersCursor?: string; // Next getFollowers page, once follows are listed
+  followersListed?: number; // Followers saved so far
+  lastCompletedChunk: number; // Index of the last batch of fetched users saved to the cache (-1 = none)
+  pendingDids?: string[]; // Follows whose block lists are still to be fetched
+}
+
+// Which list an unfinished listing of the graph scope's accounts is paging through
+export type ListingRelation = 'follows' | 'followers';
+
+// Exclusive right to run a sync, renewed by its holder until it finishes. A holder that stops
+// renewing (its worker was terminated) loses the lease once it expires.
+export interface SyncLease {
+  owner: string; // "<worker id>:<sync number>"
+  expiresAt: number;
+}
+
+// A resolved DID -> PDS mapping, persisted so restarts don't re-resolve every follow
+export interface PdsCacheEntry {
+  did: string;
+  pdsUrl: string;
+  resolvedAt: number;
 }
 
 // Result for profile page display
 export interface BlockingInfo {
   blockedBy: FollowedUser[]; // Users you follow who block this profile
   blocking: FollowedUser[]; // Users you follow that this profile blocks
+  uncheckedCount?: number; // Follows whose block lists couldn't be fully read
+  unindexedCount?: number; // Follows whose block lists were evicted by storage limits
+  blocksViewer?: boolean; // This profile blocks you (missing when its blocks couldn't be read)
+  blockedByViewer?: boolean; // You block this profile (missing when your blocks couldn't be read)
+  graphScope?: GraphScope; // Accounts blockedBy and blocking are drawn from (missing = 'follows')
+  blockedViaLists?: ListBlockInfo[]; // Blocks through moderation lists, most subscribers first
 }
 
 // PLC directory document structure
@@ -123,6 +336,22 @@ export interface PlcDocument {
   }>;
 }
 
+// Event from a Jetstream WebSocket feed (only the fields we use)
+export interface JetstreamEvent {
+  did: string;
+  time_us: number;
+  kind: 'commit' | 'identity' | 'account';
+  commit?: {
+    operation: 'create' | 'update' | 'delete';
+    collection: string;
+    rkey: string;
+    record?: {
+      subject?: string;
+      createdAt?: string;
+    };
+  };
+}
+
 // Message types for background/content script communication
 export type MessageType =
   | 'SET_AUTH'
@@ -130,13 +359,17 @@ export type MessageType =
   | 'FETCH_PROFILE_BLOCKS'
   | 'TRIGGER_SYNC'
   | 'GET_SYNC_STATUS'
-  | 'CLEAR_CACHE';
+  | 'CLEAR_CACHE'
+  | 'STOP_SYNC'
+  | 'GET_ACCOUNTS'
+  | 'SWITCH_ACCOUNT';
 
 export interface Message {
   type: MessageType;
   profileDid?: string;
   handle?: string;
   auth?: BskySession;
+  accountDid?: string; // Account to switch to (SWITCH_ACCOUNT)
 }
 
 export interface MessageResponse {
@@ -145,6 +378,10 @@ export interface MessageResponse {
   blockingInfo?: BlockingInfo;
   blocks?: string[];
   syncStatus?: SyncStatus;
+  coverage?: SyncCoverage;
+  alreadyRunning?: boolean; // TRIGGER_SYNC was refused because another sync holds the lease
+  accounts?: AccountSummary[];
+  activeAccount?: string | null;
 }
 
 // Display mode for blocking info
@@ -153,16 +390,50 @@ export type DisplayMode = 'compact' | 'detailed';
 // User settings
 export interface UserSettings {
   displayMode: DisplayMode; // 'compact' = single sentence, 'detailed' = avatars + names
+  realtimeEnabled: boolean; // Patch block lists live from a Jetstream feed between syncs
+  jetstreamUrl: string; // WebSocket endpoint of the Jetstream instance
+  graphScope: GraphScope; // Accounts whose block lists are synced
 }
 
+export const DEFAULT_JETSTREAM_URL = 'wss://jetstream2.us-east.bsky.network/subscribe';
+
 export const DEFAULT_SETTINGS: UserSettings = {
   displayMode: 'compact',
+  realtimeEnabled: false,
+  jetstreamUrl: DEFAULT_JETSTREAM_URL,
+  graphScope: 'follows',
 };
 
 // Storage keys
 export const STORAGE_KEYS = {
   BLOCK_CACHE: 'blockCache',
+  BLOCK_INDEX: 'blockIndex', // Saved by older versions, removed by a migration
   SYNC_STATUS: 'syncStatus',
+  SYNC_CHECKPOINT: 'syncCheckpoint',
+  PDS_CACHE: 'pdsCache',
+  SYNC_LEDGER: 'syncLedger',
+  SYNC_LEASE: 'syncLease',
+  LIST_BLOCKS: 'listBlocks',
   AUTH_TOKEN: 'authToken',
   SETTINGS: 'settings',
+  SCHEMA_VERSION: 'schemaVersion', // Version of the data under every other key (see migrations.ts)
+  ACCOUNTS: 'accounts',
+  ACTIVE_ACCOUNT: 'activeAccount', // DID of the account whose data is read and written
 } as const;
+
+// Keys holding one account's data, saved once per account as "<key>:<did>". Settings in
+// storage.sync are kept the same way, on top of the shared ones under the plain key.
+export const ACCOUNT_KEYS: string[] = [
+  STORAGE_KEYS.AUTH_TOKEN,
+  STORAGE_KEYS.BLOCK_CACHE,
+  STORAGE_KEYS.SYNC_STATUS,
+  STORAGE_KEYS.SYNC_CHECKPOINT,
+  STORAGE_KEYS.SYNC_LEDGER,
+  STORAGE_KEYS.LIST_BLOCKS,
+];
+
+// An account that has logged in on this browser
+export interface AccountSummary {
+  did: string;
+  handle: string;
+}